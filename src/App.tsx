@@ -1,12 +1,22 @@
 import React from 'react'
-import { BrowserRouter as Router } from 'react-router-dom'
+import { BrowserRouter as Router, Navigate, Route, Routes, useNavigate } from 'react-router-dom'
 import { Toaster } from 'react-hot-toast'
 import { AuthProvider, useAuth } from './contexts/AuthContext'
+import { UploadQueueProvider } from './contexts/UploadQueueContext'
+import { PlayerProvider } from './contexts/PlayerContext'
+import { ShortcutsProvider, useShortcut } from './contexts/ShortcutsContext'
 import { AuthForm } from './components/Auth/AuthForm'
+import { PlayerDock } from './components/Player/PlayerDock'
 import { Dashboard } from './pages/Dashboard'
 
 const AppContent: React.FC = () => {
   const { user, loading } = useAuth()
+  const navigate = useNavigate()
+
+  useShortcut('goToLibrary', () => {
+    navigate('/')
+    window.scrollTo({ top: 0, behavior: 'smooth' })
+  }, !!user)
 
   if (loading) {
     return (
@@ -19,40 +29,57 @@ const AppContent: React.FC = () => {
     )
   }
 
-  return user ? <Dashboard /> : <AuthForm />
+  if (!user) return <AuthForm />
+
+  // The dock sits outside the routes so playback carries on across pages
+  return (
+    <>
+      <Routes>
+        <Route path="/" element={<Dashboard />} />
+        <Route path="*" element={<Navigate to="/" replace />} />
+      </Routes>
+      <PlayerDock />
+    </>
+  )
 }
 
 function App() {
   return (
     <Router>
       <AuthProvider>
-        <div className="App">
-          <AppContent />
-          <Toaster
-            position="top-right"
-            toastOptions={{
-              duration: 4000,
-              style: {
-                background: '#363636',
-                color: '#fff',
-              },
-              success: {
-                duration: 3000,
-                iconTheme: {
-                  primary: '#10b981',
-                  secondary: '#fff',
-                },
-              },
-              error: {
-                duration: 4000,
-                iconTheme: {
-                  primary: '#ef4444',
-                  secondary: '#fff',
-                },
-              },
-            }}
-          />
-        </div>
+        <UploadQueueProvider>
+          <PlayerProvider>
+            <ShortcutsProvider>
+              <div className="App">
+                <AppContent />
+                <Toaster
+                  position="top-right"
+                  toastOptions={{
+                    duration: 4000,
+                    style: {
+                      background: '#363636',
+                      color: '#fff',
+                    },
+                    success: {
+                      duration: 3000,
+                      iconTheme: {
+                        primary: '#10b981',
+                        secondary: '#fff',
+                      },
+                    },
+                    error: {
+                      duration: 4000,
+                      iconTheme: {
+                        primary: '#ef4444',
+                        secondary: '#fff',
+                      },
+                    },
+                  }}
+                />
+              </div>
+            </ShortcutsProvider>
+          </PlayerProvider>
+        </UploadQueueProvider>
       </AuthProvider>
     </Router>
   )
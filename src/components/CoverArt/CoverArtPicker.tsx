@@ -0,0 +1,77 @@
+import React, { useRef, useState } from 'react'
+import toast from 'react-hot-toast'
+import { CoverCropDialog } from './CoverCropDialog'
+import {
+  COVER_IMAGE_TYPES,
+  COVER_MAX_FILE_SIZE,
+  cropCoverImage,
+  SquareCrop,
+} from '../../lib/media/coverArt'
+
+interface CoverArtPickerProps {
+  // Receives the cropped square image
+  onPick: (cover: Blob) => void
+  disabled?: boolean
+  className?: string
+  label: string
+  children: React.ReactNode
+}
+
+// Button that lets the user choose a JPEG, PNG or WebP image and crop it to
+// a square for use as cover art
+export const CoverArtPicker: React.FC<CoverArtPickerProps> = ({ onPick, disabled, className, label, children }) => {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [image, setImage] = useState<File | null>(null)
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    if (!COVER_IMAGE_TYPES.includes(file.type)) {
+      toast.error('Cover art must be a JPEG, PNG or WebP image')
+      return
+    }
+    if (file.size > COVER_MAX_FILE_SIZE) {
+      toast.error('Cover art must be smaller than 20MB')
+      return
+    }
+    setImage(file)
+  }
+
+  const handleApply = async (crop: SquareCrop) => {
+    if (!image) return
+    setImage(null)
+    try {
+      onPick(await cropCoverImage(image, crop))
+    } catch (error) {
+      console.warn('Could not crop cover art:', error)
+      toast.error('That image could not be read')
+    }
+  }
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled}
+        className={className}
+        aria-label={label}
+        title={label}
+      >
+        {children}
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={COVER_IMAGE_TYPES.join(',')}
+        onChange={handleChange}
+        className="hidden"
+      />
+      {image && (
+        <CoverCropDialog image={image} onCancel={() => setImage(null)} onApply={handleApply} />
+      )}
+    </>
+  )
+}
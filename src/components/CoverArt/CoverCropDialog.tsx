@@ -0,0 +1,167 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { motion } from 'framer-motion'
+import { Crop, X, ZoomIn } from 'lucide-react'
+import { SquareCrop } from '../../lib/media/coverArt'
+
+interface CoverCropDialogProps {
+  image: Blob
+  onCancel: () => void
+  onApply: (crop: SquareCrop) => void
+}
+
+// Side of the square crop area, in CSS pixels
+const VIEWPORT = 288
+const MAX_ZOOM = 4
+
+interface Point {
+  x: number
+  y: number
+}
+
+// Pan and zoom an image inside a square frame to choose the part kept as
+// cover art. Rendered into the body so transformed parents cannot offset it.
+export const CoverCropDialog: React.FC<CoverCropDialogProps> = ({ image, onCancel, onApply }) => {
+  const [url, setUrl] = useState<string | null>(null)
+  const [natural, setNatural] = useState<{ width: number; height: number } | null>(null)
+  const [zoom, setZoom] = useState(1)
+  // Position of the image's top left corner inside the frame
+  const [offset, setOffset] = useState<Point>({ x: 0, y: 0 })
+  const dragRef = useRef<{ pointer: Point; offset: Point } | null>(null)
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(image)
+    setUrl(objectUrl)
+    return () => URL.revokeObjectURL(objectUrl)
+  }, [image])
+
+  const scaleFor = (level: number) => natural ? VIEWPORT / Math.min(natural.width, natural.height) * level : 1
+  const scale = scaleFor(zoom)
+
+  // Keep the frame covered by the image
+  const clamp = (point: Point, level: number): Point => {
+    if (!natural) return point
+    const factor = scaleFor(level)
+    return {
+      x: Math.min(0, Math.max(VIEWPORT - natural.width * factor, point.x)),
+      y: Math.min(0, Math.max(VIEWPORT - natural.height * factor, point.y)),
+    }
+  }
+
+  const handleLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const { naturalWidth: width, naturalHeight: height } = e.currentTarget
+    const factor = VIEWPORT / Math.min(width, height)
+    setNatural({ width, height })
+    setOffset({ x: (VIEWPORT - width * factor) / 2, y: (VIEWPORT - height * factor) / 2 })
+  }
+
+  // Zoom around the centre of the frame
+  const handleZoom = (level: number) => {
+    const ratio = scaleFor(level) / scale
+    const center = VIEWPORT / 2
+    setOffset(clamp({
+      x: center - (center - offset.x) * ratio,
+      y: center - (center - offset.y) * ratio,
+    }, level))
+    setZoom(level)
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    dragRef.current = { pointer: { x: e.clientX, y: e.clientY }, offset }
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current
+    if (!drag) return
+    setOffset(clamp({
+      x: drag.offset.x + e.clientX - drag.pointer.x,
+      y: drag.offset.y + e.clientY - drag.pointer.y,
+    }, zoom))
+  }
+
+  const handlePointerUp = () => {
+    dragRef.current = null
+  }
+
+  const handleApply = () => {
+    onApply({ x: -offset.x / scale, y: -offset.y / scale, size: VIEWPORT / scale })
+  }
+
+  return createPortal(
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        className="fixed inset-0 bg-black/70 backdrop-blur-sm"
+        onClick={onCancel}
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="relative floating-card p-6 space-y-5"
+        role="dialog"
+        aria-label="Crop cover art"
+      >
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2 text-white font-semibold">
+            <Crop className="h-5 w-5" />
+            <span>Crop cover art</span>
+          </div>
+          <button onClick={onCancel} className="text-white/60 hover:text-white p-1" aria-label="Cancel">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div
+          className="relative overflow-hidden rounded-xl bg-black cursor-move touch-none select-none mx-auto"
+          style={{ width: VIEWPORT, height: VIEWPORT }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          {url && (
+            <img
+              src={url}
+              alt="Cover art to crop"
+              onLoad={handleLoad}
+              draggable={false}
+              className="absolute max-w-none"
+              style={natural ? {
+                left: offset.x,
+                top: offset.y,
+                width: natural.width * scale,
+                height: natural.height * scale,
+              } : { visibility: 'hidden' }}
+            />
+          )}
+        </div>
+
+        <label className="flex items-center space-x-3 text-white/70">
+          <ZoomIn className="h-4 w-4" />
+          <input
+            type="range"
+            min={1}
+            max={MAX_ZOOM}
+            step={0.01}
+            value={zoom}
+            onChange={(e) => handleZoom(Number(e.target.value))}
+            className="flex-1 accent-purple-500"
+            aria-label="Zoom"
+          />
+        </label>
+
+        <div className="flex justify-end space-x-3">
+          <button onClick={onCancel} className="btn-secondary py-2">
+            Cancel
+          </button>
+          <button onClick={handleApply} disabled={!natural} className="btn-primary py-2 disabled:opacity-50">
+            Use as cover
+          </button>
+        </div>
+      </motion.div>
+    </div>,
+    document.body
+  )
+}
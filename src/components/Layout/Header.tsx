@@ -1,6 +1,8 @@
 import React from 'react'
-import { Music, User, LogOut, Upload, Search, Bell } from 'lucide-react'
+import { Music, User, LogOut, Upload, Search, Bell, Keyboard } from 'lucide-react'
 import { useAuth } from '../../contexts/AuthContext'
+import { useUploadQueue } from '../../contexts/UploadQueueContext'
+import { useShortcuts } from '../../contexts/ShortcutsContext'
 import { motion } from 'framer-motion'
 
 interface HeaderProps {
@@ -9,6 +11,8 @@ interface HeaderProps {
 
 export const Header: React.FC<HeaderProps> = ({ onUploadClick }) => {
   const { user, signOut } = useAuth()
+  const { activeCount } = useUploadQueue()
+  const { openCheatSheet } = useShortcuts()
 
   return (
     <motion.header 
@@ -54,13 +58,33 @@ export const Header: React.FC<HeaderProps> = ({ onUploadClick }) => {
                 whileHover={{ scale: 1.05 }}
                 whileTap={{ scale: 0.95 }}
                 onClick={onUploadClick}
-                className="btn-primary flex items-center space-x-2"
+                className="btn-primary flex items-center space-x-2 relative"
               >
                 <Upload className="h-5 w-5" />
                 <span className="hidden sm:inline">Upload</span>
+                {activeCount > 0 && (
+                  <span
+                    className="absolute -top-2 -right-2 min-w-[1.25rem] h-5 px-1 rounded-full bg-gradient-to-r from-pink-500 to-red-500 text-xs font-bold text-white flex items-center justify-center"
+                    aria-label={`${activeCount} uploads in progress`}
+                  >
+                    {activeCount}
+                  </span>
+                )}
               </motion.button>
             )}
 
+            {/* Keyboard shortcuts */}
+            <motion.button
+              whileHover={{ scale: 1.1 }}
+              whileTap={{ scale: 0.9 }}
+              onClick={openCheatSheet}
+              className="hidden md:block glass glass-hover p-3 rounded-xl"
+              aria-label="Keyboard shortcuts"
+              title="Keyboard shortcuts (?)"
+            >
+              <Keyboard className="h-5 w-5 text-white/80" />
+            </motion.button>
+
             {/* Notifications */}
             <motion.button
               whileHover={{ scale: 1.1 }}
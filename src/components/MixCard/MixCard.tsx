@@ -1,14 +1,33 @@
-import React from 'react'
-import { Play, Clock, Eye, Music, Video, Heart, Share2, MoreHorizontal } from 'lucide-react'
-import { motion } from 'framer-motion'
+import React, { useRef } from 'react'
+import { Play, Clock, Eye, Music, Video, Heart, Share2, MoreHorizontal, ImagePlus, ListStart, ListPlus, ListMusic } from 'lucide-react'
+import { motion, useInView } from 'framer-motion'
+import { Waveform, useWaveform } from '../Waveform/Waveform'
+import { CoverArtPicker } from '../CoverArt/CoverArtPicker'
 import { MusicMix } from '../../types'
 
 interface MixCardProps {
   mix: MusicMix
   onPlay: (mix: MusicMix) => void
+  onPlayNext?: (mix: MusicMix) => void
+  onAddToQueue?: (mix: MusicMix) => void
+  // Only passed for the owner's own mixes
+  onChangeCover?: (mix: MusicMix, cover: Blob) => void
+  onEditTracklist?: (mix: MusicMix) => void
+  // Share already heard of a partly played mix
+  progress?: number | null
 }
 
-export const MixCard: React.FC<MixCardProps> = ({ mix, onPlay }) => {
+// Rendered width of the cover at each breakpoint of the Dashboard grid
+const COVER_SIZES_ATTR = '(min-width: 1280px) 20rem, (min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw'
+
+export const MixCard: React.FC<MixCardProps> = ({ mix, onPlay, onPlayNext, onAddToQueue, onChangeCover, onEditTracklist, progress }) => {
+  const cardRef = useRef<HTMLDivElement>(null)
+  // Peaks are only fetched once the card scrolls into view
+  const isInView = useInView(cardRef, { once: true })
+  const waveform = useWaveform(mix.waveform_path, isInView)
+  // Cover art wins over a video's poster frame
+  const imageUrl = mix.coverUrl || mix.thumbnailUrl
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes'
     const k = 1024
@@ -33,6 +52,7 @@ export const MixCard: React.FC<MixCardProps> = ({ mix, onPlay }) => {
 
   return (
     <motion.div
+      ref={cardRef}
       initial={{ opacity: 0, y: 20 }}
       animate={{ opacity: 1, y: 0 }}
       whileHover={{ y: -8 }}
@@ -45,17 +65,49 @@ export const MixCard: React.FC<MixCardProps> = ({ mix, onPlay }) => {
             ? 'bg-gradient-to-br from-pink-500 via-purple-600 to-indigo-700' 
             : 'bg-gradient-to-br from-purple-500 via-blue-600 to-teal-600'
         }`}>
-          <div className="absolute inset-0 flex items-center justify-center">
-            {mix.file_type === 'video' ? (
-              <Video className="h-16 w-16 text-white/80" />
-            ) : (
-              <Music className="h-16 w-16 text-white/80" />
-            )}
-          </div>
+          {imageUrl ? (
+            <img
+              src={imageUrl}
+              srcSet={mix.coverUrl ? mix.coverSrcSet : undefined}
+              sizes={mix.coverUrl && mix.coverSrcSet ? COVER_SIZES_ATTR : undefined}
+              alt={`Cover art for ${mix.title}`}
+              loading="lazy"
+              className="absolute inset-0 h-full w-full object-cover"
+            />
+          ) : (
+            <div className="absolute inset-0 flex items-center justify-center">
+              {mix.file_type === 'video' ? (
+                <Video className="h-16 w-16 text-white/80" />
+              ) : (
+                <Music className="h-16 w-16 text-white/80" />
+              )}
+            </div>
+          )}
           
           {/* Overlay gradient */}
           <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent" />
+
+          {/* Waveform strip */}
+          {waveform && (
+            <div className="absolute bottom-3 inset-x-4 h-10 pointer-events-none">
+              <Waveform waveform={waveform} color="rgba(255, 255, 255, 0.6)" />
+            </div>
+          )}
           
+          {/* Listening progress */}
+          {progress != null && (
+            <div
+              className="absolute bottom-0 inset-x-0 h-1 bg-white/20 pointer-events-none"
+              role="progressbar"
+              aria-label="Listening progress"
+              aria-valuenow={Math.round(progress * 100)}
+              aria-valuemin={0}
+              aria-valuemax={100}
+            >
+              <div className="h-full bg-gradient-to-r from-purple-500 to-pink-500" style={{ width: `${progress * 100}%` }} />
+            </div>
+          )}
+
           {/* Play button overlay */}
           <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-all duration-300 flex items-center justify-center">
             <motion.button
@@ -81,6 +133,51 @@ export const MixCard: React.FC<MixCardProps> = ({ mix, onPlay }) => {
 
           {/* Action buttons */}
           <div className="absolute top-4 right-4 flex space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">
+            {onPlayNext && (
+              <motion.button
+                whileHover={{ scale: 1.1 }}
+                whileTap={{ scale: 0.9 }}
+                onClick={() => onPlayNext(mix)}
+                className="glass p-2 rounded-lg text-white/80 hover:text-purple-300"
+                aria-label="Play next"
+                title="Play next"
+              >
+                <ListStart className="h-4 w-4" />
+              </motion.button>
+            )}
+            {onAddToQueue && (
+              <motion.button
+                whileHover={{ scale: 1.1 }}
+                whileTap={{ scale: 0.9 }}
+                onClick={() => onAddToQueue(mix)}
+                className="glass p-2 rounded-lg text-white/80 hover:text-purple-300"
+                aria-label="Add to queue"
+                title="Add to queue"
+              >
+                <ListPlus className="h-4 w-4" />
+              </motion.button>
+            )}
+            {onChangeCover && (
+              <CoverArtPicker
+                onPick={(cover) => onChangeCover(mix, cover)}
+                label="Change cover art"
+                className="glass p-2 rounded-lg text-white/80 hover:text-purple-300"
+              >
+                <ImagePlus className="h-4 w-4" />
+              </CoverArtPicker>
+            )}
+            {onEditTracklist && (
+              <motion.button
+                whileHover={{ scale: 1.1 }}
+                whileTap={{ scale: 0.9 }}
+                onClick={() => onEditTracklist(mix)}
+                className="glass p-2 rounded-lg text-white/80 hover:text-purple-300"
+                aria-label="Edit tracklist"
+                title="Edit tracklist"
+              >
+                <ListMusic className="h-4 w-4" />
+              </motion.button>
+            )}
             <motion.button
               whileHover={{ scale: 1.1 }}
               whileTap={{ scale: 0.9 }}
@@ -110,6 +207,12 @@ export const MixCard: React.FC<MixCardProps> = ({ mix, onPlay }) => {
           <h3 className="font-bold text-white text-lg mb-2 line-clamp-2 group-hover:text-gradient transition-all">
             {mix.title}
           </h3>
+
+          {(mix.artist || mix.genre || mix.bpm) && (
+            <p className="text-white/60 text-sm mb-2 truncate">
+              {[mix.artist, mix.genre, mix.bpm && `${mix.bpm} BPM`].filter(Boolean).join(' • ')}
+            </p>
+          )}
           
           {mix.description && (
             <p className="text-white/70 text-sm mb-4 line-clamp-2">
@@ -0,0 +1,182 @@
+// @vitest-environment jsdom
+import { act, cleanup, render, screen } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import MediaPlayer from './MediaPlayer';
+import { ShortcutsProvider } from '../../contexts/ShortcutsContext';
+import { onPlaybackError, PlaybackErrorReport, playbackErrorMessages } from '../../lib/player/playbackErrors';
+
+// Codes as browsers define them
+const MEDIA_ERR = { ABORTED: 1, NETWORK: 2, DECODE: 3, SRC_NOT_SUPPORTED: 4 };
+
+const token = (exp: number) => ['e30', btoa(JSON.stringify({ exp })), 'signature'].join('.');
+const signedUrl = (exp: number) =>
+  `http://localhost:54321/storage/v1/object/sign/music-mixes/user/set.mp4?token=${token(exp)}`;
+
+const validUrl = signedUrl(Math.floor(Date.now() / 1000) + 3600);
+const expiredUrl = signedUrl(Math.floor(Date.now() / 1000) - 60);
+
+const renderPlayer = (url: string, props: { onUrlExpired?: () => void; onUnplayable?: () => void } = {}) => {
+  const { container } = render(
+    <ShortcutsProvider>
+      <MediaPlayer media={{ url, type: 'video', title: 'Set' }} {...props} />
+    </ShortcutsProvider>
+  );
+  const video = container.querySelector('video');
+  if (!video) throw new Error('No video element rendered');
+  return video;
+};
+
+// Make the element fail the way a browser does: set its error, then fire
+// the event
+const fail = (video: HTMLVideoElement, code: number) => {
+  Object.defineProperty(video, 'error', { configurable: true, get: () => ({ code }) });
+  act(() => {
+    video.dispatchEvent(new Event('error'));
+  });
+};
+
+describe('MediaPlayer recovery', () => {
+  let load: ReturnType<typeof vi.fn>;
+  let reports: PlaybackErrorReport[];
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('MediaError', {
+      MEDIA_ERR_ABORTED: MEDIA_ERR.ABORTED,
+      MEDIA_ERR_NETWORK: MEDIA_ERR.NETWORK,
+      MEDIA_ERR_DECODE: MEDIA_ERR.DECODE,
+      MEDIA_ERR_SRC_NOT_SUPPORTED: MEDIA_ERR.SRC_NOT_SUPPORTED,
+    });
+    // jsdom does not implement media loading or playback
+    load = vi.fn();
+    vi.spyOn(HTMLMediaElement.prototype, 'load').mockImplementation(load);
+    vi.spyOn(HTMLMediaElement.prototype, 'play').mockResolvedValue(undefined);
+    vi.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    reports = [];
+    unsubscribe = onPlaybackError(report => reports.push(report));
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    cleanup();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('ignores an aborted load', () => {
+    const onUrlExpired = vi.fn();
+    const onUnplayable = vi.fn();
+    const video = renderPlayer(validUrl, { onUrlExpired, onUnplayable });
+
+    fail(video, MEDIA_ERR.ABORTED);
+    act(() => vi.runAllTimers());
+
+    expect(load).not.toHaveBeenCalled();
+    expect(onUrlExpired).not.toHaveBeenCalled();
+    expect(onUnplayable).not.toHaveBeenCalled();
+    expect(reports).toEqual([]);
+  });
+
+  it('retries a network failure with backoff, then signs the URL again', () => {
+    const onUrlExpired = vi.fn();
+    const video = renderPlayer(validUrl, { onUrlExpired });
+
+    for (const delay of [1000, 2000, 4000]) {
+      load.mockClear();
+      fail(video, MEDIA_ERR.NETWORK);
+      act(() => vi.advanceTimersByTime(delay - 1));
+      expect(load).not.toHaveBeenCalled();
+      act(() => vi.advanceTimersByTime(1));
+      expect(load).toHaveBeenCalledTimes(1);
+    }
+    expect(onUrlExpired).not.toHaveBeenCalled();
+
+    fail(video, MEDIA_ERR.NETWORK);
+    expect(onUrlExpired).toHaveBeenCalledTimes(1);
+    expect(reports).toEqual([]);
+  });
+
+  it('shows the error once retrying and signing again have not helped', () => {
+    const video = renderPlayer(validUrl);
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      fail(video, MEDIA_ERR.NETWORK);
+      act(() => vi.runAllTimers());
+    }
+    fail(video, MEDIA_ERR.NETWORK);
+
+    expect(screen.getByText(playbackErrorMessages.network)).toBeTruthy();
+    expect(reports).toHaveLength(1);
+    expect(reports[0]).toMatchObject({ kind: 'network', action: 'fail', attempts: { retries: 3 } });
+    expect(reports[0].source).not.toContain('token=');
+  });
+
+  it('retries a decode failure once, then skips the mix', () => {
+    const onUnplayable = vi.fn();
+    const video = renderPlayer(validUrl, { onUnplayable });
+
+    fail(video, MEDIA_ERR.DECODE);
+    act(() => vi.advanceTimersByTime(0));
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(onUnplayable).not.toHaveBeenCalled();
+
+    fail(video, MEDIA_ERR.DECODE);
+    expect(onUnplayable).toHaveBeenCalledTimes(1);
+    expect(reports).toMatchObject([{ kind: 'decode', action: 'skip', attempts: { retries: 1 } }]);
+  });
+
+  it('signs an unsupported source again before skipping it', () => {
+    const onUrlExpired = vi.fn();
+    const onUnplayable = vi.fn();
+    const video = renderPlayer(validUrl, { onUrlExpired, onUnplayable });
+
+    fail(video, MEDIA_ERR.SRC_NOT_SUPPORTED);
+    expect(onUrlExpired).toHaveBeenCalledTimes(1);
+    expect(onUnplayable).not.toHaveBeenCalled();
+
+    fail(video, MEDIA_ERR.SRC_NOT_SUPPORTED);
+    expect(onUnplayable).toHaveBeenCalledTimes(1);
+    expect(reports).toMatchObject([{ kind: 'unsupported', action: 'skip', attempts: { resigned: true } }]);
+  });
+
+  it('loads an unsupported source once more, then skips it', () => {
+    const onUnplayable = vi.fn();
+    const video = renderPlayer(validUrl, { onUnplayable });
+
+    fail(video, MEDIA_ERR.SRC_NOT_SUPPORTED);
+    act(() => vi.runAllTimers());
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(onUnplayable).not.toHaveBeenCalled();
+
+    fail(video, MEDIA_ERR.SRC_NOT_SUPPORTED);
+    expect(onUnplayable).toHaveBeenCalledTimes(1);
+  });
+
+  it('shows an unsupported format when nothing follows the mix', () => {
+    const video = renderPlayer(validUrl);
+
+    fail(video, MEDIA_ERR.SRC_NOT_SUPPORTED);
+    act(() => vi.runAllTimers());
+    expect(screen.queryByText(playbackErrorMessages.unsupported)).toBeNull();
+
+    fail(video, MEDIA_ERR.SRC_NOT_SUPPORTED);
+    expect(screen.getByText(playbackErrorMessages.unsupported)).toBeTruthy();
+    expect(reports).toMatchObject([{ kind: 'unsupported', action: 'fail' }]);
+  });
+
+  it('signs an expired URL again however the element reports it', () => {
+    for (const code of [MEDIA_ERR.NETWORK, MEDIA_ERR.SRC_NOT_SUPPORTED]) {
+      const onUrlExpired = vi.fn();
+      const video = renderPlayer(expiredUrl, { onUrlExpired });
+
+      fail(video, code);
+
+      expect(onUrlExpired).toHaveBeenCalledTimes(1);
+      expect(load).not.toHaveBeenCalled();
+      cleanup();
+    }
+  });
+});
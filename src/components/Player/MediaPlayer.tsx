@@ -1,6 +1,48 @@
-import React, { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import Hls from 'hls.js';
 import styles from './MediaPlayer.module.css';
-import { AlertCircle } from 'lucide-react';
+import { AlertCircle, ChevronsLeft, ChevronsRight, ChevronUp, Maximize, Minimize, Pause, Play, RotateCcw, SkipBack, SkipForward, Volume1, Volume2, VolumeX, X } from 'lucide-react';
+import { Waveform, useWaveform } from '../Waveform/Waveform';
+import { Tracklist } from '../Tracklist/Tracklist';
+import { PracticeControls } from './PracticeControls';
+import { adjacentTrackStart, trackIndexAt, trackName } from '../../lib/media/tracklist';
+import { createHlsPlayer, hlsErrorKind, pickStreamMode, QualityLevel, qualityLabel, qualityLevels } from '../../lib/media/hls';
+import { hasSignatureExpired } from '../../lib/signedUrls';
+import {
+  chooseRecovery,
+  classifyMediaError,
+  hasRecovered,
+  NO_ATTEMPTS,
+  PlaybackErrorKind,
+  playbackErrorMessages,
+  recordAttempt,
+  RecoveryAttempts,
+  reportPlaybackError,
+  reportSource,
+} from '../../lib/player/playbackErrors';
+import { loadPlayerPreferences, savePlayerPreferences } from '../../lib/player/preferences';
+import { formatTime } from '../../lib/player/time';
+import {
+  isLoopSet,
+  LoopPoint,
+  LoopPoints,
+  NO_LOOP,
+  nudgeLoopPoint,
+  setLoopEnd,
+  setLoopStart,
+  stepPlaybackRate,
+} from '../../lib/player/practice';
+import { useShortcut } from '../../contexts/ShortcutsContext';
+import { AudioEngine, createAudioEngine, Deck, otherDeck } from '../../lib/player/audioEngine';
+import {
+  artworkFromSrcSet,
+  SessionActions,
+  setSessionActions,
+  setSessionMetadata,
+  setSessionPlaybackState,
+  setSessionPosition,
+} from '../../lib/player/mediaSession';
+import { LoopRegion, MixTrack } from '../../types';
 
 interface MediaPlayerProps {
   media: {
@@ -9,59 +51,928 @@ interface MediaPlayerProps {
     coverArt?: string;
     title?: string;
     artist?: string;
+    waveformPath?: string;
+    // Sized variants of coverArt, as an img srcset
+    coverSrcSet?: string;
+    // HLS master playlist of a video; url stays the fallback
+    hlsUrl?: string | null;
   };
+  loop?: boolean;
+  // Changes whenever playback should start from the current source
+  playRequest?: number;
+  onEnded?: () => void;
+  onNext?: () => void;
+  onPrevious?: () => void;
+  // Docked single row layout; the media element is kept when this changes
+  compact?: boolean;
+  onExpand?: () => void;
+  // Audio mix that follows the current one, loaded ahead on the idle deck
+  nextUrl?: string | null;
+  // Seconds the end of an audio mix overlaps the next one
+  crossfade?: number;
+  gapless?: boolean;
+  // Saved position to offer resuming from
+  resumeFrom?: number | null;
+  // Called as playback moves; `flush` marks moments worth saving at once,
+  // such as pausing or leaving the mix
+  onPositionChange?: (position: number, duration: number, flush: boolean) => void;
+  // Tracklist of the mix; timed tracks become chapters on the progress bar
+  tracks?: MixTrack[];
+  // Asks for a freshly signed url when the current one stops loading; the
+  // player carries on from the same point once it arrives
+  onUrlExpired?: () => void;
+  // Moves past a mix that cannot be played at all; left out when nothing
+  // follows it
+  onUnplayable?: () => void;
+  // Loop regions the listener saved for this mix; saving is offered only
+  // with onSaveLoopRegion
+  loopRegions?: LoopRegion[];
+  onSaveLoopRegion?: (name: string, loop: { start: number; end: number }) => Promise<void>;
+  onDeleteLoopRegion?: (region: LoopRegion) => Promise<void>;
 }
 
-const MediaPlayer = ({ media }: MediaPlayerProps) => {
-  const [error, setError] = useState<string | null>(null);
+// Going back this far into a mix restarts it instead of skipping back
+const RESTART_THRESHOLD = 3;
+// Seconds skipped by seek backward/forward when the caller gives no offset
+const SEEK_STEP = 10;
+// Seconds moved by the arrow keys
+const ARROW_SEEK_STEP = 5;
+const VOLUME_STEP = 0.1;
+
+// [start, end] in seconds of each range the browser has downloaded
+type BufferedRanges = [number, number][];
+
+const readBuffered = (element: HTMLMediaElement): BufferedRanges =>
+  Array.from({ length: element.buffered.length }, (_, index) => [
+    element.buffered.start(index),
+    element.buffered.end(index),
+  ]);
+
+const startPlayback = (element: HTMLMediaElement) => {
+  element.play().catch((playError) => {
+    console.warn('Playback was blocked:', playError);
+  });
+};
+
+interface PlaybackPoint {
+  time: number;
+  playing: boolean;
+}
+
+// Signed URLs of one object differ only in their token
+const sameObject = (a: string, b: string) =>
+  new URL(a, window.location.href).pathname === new URL(b, window.location.href).pathname;
+
+// Seek to where playback was once `element` has loaded its new source, and
+// play on if it was playing; returns a function that cancels this
+const restoreOnLoad = (element: HTMLMediaElement, { time, playing }: PlaybackPoint) => {
+  const restore = () => {
+    element.currentTime = time;
+    if (playing) startPlayback(element);
+  };
+  element.addEventListener('loadedmetadata', restore, { once: true });
+  return () => element.removeEventListener('loadedmetadata', restore);
+};
+
+// iOS Safari can only show a video element itself in fullscreen
+type WebKitVideoElement = HTMLVideoElement & { webkitEnterFullscreen?: () => void };
+
+// Audio plays on two alternating decks routed through Web Audio, so one mix
+// can fade into the next; video plays on a single element
+const MediaPlayer = ({
+  media,
+  loop,
+  playRequest,
+  onEnded,
+  onNext,
+  onPrevious,
+  compact,
+  onExpand,
+  nextUrl,
+  crossfade = 0,
+  gapless = false,
+  resumeFrom,
+  onPositionChange,
+  tracks = [],
+  onUrlExpired,
+  onUnplayable,
+  loopRegions,
+  onSaveLoopRegion,
+  onDeleteLoopRegion,
+}: MediaPlayerProps) => {
+  const [error, setError] = useState<PlaybackErrorKind | null>(null);
   const [isFullscreen, setIsFullscreen] = useState(false);
-  const mediaRef = useRef<any>(null); // Temporary fix for type casting issues
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [buffered, setBuffered] = useState<BufferedRanges>([]);
+  const [volume, setVolume] = useState(() => loadPlayerPreferences().volume);
+  const [muted, setMuted] = useState(() => loadPlayerPreferences().muted);
+  const [playbackRate, setPlaybackRate] = useState(() => loadPlayerPreferences().playbackRate);
+  const [preservesPitch, setPreservesPitch] = useState(() => loadPlayerPreferences().preservesPitch);
+  // A–B section played over and over; unrelated to the `loop` prop, which
+  // repeats the whole mix
+  const [abLoop, setAbLoop] = useState<LoopPoints>(NO_LOOP);
+  // Position under the thumb while the user drags the progress bar
+  const [scrubTime, setScrubTime] = useState<number | null>(null);
+  const [activeDeck, setActiveDeck] = useState<Deck>(0);
+  const [isCrossfading, setIsCrossfading] = useState(false);
+  // Offered until taken, dismissed or played past
+  const [resumeOffer, setResumeOffer] = useState<number | null>(null);
+  // Playlist hls.js gave up on, so the original file plays instead
+  const [failedHlsUrl, setFailedHlsUrl] = useState<string | null>(null);
+  const [levels, setLevels] = useState<QualityLevel[]>([]);
+  // Level hls.js is streaming, and the one picked by the user; -1 is automatic
+  const [playingLevel, setPlayingLevel] = useState(-1);
+  const [selectedLevel, setSelectedLevel] = useState(-1);
+  const hlsRef = useRef<Hls | null>(null);
+  // Where to carry on once a new source has loaded: after the URL was
+  // signed again, or HLS gave way to the original file
+  const pendingRestoreRef = useRef<PlaybackPoint & { url: string } | null>(null);
+  // What has been tried to keep the current mix playing
+  const recoveryRef = useRef<{ url: string; attempts: RecoveryAttempts }>({ url: media.url, attempts: NO_ATTEMPTS });
+  const retryTimerRef = useRef<number>();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const deckRefs = [useRef<HTMLAudioElement>(null), useRef<HTMLAudioElement>(null)];
+  // Deck sources are set directly rather than rendered, so a new source is
+  // in place before the play request for it runs
+  const deckSourcesRef = useRef<(string | null)[]>([null, null]);
+  // Mirrors activeDeck for listeners bound in earlier renders
+  const activeDeckRef = useRef<Deck>(0);
+  // Undefined until audio first plays, null without Web Audio support
+  const engineRef = useRef<AudioEngine | null>();
+  const outputVolumeRef = useRef(muted ? 0 : volume);
+  const fadeTimerRef = useRef<number>();
+  const waveform = useWaveform(media.waveformPath);
+  const isAudio = media.type === 'audio';
+  const streamMode = isAudio || media.hlsUrl === failedHlsUrl ? 'file' : pickStreamMode(media.hlsUrl);
+  // Read by the listeners, which are only bound once per source
+  const onEndedRef = useRef(onEnded);
+  onEndedRef.current = onEnded;
+  const onPositionChangeRef = useRef(onPositionChange);
+  onPositionChangeRef.current = onPositionChange;
+  const onUrlExpiredRef = useRef(onUrlExpired);
+  onUrlExpiredRef.current = onUrlExpired;
+  const onUnplayableRef = useRef(onUnplayable);
+  onUnplayableRef.current = onUnplayable;
+  const abLoopRef = useRef(abLoop);
+  abLoopRef.current = abLoop;
+  const transitionRef = useRef({ nextUrl, crossfade, gapless, loop });
+  transitionRef.current = { nextUrl, crossfade, gapless, loop };
+
+  // The element being heard and controlled
+  const currentMedia = (): HTMLMediaElement | null =>
+    isAudio ? deckRefs[activeDeckRef.current].current : videoRef.current;
+
+  const currentSource = () => (isAudio ? deckSourcesRef.current[activeDeckRef.current] : media.url);
+
+  // Route the decks through Web Audio the first time audio plays, since a
+  // context created without a user gesture stays suspended
+  const ensureEngine = () => {
+    const [first, second] = deckRefs.map(ref => ref.current);
+    if (!first || !second) return null;
+
+    if (engineRef.current === undefined) {
+      engineRef.current = createAudioEngine();
+      engineRef.current?.setDeckGain(activeDeckRef.current, 1);
+      engineRef.current?.setDeckGain(otherDeck(activeDeckRef.current), 0);
+    }
+    const engine = engineRef.current;
+    if (engine) {
+      engine.attach(0, first);
+      engine.attach(1, second);
+      engine.setVolume(outputVolumeRef.current);
+      engine.resume();
+    }
+    return engine;
+  };
+
+  const play = (element: HTMLMediaElement) => {
+    if (isAudio) ensureEngine();
+    startPlayback(element);
+  };
+
+  const loadDeck = (deck: Deck, url: string) => {
+    const element = deckRefs[deck].current;
+    if (!element) return;
+    element.src = url;
+    deckSourcesRef.current[deck] = url;
+  };
+
+  // Stop the deck that was fading out and leave the active one at full gain
+  const finishCrossfade = () => {
+    window.clearTimeout(fadeTimerRef.current);
+    fadeTimerRef.current = undefined;
+    const active = activeDeckRef.current;
+    deckRefs[otherDeck(active)].current?.pause();
+    engineRef.current?.setDeckGain(otherDeck(active), 0);
+    engineRef.current?.setDeckGain(active, 1);
+    setIsCrossfading(false);
+  };
+
+  // Hand playback to the other deck from its start, fading over
+  // `fadeSeconds` when Web Audio is available and cutting over otherwise
+  const switchDeck = (to: Deck, fadeSeconds: number) => {
+    const from = otherDeck(to);
+    const element = deckRefs[to].current;
+    if (!element) return;
+
+    finishCrossfade();
+    activeDeckRef.current = to;
+    setActiveDeck(to);
+    element.currentTime = 0;
+    play(element);
+
+    const engine = engineRef.current;
+    if (engine && fadeSeconds > 0) {
+      engine.crossfade(from, to, fadeSeconds);
+      setIsCrossfading(true);
+      fadeTimerRef.current = window.setTimeout(finishCrossfade, fadeSeconds * 1000);
+    } else {
+      finishCrossfade();
+    }
+  };
+
+  // Whether the idle deck holds the next mix
+  const nextIsLoaded = () => {
+    const { nextUrl: upcoming } = transitionRef.current;
+    return !!upcoming && deckSourcesRef.current[otherDeck(activeDeckRef.current)] === upcoming;
+  };
 
-  // Handle media errors
+  // Jump back to A once playback reaches B; says whether it jumped
+  const wrapLoop = (mediaElement: HTMLMediaElement) => {
+    const section = abLoopRef.current;
+    if (!isLoopSet(section) || mediaElement.currentTime < section.end) return false;
+    mediaElement.currentTime = section.start;
+    return true;
+  };
+
+  // Ask for a freshly signed URL and carry on from the same point
+  const refreshSource = (mediaElement: HTMLMediaElement) => {
+    pendingRestoreRef.current = { url: media.url, time: mediaElement.currentTime, playing: !mediaElement.paused };
+    onUrlExpiredRef.current?.();
+  };
+
+  // Deal with a failure of the current source as the recovery policy says:
+  // load it again after a while, sign it again, skip it or give up
+  const recover = (mediaElement: HTMLMediaElement, kind: PlaybackErrorKind, code?: number) => {
+    const recovery = recoveryRef.current;
+    const action = chooseRecovery(kind, recovery.attempts, {
+      canResign: !!onUrlExpiredRef.current,
+      canSkip: !!onUnplayableRef.current,
+    });
+    const position = mediaElement.currentTime;
+    if (action.type === 'skip' || action.type === 'fail') {
+      reportPlaybackError({ kind, code, source: reportSource(media.url), position, action: action.type, attempts: recovery.attempts });
+    }
+    recovery.attempts = recordAttempt(recovery.attempts, action, position);
+
+    switch (action.type) {
+      case 'retry': {
+        const point = { time: position, playing: !mediaElement.paused };
+        window.clearTimeout(retryTimerRef.current);
+        retryTimerRef.current = window.setTimeout(() => {
+          restoreOnLoad(mediaElement, point);
+          mediaElement.load();
+        }, action.delay);
+        break;
+      }
+      case 'resign':
+        refreshSource(mediaElement);
+        break;
+      case 'skip':
+        onUnplayableRef.current?.();
+        break;
+      case 'fail':
+        setError(kind);
+    }
+  };
+
+  // Play the original file from where the HLS stream stopped
+  const fallBackToFile = (video: HTMLVideoElement, hlsUrl: string, kind: PlaybackErrorKind, code?: number | string) => {
+    reportPlaybackError({
+      kind,
+      code,
+      source: reportSource(hlsUrl),
+      position: video.currentTime,
+      action: 'fallback',
+      attempts: recoveryRef.current.attempts,
+    });
+    pendingRestoreRef.current = { url: media.url, time: video.currentTime, playing: !video.paused };
+    setFailedHlsUrl(hlsUrl);
+  };
+
+  // Load the source again from where it failed, with a fresh URL when the
+  // player can ask for one; the policy starts over
+  const retry = () => {
+    const mediaElement = currentMedia();
+    setError(null);
+    recoveryRef.current.attempts = NO_ATTEMPTS;
+    if (!mediaElement) return;
+
+    if (onUrlExpiredRef.current) {
+      recoveryRef.current.attempts = recordAttempt(NO_ATTEMPTS, { type: 'resign' }, mediaElement.currentTime);
+      refreshSource(mediaElement);
+    } else {
+      restoreOnLoad(mediaElement, { time: mediaElement.currentTime, playing: true });
+      mediaElement.load();
+    }
+  };
+
+  // Put the current mix on the active deck, or cut to the idle deck when it
+  // already holds it, as after a crossfade or when skipping to a loaded mix
+  useEffect(() => {
+    if (!isAudio) {
+      window.clearTimeout(fadeTimerRef.current);
+      fadeTimerRef.current = undefined;
+      deckSourcesRef.current = [null, null];
+      return;
+    }
+
+    const active = activeDeckRef.current;
+    if (deckSourcesRef.current[active] === media.url) return;
+    if (deckSourcesRef.current[otherDeck(active)] === media.url) {
+      switchDeck(otherDeck(active), 0);
+      return;
+    }
+    finishCrossfade();
+    loadDeck(active, media.url);
+  }, [media.url, isAudio]);
+
+  // Load the next mix on the idle deck ahead of a crossfade or gapless start
+  useEffect(() => {
+    if (!isAudio || !nextUrl || (!crossfade && !gapless) || isCrossfading) return;
+
+    const idle = otherDeck(activeDeck);
+    if (deckSourcesRef.current[idle] !== nextUrl) {
+      deckRefs[idle].current?.pause();
+      loadDeck(idle, nextUrl);
+    }
+  }, [isAudio, nextUrl, crossfade, gapless, isCrossfading, activeDeck, media.url]);
+
+  // An error belongs to the source that failed. A different mix starts
+  // with nothing tried yet and no loop; a newly signed URL of the same one
+  // keeps both.
   useEffect(() => {
-    const mediaElement = mediaRef.current;
+    setError(null);
+    if (!sameObject(recoveryRef.current.url, media.url)) {
+      recoveryRef.current = { url: media.url, attempts: NO_ATTEMPTS };
+      setAbLoop(NO_LOOP);
+    }
+    return () => window.clearTimeout(retryTimerRef.current);
+  }, [media.url]);
+
+  // Mirror the element's state; the element stays the source of truth
+  useEffect(() => {
+    const mediaElement = currentMedia();
     if (!mediaElement) return;
 
-    mediaElement.addEventListener('error', () => {
-      setError('Failed to load media. Please try again.');
+    // Positions belong to the mix these props describe; right after a
+    // crossfade the new deck plays ahead of them
+    const onPosition = currentSource() === media.url ? onPositionChangeRef.current : undefined;
+    let hasFinished = false;
+    const reportPosition = (flush: boolean) => {
+      if (!hasFinished) onPosition?.(mediaElement.currentTime, mediaElement.duration, flush);
+    };
+    // A mix handed over to the next one counts as heard to the end
+    const reportFinished = () => {
+      if (!hasFinished) onPosition?.(mediaElement.duration, mediaElement.duration, true);
+      hasFinished = true;
+    };
+
+    const handlePlay = () => setIsPlaying(true);
+    const handlePause = () => {
+      setIsPlaying(false);
+      reportPosition(true);
+    };
+    const handleDurationChange = () => setDuration(Number.isFinite(mediaElement.duration) ? mediaElement.duration : 0);
+    const handleProgress = () => setBuffered(readBuffered(mediaElement));
+    // Under hls.js the element plays a stream fed to it, and failures
+    // reach the hls.js error handler instead
+    const handleError = () => {
+      const code = mediaElement.error?.code;
+      const hlsUrl = isAudio ? null : media.hlsUrl;
+      if (hlsUrl && mediaElement.src === hlsUrl) {
+        const kind = classifyMediaError(code, false);
+        if (kind) fallBackToFile(mediaElement as HTMLVideoElement, hlsUrl, kind, code);
+        return;
+      }
+      if (mediaElement.src !== currentSource()) return;
+
+      const kind = classifyMediaError(code, hasSignatureExpired(mediaElement.src));
+      if (kind) recover(mediaElement, kind, code);
+    };
+    // Start fading into the next mix once the current one is within the
+    // crossfade length of its end
+    const handleTimeUpdate = () => {
+      if (wrapLoop(mediaElement)) return;
+      setCurrentTime(mediaElement.currentTime);
+      reportPosition(false);
+      if (hasRecovered(recoveryRef.current.attempts, mediaElement.currentTime)) {
+        recoveryRef.current.attempts = NO_ATTEMPTS;
+      }
+
+      const { crossfade: fadeLength, loop: looping } = transitionRef.current;
+      // In real seconds, however fast the mix plays
+      const remaining = (mediaElement.duration - mediaElement.currentTime) / mediaElement.playbackRate;
+      if (
+        isAudio && !looping && !isLoopSet(abLoopRef.current) && fadeLength > 0 && engineRef.current &&
+        Number.isFinite(remaining) && remaining <= fadeLength && nextIsLoaded()
+      ) {
+        reportFinished();
+        switchDeck(otherDeck(activeDeckRef.current), remaining);
+        onEndedRef.current?.();
+      }
+    };
+    const handleEnded = () => {
+      // A loop reaching to the very end has no later B to catch it
+      const section = abLoopRef.current;
+      if (isLoopSet(section)) {
+        mediaElement.currentTime = section.start;
+        play(mediaElement);
+        return;
+      }
+      reportFinished();
+      const { crossfade: fadeLength, gapless: isGapless } = transitionRef.current;
+      if (isAudio && (isGapless || fadeLength > 0) && nextIsLoaded()) {
+        switchDeck(otherDeck(activeDeckRef.current), 0);
+      } else {
+        setIsPlaying(false);
+      }
+      onEndedRef.current?.();
+    };
+
+    setIsPlaying(!mediaElement.paused);
+    setCurrentTime(mediaElement.currentTime);
+    handleDurationChange();
+    handleProgress();
+
+    const listeners: [string, () => void][] = [
+      ['play', handlePlay],
+      ['pause', handlePause],
+      ['ended', handleEnded],
+      ['timeupdate', handleTimeUpdate],
+      ['loadedmetadata', handleDurationChange],
+      ['durationchange', handleDurationChange],
+      ['progress', handleProgress],
+      ['error', handleError],
+    ];
+    listeners.forEach(([event, listener]) => mediaElement.addEventListener(event, listener));
+
+    return () => {
+      listeners.forEach(([event, listener]) => mediaElement.removeEventListener(event, listener));
+      reportPosition(true);
+    };
+  }, [media.url, activeDeck]);
+
+  useEffect(() => {
+    setResumeOffer(resumeFrom ?? null);
+  }, [media.url, resumeFrom]);
+
+  // Stream through hls.js at the preferred quality, and switch to the
+  // original file on errors it cannot recover from
+  useEffect(() => {
+    const video = videoRef.current;
+    const hlsUrl = media.hlsUrl;
+    if (streamMode !== 'hlsjs' || !video || !hlsUrl) return;
+
+    const hls = createHlsPlayer();
+    hlsRef.current = hls;
+    let recoveredMediaError = false;
+
+    hls.on(Hls.Events.MANIFEST_PARSED, () => {
+      const available = qualityLevels(hls.levels);
+      const preferred = available.find(level => level.height === loadPlayerPreferences().videoQuality);
+      if (preferred) hls.currentLevel = preferred.index;
+      setLevels(available);
+      setSelectedLevel(preferred?.index ?? -1);
+    });
+    hls.on(Hls.Events.LEVEL_SWITCHED, (_, data) => setPlayingLevel(data.level));
+    hls.on(Hls.Events.ERROR, (_, data) => {
+      if (!data.fatal) return;
+      if (data.type === Hls.ErrorTypes.MEDIA_ERROR && !recoveredMediaError) {
+        recoveredMediaError = true;
+        hls.recoverMediaError();
+        return;
+      }
+      fallBackToFile(video, hlsUrl, hlsErrorKind(data.type), data.details);
     });
 
+    hls.loadSource(hlsUrl);
+    hls.attachMedia(video);
+
     return () => {
-      mediaElement?.removeEventListener('error', () => {});
+      hls.destroy();
+      hlsRef.current = null;
+      setLevels([]);
+      setPlayingLevel(-1);
     };
+  }, [streamMode, media.hlsUrl]);
+
+  // Every element gets the speed, so a deck faded in plays at it too. A
+  // newly loaded source starts at defaultPlaybackRate.
+  useEffect(() => {
+    [videoRef, ...deckRefs].forEach(({ current: element }) => {
+      if (!element) return;
+      element.defaultPlaybackRate = playbackRate;
+      element.playbackRate = playbackRate;
+      element.preservesPitch = preservesPitch;
+    });
+  }, [playbackRate, preservesPitch, isAudio]);
+
+  // timeupdate fires only a few times a second, too seldom for a tight
+  // loop, so B is watched every frame while the loop plays
+  useEffect(() => {
+    if (!isLoopSet(abLoop) || !isPlaying) return;
+
+    let frame = 0;
+    const watch = () => {
+      const mediaElement = currentMedia();
+      if (mediaElement) wrapLoop(mediaElement);
+      frame = requestAnimationFrame(watch);
+    };
+    frame = requestAnimationFrame(watch);
+    return () => cancelAnimationFrame(frame);
+  }, [abLoop, isPlaying]);
+
+  // Carry on from where the previous source of this mix stopped, once the
+  // new one has loaded; a different mix starts from its own beginning
+  useEffect(() => {
+    const mediaElement = currentMedia();
+    const pending = pendingRestoreRef.current;
+    if (!mediaElement || !pending) return;
+
+    pendingRestoreRef.current = null;
+    if (!sameObject(pending.url, media.url)) return;
+    return restoreOnLoad(mediaElement, pending);
+  }, [media.url, streamMode]);
+
+  // Apply the volume where it is heard: the Web Audio master gain once the
+  // decks are routed through it, otherwise the elements themselves
+  useEffect(() => {
+    const engine = engineRef.current;
+    outputVolumeRef.current = muted ? 0 : volume;
+    engine?.setVolume(outputVolumeRef.current);
+    [videoRef, ...deckRefs].forEach(({ current: element }) => {
+      if (!element || engine?.isAttached(element)) return;
+      element.volume = volume;
+      element.muted = muted;
+    });
+    savePlayerPreferences({ volume, muted });
+  }, [volume, muted, isAudio]);
+
+  useEffect(() => {
+    const mediaElement = currentMedia();
+    if (!mediaElement || !playRequest) return;
+
+    if (mediaElement.ended) mediaElement.currentTime = 0;
+    play(mediaElement);
+  }, [playRequest]);
+
+  // Follow fullscreen changes made outside the player, such as Esc
+  useEffect(() => {
+    const handleFullscreenChange = () => {
+      setIsFullscreen(!!containerRef.current && document.fullscreenElement === containerRef.current);
+    };
+
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
   }, []);
 
   // Cleanup on unmount
   useEffect(() => {
+    const elements = [videoRef, ...deckRefs];
     return () => {
-      const media = mediaRef.current;
-      if (media) {
-        media.pause();
-        media.src = '';
+      window.clearTimeout(fadeTimerRef.current);
+      elements.forEach(({ current: element }) => {
+        if (element) {
+          element.pause();
+          element.src = '';
+        }
+      });
+      engineRef.current?.close();
+    };
+  }, []);
+
+  const togglePlay = () => {
+    const mediaElement = currentMedia();
+    if (!mediaElement) return;
+
+    if (mediaElement.paused || mediaElement.ended) {
+      play(mediaElement);
+    } else {
+      mediaElement.pause();
+    }
+  };
+
+  const skipBack = () => {
+    const mediaElement = currentMedia();
+    if (mediaElement && (!onPrevious || mediaElement.currentTime > RESTART_THRESHOLD)) {
+      mediaElement.currentTime = 0;
+    } else {
+      onPrevious?.();
+    }
+  };
+
+  const seek = (time: number) => {
+    const mediaElement = currentMedia();
+    if (!mediaElement || !duration) return;
+    mediaElement.currentTime = Math.min(duration, Math.max(0, time));
+    setCurrentTime(mediaElement.currentTime);
+  };
+
+  const hasChapters = tracks.some(track => track.start_time !== null);
+
+  // Move to the start of the next or previous track in the mix's tracklist
+  const jumpTrack = (direction: 1 | -1) => {
+    const mediaElement = currentMedia();
+    if (!mediaElement) return;
+    const start = adjacentTrackStart(tracks, mediaElement.currentTime, direction, RESTART_THRESHOLD);
+    if (start !== null) seek(start);
+  };
+
+  const commitScrub = () => {
+    if (scrubTime !== null) seek(scrubTime);
+    setScrubTime(null);
+  };
+
+  const changeQuality = (index: number) => {
+    const hls = hlsRef.current;
+    if (!hls) return;
+    // From the next segment on, keeping what is already buffered
+    hls.nextLevel = index;
+    setSelectedLevel(index);
+    savePlayerPreferences({ videoQuality: index === -1 ? null : hls.levels[index]?.height ?? null });
+  };
+
+  const changePlaybackRate = (rate: number) => {
+    setPlaybackRate(rate);
+    savePlayerPreferences({ playbackRate: rate });
+  };
+
+  const changePreservesPitch = (enabled: boolean) => {
+    setPreservesPitch(enabled);
+    savePlayerPreferences({ preservesPitch: enabled });
+  };
+
+  // Put A or B at the current position
+  const markLoopPoint = (point: LoopPoint) => {
+    const time = currentMedia()?.currentTime ?? 0;
+    setAbLoop(prev => (point === 'start' ? setLoopStart(prev, time) : setLoopEnd(prev, time)));
+  };
+
+  const nudgeLoop = (point: LoopPoint, delta: number) => {
+    setAbLoop(prev => nudgeLoopPoint(prev, point, delta, duration));
+  };
+
+  const changeVolume = (value: number) => {
+    setVolume(value);
+    setMuted(value === 0);
+  };
+
+  const toggleMute = () => {
+    // Unmuting at zero volume would stay silent
+    if (muted && volume === 0) {
+      setVolume(0.5);
+    }
+    setMuted(!muted);
+  };
+
+  const toggleFullscreen = async () => {
+    // The docked layout has no room for controls, so only the video goes
+    // fullscreen from there
+    const container = compact ? videoRef.current : containerRef.current;
+    const video = videoRef.current as WebKitVideoElement | null;
+    if (!container) return;
+
+    try {
+      if (document.fullscreenElement) {
+        await document.exitFullscreen();
+      } else if (container.requestFullscreen) {
+        await container.requestFullscreen();
+      } else {
+        video?.webkitEnterFullscreen?.();
+      }
+    } catch (fullscreenError) {
+      console.warn('Fullscreen is not available:', fullscreenError);
+    }
+  };
+
+  const resume = () => {
+    const mediaElement = currentMedia();
+    if (!mediaElement || resumeOffer === null) return;
+    // Set directly, since the duration may not be known yet
+    mediaElement.currentTime = resumeOffer;
+    setCurrentTime(resumeOffer);
+    setResumeOffer(null);
+    play(mediaElement);
+  };
+
+  const seekBy = (seconds: number) => seek((currentMedia()?.currentTime ?? 0) + seconds);
+
+  useShortcut('togglePlay', togglePlay);
+  useShortcut('seekBackward', () => seekBy(-SEEK_STEP));
+  useShortcut('seekForward', () => seekBy(SEEK_STEP));
+  useShortcut('stepBackward', () => seekBy(-ARROW_SEEK_STEP));
+  useShortcut('stepForward', () => seekBy(ARROW_SEEK_STEP));
+  useShortcut('volumeUp', () => changeVolume(Math.min(1, (muted ? 0 : volume) + VOLUME_STEP)));
+  useShortcut('volumeDown', () => changeVolume(Math.max(0, (muted ? 0 : volume) - VOLUME_STEP)));
+  useShortcut('toggleMute', toggleMute);
+  useShortcut('toggleFullscreen', toggleFullscreen, media.type === 'video');
+  useShortcut('next', () => onNext?.(), !!onNext);
+  useShortcut('previous', skipBack, !!onPrevious);
+  useShortcut('nextTrack', () => jumpTrack(1), hasChapters);
+  useShortcut('previousTrack', () => jumpTrack(-1), hasChapters);
+  useShortcut('slower', () => changePlaybackRate(stepPlaybackRate(playbackRate, -1)));
+  useShortcut('faster', () => changePlaybackRate(stepPlaybackRate(playbackRate, 1)));
+  useShortcut('setLoopStart', () => markLoopPoint('start'));
+  useShortcut('setLoopEnd', () => markLoopPoint('end'));
+  useShortcut('clearLoop', () => setAbLoop(NO_LOOP), abLoop.start !== null || abLoop.end !== null);
+
+  // Let media keys, headsets and lock screens control the player. Handlers
+  // are registered when the available actions change and call through to
+  // the latest controls.
+  const sessionActionsRef = useRef<SessionActions>({});
+  sessionActionsRef.current = {
+    play: () => {
+      const mediaElement = currentMedia();
+      if (mediaElement) play(mediaElement);
+    },
+    pause: () => currentMedia()?.pause(),
+    seekto: ({ seekTime }) => {
+      if (seekTime !== undefined) seek(seekTime);
+    },
+    seekbackward: ({ seekOffset }) => seekBy(-(seekOffset ?? SEEK_STEP)),
+    seekforward: ({ seekOffset }) => seekBy(seekOffset ?? SEEK_STEP),
+    previoustrack: onPrevious ? skipBack : undefined,
+    nexttrack: onNext,
+  };
+  const hasPrevious = !!onPrevious;
+  const hasNext = !!onNext;
+
+  useEffect(() => {
+    const actions: SessionActions = {};
+    (Object.keys(sessionActionsRef.current) as MediaSessionAction[]).forEach((action) => {
+      if (sessionActionsRef.current[action]) {
+        actions[action] = (details) => sessionActionsRef.current[action]?.(details);
       }
+    });
+    setSessionActions(actions);
+  }, [hasPrevious, hasNext]);
+
+  useEffect(() => {
+    setSessionMetadata({
+      title: media.title,
+      artist: media.artist,
+      artwork: artworkFromSrcSet(media.coverArt, media.coverSrcSet),
+    });
+  }, [media.title, media.artist, media.coverArt, media.coverSrcSet]);
+
+  useEffect(() => {
+    setSessionPlaybackState(isPlaying ? 'playing' : 'paused');
+  }, [isPlaying]);
+
+  useEffect(() => {
+    setSessionPosition(currentTime, duration, playbackRate);
+  }, [currentTime, duration, playbackRate]);
+
+  useEffect(() => {
+    return () => {
+      setSessionActions({});
+      setSessionMetadata(null);
+      setSessionPlaybackState('none');
     };
   }, []);
 
+  const displayedTime = scrubTime ?? currentTime;
+  const progressPercent = duration ? (displayedTime / duration) * 100 : 0;
+  const currentTrackIndex = trackIndexAt(tracks, displayedTime);
+  const currentTrack = tracks[currentTrackIndex];
+  const playingQuality = levels.find(level => level.index === playingLevel);
+  const VolumeIcon = muted || volume === 0 ? VolumeX : volume < 0.5 ? Volume1 : Volume2;
+
   const renderMediaElement = () => {
+    // Without native controls an audio element has nothing to show. The
+    // decks need CORS to be heard through Web Audio.
+    if (isAudio) {
+      return (
+        <>
+          {deckRefs.map((deckRef, deck) => (
+            <audio
+              key={deck}
+              ref={deckRef}
+              preload="auto"
+              crossOrigin="anonymous"
+              loop={loop && deck === activeDeck}
+            />
+          ))}
+        </>
+      );
+    }
+
     return (
       <div className={styles.mediaContainer}>
-        {media.type === 'video' ? (
-          <video
-            ref={mediaRef}
-            src={media.url}
-            poster={media.coverArt}
-            playsInline={true}
-            controls
-            className={styles.mediaElement}
+        <video
+          ref={videoRef}
+          src={streamMode === 'file' ? media.url : streamMode === 'native' ? media.hlsUrl ?? undefined : undefined}
+          poster={media.coverArt}
+          playsInline={true}
+          loop={loop}
+          onClick={togglePlay}
+          onDoubleClick={toggleFullscreen}
+          className={styles.mediaElement}
+        />
+      </div>
+    );
+  };
+
+  const renderTransport = () => {
+    return (
+      <div className={styles.transportControls}>
+        {onPrevious && (
+          <button className={styles.skipButton} onClick={skipBack} aria-label="Previous">
+            <SkipBack />
+          </button>
+        )}
+        {hasChapters && !compact && (
+          <button className={styles.skipButton} onClick={() => jumpTrack(-1)} aria-label="Previous track in mix">
+            <ChevronsLeft />
+          </button>
+        )}
+        <button
+          className={styles.playButton}
+          onClick={togglePlay}
+          aria-label={isPlaying ? 'Pause' : 'Play'}
+        >
+          {isPlaying ? <Pause /> : <Play />}
+        </button>
+        {hasChapters && !compact && (
+          <button className={styles.skipButton} onClick={() => jumpTrack(1)} aria-label="Next track in mix">
+            <ChevronsRight />
+          </button>
+        )}
+        {onNext && (
+          <button className={styles.skipButton} onClick={onNext} aria-label="Next">
+            <SkipForward />
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  const renderProgress = () => {
+    return (
+      <div className={styles.progressContainer}>
+        {buffered.map(([start, end]) => duration > 0 && (
+          <div
+            key={start}
+            className={styles.bufferedRange}
+            style={{ left: `${(start / duration) * 100}%`, width: `${((end - start) / duration) * 100}%` }}
           />
-        ) : (
-          <audio
-            ref={mediaRef}
-            src={media.url}
-            controls
-            className={styles.mediaElement}
+        ))}
+        <div className={styles.progressBar} style={{ width: `${progressPercent}%` }} />
+        {duration > 0 && abLoop.start !== null && (
+          <div
+            className={styles.loopRegion}
+            style={{
+              left: `${(abLoop.start / duration) * 100}%`,
+              width: `${(((abLoop.end ?? abLoop.start) - abLoop.start) / duration) * 100}%`,
+            }}
           />
         )}
+        {duration > 0 && tracks.map((track, index) => track.start_time !== null && track.start_time > 0 && track.start_time < duration && (
+          <div
+            key={index}
+            className={styles.chapterTick}
+            style={{ left: `${(track.start_time / duration) * 100}%` }}
+          />
+        ))}
+        <input
+          type="range"
+          min={0}
+          max={duration || 0}
+          step="any"
+          value={displayedTime}
+          onChange={(e) => setScrubTime(Number(e.target.value))}
+          onPointerUp={commitScrub}
+          onKeyUp={commitScrub}
+          onBlur={commitScrub}
+          disabled={!duration}
+          className={styles.progress}
+          aria-label="Progress"
+          aria-valuetext={`${formatTime(displayedTime)} of ${formatTime(duration)}`}
+        />
+      </div>
+    );
+  };
+
+  const renderTime = () => {
+    return (
+      <div className={styles.timeDisplay}>
+        <span className={styles.currentTime}>{formatTime(displayedTime)}</span>
+        <span> / </span>
+        <span className={styles.duration}>{formatTime(duration)}</span>
       </div>
     );
   };
@@ -69,78 +980,188 @@ const MediaPlayer = ({ media }: MediaPlayerProps) => {
   const renderControls = () => {
     return (
       <div className={styles.controls}>
-        <div className={styles.progressContainer}>
-          <input
-            type="range"
-            min="0"
-            max="100"
-            value="0"
-            className={styles.progress}
-            aria-label="Progress"
-          />
-        </div>
-        <div className={styles.timeDisplay}>
-          <span className={styles.currentTime}>0:00</span>
-          <span className={styles.duration}>0:00</span>
-        </div>
-        <div className={styles.volumeControls}>
-          <button className={styles.muteButton}>
-            <span>🔊</span>
-          </button>
-          <input
-            type="range"
-            min="0"
-            max="100"
-            value="100"
-            className={styles.volume}
-            aria-label="Volume"
-          />
+        {renderTransport()}
+        {renderProgress()}
+        {renderTime()}
+        <div className={styles.secondaryControls}>
+          <div className={`${styles.volumeControls} ${styles.volumeContainer}`}>
+            <button
+              className={styles.volumeButton}
+              onClick={toggleMute}
+              aria-label={muted ? 'Unmute' : 'Mute'}
+            >
+              <VolumeIcon />
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={muted ? 0 : volume}
+              onChange={(e) => changeVolume(Number(e.target.value))}
+              className={styles.volumeSlider}
+              aria-label="Volume"
+            />
+          </div>
+          {levels.length > 1 && (
+            <select
+              className={styles.qualitySelect}
+              value={selectedLevel}
+              onChange={(e) => changeQuality(Number(e.target.value))}
+              aria-label="Quality"
+            >
+              <option value={-1}>
+                Auto{selectedLevel === -1 && playingQuality ? ` (${qualityLabel(playingQuality)})` : ''}
+              </option>
+              {levels.map(level => (
+                <option key={level.index} value={level.index}>{qualityLabel(level)}</option>
+              ))}
+            </select>
+          )}
+          {media.type === 'video' && (
+            <button
+              className={styles.fullscreenButton}
+              onClick={toggleFullscreen}
+              aria-label={isFullscreen ? 'Exit fullscreen' : 'Fullscreen'}
+            >
+              {isFullscreen ? <Minimize /> : <Maximize />}
+            </button>
+          )}
         </div>
+      </div>
+    );
+  };
+
+  const renderResumePrompt = () => {
+    if (resumeOffer === null || currentTime >= resumeOffer) return null;
+
+    return (
+      <div className={styles.resumePrompt}>
+        <button className={styles.resumeButton} onClick={resume}>
+          <RotateCcw />
+          <span>Resume from {formatTime(resumeOffer)}</span>
+        </button>
         <button
-          className={styles.fullscreenButton}
-          onClick={() => setIsFullscreen(!isFullscreen)}
+          className={styles.dismissButton}
+          onClick={() => setResumeOffer(null)}
+          aria-label="Start from the beginning"
+          title="Start from the beginning"
         >
-          <span>Fullscreen</span>
+          <X />
         </button>
       </div>
     );
   };
 
+  const renderFull = () => {
+    return (
+      <>
+        {media.coverArt && media.type === 'audio' && (
+          <div className={styles.coverArtContainer}>
+            <img
+              src={media.coverArt}
+              alt={`${media.title} cover`}
+              className={styles.coverArt}
+            />
+          </div>
+        )}
+
+        {waveform && (
+          <div className={styles.waveform}>
+            <Waveform
+              waveform={waveform}
+              progress={duration ? displayedTime / duration : 0}
+              onSeek={(fraction) => seek(fraction * duration)}
+              color="rgba(255, 255, 255, 0.3)"
+              playedColor="#a855f7"
+            />
+          </div>
+        )}
+
+        <div className={styles.info}>
+          <h3 className={styles.title}>{media.title}</h3>
+          <p className={styles.artist}>{media.artist}</p>
+          {currentTrack && (
+            <p className={styles.currentTrack}>
+              {currentTrackIndex + 1}. {trackName(currentTrack)}
+              {currentTrack.label && <span className={styles.trackLabel}> [{currentTrack.label}]</span>}
+            </p>
+          )}
+        </div>
+
+        {renderResumePrompt()}
+        {renderControls()}
+
+        <PracticeControls
+          playbackRate={playbackRate}
+          onPlaybackRateChange={changePlaybackRate}
+          preservesPitch={preservesPitch}
+          onPreservesPitchChange={changePreservesPitch}
+          loop={abLoop}
+          onLoopChange={setAbLoop}
+          onNudge={nudgeLoop}
+          onSetPoint={markLoopPoint}
+          onSeek={seek}
+          regions={loopRegions}
+          onSaveRegion={onSaveLoopRegion}
+          onDeleteRegion={onDeleteLoopRegion}
+          className={styles.practice}
+        />
+
+        {tracks.length > 0 && (
+          <Tracklist
+            tracks={tracks}
+            currentIndex={currentTrackIndex}
+            onSelect={(track) => track.start_time !== null && seek(track.start_time)}
+            className={styles.tracklist}
+          />
+        )}
+      </>
+    );
+  };
+
+  // Single row docked at the bottom of the page; a video keeps playing in
+  // its small preview
+  const renderMini = () => {
+    return (
+      <>
+        {media.coverArt && media.type === 'audio' && (
+          <img src={media.coverArt} alt={`${media.title} cover`} className={styles.miniCover} />
+        )}
+        <div className={styles.miniInfo}>
+          <p className={styles.title}>{media.title}</p>
+          {/* The track playing says more than the mix's artist */}
+          <p className={styles.artist}>{currentTrack ? trackName(currentTrack) : media.artist}</p>
+        </div>
+        {renderResumePrompt()}
+        {renderTransport()}
+        <div className={styles.miniProgress}>{renderProgress()}</div>
+        {renderTime()}
+        {onExpand && (
+          <button className={styles.skipButton} onClick={onExpand} aria-label="Expand player">
+            <ChevronUp />
+          </button>
+        )}
+      </>
+    );
+  };
+
   return (
-    <div className={styles.mediaPlayer}>
+    <div
+      ref={containerRef}
+      className={`${styles.mediaPlayer} ${compact ? styles.mini : ''} ${isFullscreen ? styles.fullscreen : ''}`}
+    >
+      {/* Stays first so the element survives switching layouts and errors */}
+      {renderMediaElement()}
       {error ? (
         <div className={styles.error}>
-          <AlertCircle className={styles.icon} />
-          <span>{error}</span>
-          <button 
-            className={styles.retryButton}
-            onClick={() => window.location.reload()}
-          >
+          <AlertCircle className={styles.errorIcon} />
+          <span>{playbackErrorMessages[error]}</span>
+          <button className={styles.retryButton} onClick={retry}>
             Retry
           </button>
         </div>
-      ) : (
-        <>
-          {renderMediaElement()}
-          
-          {media.coverArt && media.type === 'audio' && (
-            <div className={styles.coverArtContainer}>
-              <img
-                src={media.coverArt}
-                alt={`${media.title} cover`}
-                className={styles.coverArt}
-              />
-            </div>
-          )}
-          
-          <div className={styles.info}>
-            <h3 className={styles.title}>{media.title}</h3>
-            <p className={styles.artist}>{media.artist}</p>
-          </div>
-          
-          {renderControls()}
-        </>
-      )}
+      ) : compact ? renderMini() : renderFull()}
     </div>
   );
 };
@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react'
+import { ChevronDown, Sparkles } from 'lucide-react'
+import { usePlayer } from '../../contexts/PlayerContext'
+import { useShortcut } from '../../contexts/ShortcutsContext'
+import { useTracklist } from '../Tracklist/Tracklist'
+import MediaPlayer from './MediaPlayer'
+import { useLoopRegions } from './PracticeControls'
+import { QueueControls } from './QueueControls'
+
+// Player docked at the bottom of every page. It is mounted once above the
+// routes and expands over the page without remounting MediaPlayer, so the
+// media element keeps playing through navigation and layout changes.
+export const PlayerDock: React.FC = () => {
+  const {
+    nowPlaying,
+    playRequest,
+    repeat,
+    queue,
+    upNextUrl,
+    crossfade,
+    gapless,
+    next,
+    previous,
+    handleEnded,
+    reportPosition,
+    refreshUrl,
+    hasNext,
+    skipUnplayable,
+  } = usePlayer()
+  const [expanded, setExpanded] = useState(false)
+  const tracks = useTracklist(nowPlaying?.mix.id)
+  const loopRegions = useLoopRegions(nowPlaying?.mix.id)
+
+  // The expanded player covers the library
+  useShortcut('goToLibrary', () => setExpanded(false), expanded)
+
+  useEffect(() => {
+    if (!expanded) return
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setExpanded(false)
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [expanded])
+
+  if (!nowPlaying) return null
+
+  return (
+    <>
+      {/* Keeps the end of the page clear of the docked player */}
+      <div className="h-24" aria-hidden="true" />
+      <div
+        className={expanded
+          ? 'fixed inset-0 z-40 bg-gray-900/95 backdrop-blur-sm overflow-y-auto'
+          : 'fixed inset-x-0 bottom-0 z-40 flex items-center bg-gray-900/95 backdrop-blur-sm border-t border-white/10'}
+        role="region"
+        aria-label="Player"
+      >
+        {expanded && (
+          <div className="max-w-4xl mx-auto flex items-center justify-between px-4 pt-8 pb-6">
+            <div className="flex items-center space-x-3">
+              <div className="gradient-primary p-2 rounded-xl">
+                <Sparkles className="h-5 w-5 text-white" />
+              </div>
+              <h2 className="text-xl font-bold text-white">Now Playing</h2>
+            </div>
+            <div className="flex items-center space-x-2">
+              <QueueControls />
+              <button
+                onClick={() => setExpanded(false)}
+                className="p-2 rounded-lg text-white/60 hover:text-white hover:bg-white/10 transition-colors"
+                aria-label="Collapse player"
+              >
+                <ChevronDown className="h-5 w-5" />
+              </button>
+            </div>
+          </div>
+        )}
+        {/* Same position in both layouts so React keeps the player mounted */}
+        <div className={expanded ? 'max-w-4xl mx-auto px-4 pb-8' : 'flex-1 min-w-0'}>
+          <MediaPlayer
+            media={{
+              title: nowPlaying.mix.title,
+              artist: nowPlaying.mix.artist || 'Unknown Artist',
+              coverArt: nowPlaying.mix.thumbnailUrl || nowPlaying.mix.coverUrl,
+              coverSrcSet: nowPlaying.mix.thumbnailUrl ? undefined : nowPlaying.mix.coverSrcSet,
+              url: nowPlaying.url,
+              hlsUrl: nowPlaying.hlsUrl,
+              waveformPath: nowPlaying.mix.waveform_path,
+              type: nowPlaying.mix.file_type
+            }}
+            playRequest={playRequest}
+            resumeFrom={nowPlaying.resumeFrom}
+            tracks={tracks}
+            onPositionChange={(position, duration, flush) => reportPosition(nowPlaying.mix, position, duration, flush)}
+            onUrlExpired={refreshUrl}
+            onUnplayable={hasNext ? skipUnplayable : undefined}
+            loopRegions={loopRegions.regions}
+            onSaveLoopRegion={loopRegions.canSave ? loopRegions.saveRegion : undefined}
+            onDeleteLoopRegion={loopRegions.deleteRegion}
+            // A single mix on repeat-all loops like repeat-one
+            loop={repeat === 'one' || (repeat === 'all' && queue.length === 1)}
+            onEnded={handleEnded}
+            onNext={next}
+            onPrevious={previous}
+            nextUrl={upNextUrl}
+            crossfade={crossfade}
+            gapless={gapless}
+            compact={!expanded}
+            onExpand={() => setExpanded(true)}
+          />
+        </div>
+        {!expanded && (
+          <div className="hidden sm:flex pr-4">
+            <QueueControls />
+          </div>
+        )}
+      </div>
+    </>
+  )
+}
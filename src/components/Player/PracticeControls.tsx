@@ -0,0 +1,288 @@
+import React, { useEffect, useState } from 'react'
+import toast from 'react-hot-toast'
+import { Bookmark, Minus, Plus, Repeat, Trash2, X } from 'lucide-react'
+import { useAuth } from '../../contexts/AuthContext'
+import {
+  createLoopRegion,
+  defaultRegionName,
+  deleteLoopRegion,
+  fetchLoopRegions,
+  FINE_LOOP_NUDGE_STEP,
+  formatLoopTime,
+  formatRate,
+  isLoopSet,
+  LOOP_NUDGE_STEP,
+  LoopPoint,
+  LoopPoints,
+  loopFromRegion,
+  NO_LOOP,
+  PLAYBACK_RATES,
+} from '../../lib/player/practice'
+import { formatTime } from '../../lib/player/time'
+import { LoopRegion } from '../../types'
+
+// Load the signed in user's loop regions of a mix, and save or delete them
+export const useLoopRegions = (mixId: string | undefined) => {
+  const { user } = useAuth()
+  const [regions, setRegions] = useState<LoopRegion[]>([])
+
+  useEffect(() => {
+    setRegions([])
+    if (!mixId || !user) return
+
+    let cancelled = false
+    fetchLoopRegions(mixId)
+      .then((data) => {
+        if (!cancelled) setRegions(data)
+      })
+      .catch((error) => {
+        console.warn('Failed to load loop regions:', error)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [mixId, user])
+
+  const saveRegion = async (name: string, loop: { start: number; end: number }) => {
+    if (!mixId || !user) return
+    const region = await createLoopRegion(user.id, mixId, name, loop)
+    setRegions(prev => [...prev, region].sort((a, b) => a.start_time - b.start_time))
+  }
+
+  const deleteRegion = async (region: LoopRegion) => {
+    await deleteLoopRegion(region.id)
+    setRegions(prev => prev.filter(saved => saved.id !== region.id))
+  }
+
+  return { regions, saveRegion, deleteRegion, canSave: !!mixId && !!user }
+}
+
+interface PracticeControlsProps {
+  playbackRate: number
+  onPlaybackRateChange: (rate: number) => void
+  preservesPitch: boolean
+  onPreservesPitchChange: (preservesPitch: boolean) => void
+  loop: LoopPoints
+  onLoopChange: (loop: LoopPoints) => void
+  // Nudge a loop point by this many seconds
+  onNudge: (point: LoopPoint, delta: number) => void
+  onSetPoint: (point: LoopPoint) => void
+  onSeek: (time: number) => void
+  // Saved regions of the mix; saving is offered only with onSaveRegion
+  regions?: LoopRegion[]
+  onSaveRegion?: (name: string, loop: { start: number; end: number }) => Promise<void>
+  onDeleteRegion?: (region: LoopRegion) => Promise<void>
+  className?: string
+}
+
+// Speed, pitch and A–B loop controls for studying a mix
+export const PracticeControls: React.FC<PracticeControlsProps> = ({
+  playbackRate,
+  onPlaybackRateChange,
+  preservesPitch,
+  onPreservesPitchChange,
+  loop,
+  onLoopChange,
+  onNudge,
+  onSetPoint,
+  onSeek,
+  regions = [],
+  onSaveRegion,
+  onDeleteRegion,
+  className = '',
+}) => {
+  // Name typed for the loop being saved; null while not saving
+  const [regionName, setRegionName] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (!isLoopSet(loop)) setRegionName(null)
+  }, [loop])
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!onSaveRegion || !isLoopSet(loop) || regionName === null) return
+
+    setIsSaving(true)
+    try {
+      await onSaveRegion(regionName.trim() || defaultRegionName(loop), loop)
+      setRegionName(null)
+      toast.success('Loop saved')
+    } catch (error) {
+      console.error('Error saving loop region:', error)
+      toast.error('Failed to save loop')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (region: LoopRegion) => {
+    try {
+      await onDeleteRegion?.(region)
+    } catch (error) {
+      console.error('Error deleting loop region:', error)
+      toast.error('Failed to delete loop')
+    }
+  }
+
+  const recall = (region: LoopRegion) => {
+    onLoopChange(loopFromRegion(region))
+    onSeek(region.start_time)
+  }
+
+  const buttonClass = 'p-1.5 rounded-lg text-white/60 hover:text-white hover:bg-white/10 disabled:opacity-40 disabled:hover:bg-transparent'
+
+  const renderPoint = (point: LoopPoint, label: string) => {
+    const time = loop[point]
+    const step = (e: React.MouseEvent) => (e.shiftKey ? FINE_LOOP_NUDGE_STEP : LOOP_NUDGE_STEP)
+    return (
+      <div className="flex items-center space-x-1">
+        <button
+          type="button"
+          onClick={() => onSetPoint(point)}
+          className={`px-2 py-1 rounded-lg text-sm font-semibold transition-colors ${
+            time !== null ? 'text-purple-300 bg-purple-500/20' : 'text-white/60 hover:text-white hover:bg-white/10'
+          }`}
+          title={`Set ${label} at the current position`}
+        >
+          {label}
+        </button>
+        <span className="w-16 text-xs tabular-nums text-white/70">
+          {time !== null ? formatLoopTime(time) : '–'}
+        </span>
+        <button
+          type="button"
+          onClick={(e) => onNudge(point, -step(e))}
+          disabled={time === null}
+          className={buttonClass}
+          aria-label={`Move ${label} earlier`}
+          title="Earlier (Shift for finer steps)"
+        >
+          <Minus className="h-3.5 w-3.5" />
+        </button>
+        <button
+          type="button"
+          onClick={(e) => onNudge(point, step(e))}
+          disabled={time === null}
+          className={buttonClass}
+          aria-label={`Move ${label} later`}
+          title="Later (Shift for finer steps)"
+        >
+          <Plus className="h-3.5 w-3.5" />
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className={`space-y-3 text-white ${className}`}>
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center space-x-2 text-sm text-white/70">
+          <span>Speed</span>
+          <select
+            value={playbackRate}
+            onChange={(e) => onPlaybackRateChange(Number(e.target.value))}
+            className="px-2 py-1 rounded-md bg-white/10 text-sm text-white [&>option]:bg-gray-900"
+          >
+            {PLAYBACK_RATES.map(rate => (
+              <option key={rate} value={rate}>{formatRate(rate)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center space-x-2 text-sm text-white/70 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={preservesPitch}
+            onChange={(e) => onPreservesPitchChange(e.target.checked)}
+            className="accent-purple-500"
+          />
+          <span>Keep pitch</span>
+        </label>
+
+        <div className="flex flex-wrap items-center gap-2 sm:ml-auto">
+          <Repeat className={`h-4 w-4 ${isLoopSet(loop) ? 'text-purple-300' : 'text-white/40'}`} aria-hidden="true" />
+          {renderPoint('start', 'A')}
+          {renderPoint('end', 'B')}
+          <button
+            type="button"
+            onClick={() => onLoopChange(NO_LOOP)}
+            disabled={loop.start === null && loop.end === null}
+            className={buttonClass}
+            aria-label="Clear the loop"
+            title="Clear the loop"
+          >
+            <X className="h-4 w-4" />
+          </button>
+          {onSaveRegion && (
+            <button
+              type="button"
+              onClick={() => setRegionName('')}
+              disabled={!isLoopSet(loop) || regionName !== null}
+              className={buttonClass}
+              aria-label="Save this loop"
+              title="Save this loop"
+            >
+              <Bookmark className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {regionName !== null && isLoopSet(loop) && (
+        <form onSubmit={handleSave} className="flex items-center gap-2">
+          <input
+            type="text"
+            value={regionName}
+            onChange={(e) => setRegionName(e.target.value)}
+            placeholder={defaultRegionName(loop)}
+            maxLength={100}
+            autoFocus
+            className="input-glass flex-1 py-1.5 text-sm"
+            aria-label="Loop name"
+          />
+          <button type="submit" disabled={isSaving} className="btn-primary py-1.5 text-sm disabled:opacity-50">
+            Save
+          </button>
+          <button type="button" onClick={() => setRegionName(null)} className="btn-secondary py-1.5 text-sm">
+            Cancel
+          </button>
+        </form>
+      )}
+
+      {regions.length > 0 && (
+        <ul className="flex flex-wrap gap-2">
+          {regions.map(region => {
+            const isActive = loop.start === region.start_time && loop.end === region.end_time
+            return (
+              <li
+                key={region.id}
+                className={`flex items-center rounded-full text-sm ${
+                  isActive ? 'bg-purple-500/30 text-purple-100' : 'bg-white/10 text-white/80'
+                }`}
+              >
+                <button
+                  type="button"
+                  onClick={() => recall(region)}
+                  className="pl-3 pr-2 py-1 hover:text-white"
+                  title={`${formatTime(region.start_time)}–${formatTime(region.end_time)}`}
+                >
+                  {region.name}
+                </button>
+                {onDeleteRegion && (
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(region)}
+                    className="pr-2 py-1 text-white/50 hover:text-red-300"
+                    aria-label={`Delete ${region.name}`}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,52 @@
+import React, { useState } from 'react'
+import { ListMusic, Repeat, Repeat1, Shuffle } from 'lucide-react'
+import { usePlayer } from '../../contexts/PlayerContext'
+import { QueueDrawer } from './QueueDrawer'
+
+const REPEAT_LABELS = {
+  off: 'Repeat off',
+  all: 'Repeat all',
+  one: 'Repeat one',
+}
+
+// Shuffle, repeat and queue buttons shown next to the player
+export const QueueControls: React.FC = () => {
+  const { queue, shuffle, repeat, toggleShuffle, cycleRepeat } = usePlayer()
+  const [isQueueOpen, setIsQueueOpen] = useState(false)
+
+  const buttonClass = (active: boolean) => `p-2 rounded-lg transition-colors ${
+    active ? 'text-purple-300 bg-purple-500/20' : 'text-white/60 hover:text-white hover:bg-white/10'
+  }`
+
+  return (
+    <div className="flex items-center space-x-1">
+      <button
+        onClick={toggleShuffle}
+        className={buttonClass(shuffle)}
+        aria-label={shuffle ? 'Turn shuffle off' : 'Turn shuffle on'}
+        aria-pressed={shuffle}
+        title="Shuffle"
+      >
+        <Shuffle className="h-4 w-4" />
+      </button>
+      <button
+        onClick={cycleRepeat}
+        className={buttonClass(repeat !== 'off')}
+        aria-label={REPEAT_LABELS[repeat]}
+        title={REPEAT_LABELS[repeat]}
+      >
+        {repeat === 'one' ? <Repeat1 className="h-4 w-4" /> : <Repeat className="h-4 w-4" />}
+      </button>
+      <button
+        onClick={() => setIsQueueOpen(true)}
+        className={`${buttonClass(false)} flex items-center space-x-1`}
+        aria-label="Show queue"
+        title="Queue"
+      >
+        <ListMusic className="h-4 w-4" />
+        {queue.length > 0 && <span className="text-xs">{queue.length}</span>}
+      </button>
+      <QueueDrawer isOpen={isQueueOpen} onClose={() => setIsQueueOpen(false)} />
+    </div>
+  )
+}
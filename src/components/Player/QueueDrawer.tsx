@@ -0,0 +1,185 @@
+import React from 'react'
+import { createPortal } from 'react-dom'
+import { motion, AnimatePresence } from 'framer-motion'
+import { ChevronDown, ChevronUp, ListMusic, Music, Play, Video, X } from 'lucide-react'
+import { usePlayer } from '../../contexts/PlayerContext'
+import { formatTime } from '../../lib/player/time'
+import { MAX_CROSSFADE } from '../../lib/player/preferences'
+
+interface QueueDrawerProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+// Side panel listing the play queue, where entries can be played, moved or
+// removed
+export const QueueDrawer: React.FC<QueueDrawerProps> = ({ isOpen, onClose }) => {
+  const {
+    queue,
+    currentIndex,
+    crossfade,
+    gapless,
+    playAt,
+    moveInQueue,
+    removeFromQueue,
+    clearQueue,
+    setCrossfade,
+    setGapless,
+  } = usePlayer()
+
+  return createPortal(
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50">
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+            onClick={onClose}
+          />
+          <motion.aside
+            initial={{ x: '100%' }}
+            animate={{ x: 0 }}
+            exit={{ x: '100%' }}
+            transition={{ type: 'tween', duration: 0.25 }}
+            className="absolute right-0 top-0 h-full w-full max-w-md bg-gray-900/95 border-l border-white/10 flex flex-col"
+            aria-label="Play queue"
+          >
+            <div className="flex items-center justify-between p-6 border-b border-white/10">
+              <div className="flex items-center space-x-3">
+                <div className="gradient-primary p-2 rounded-xl">
+                  <ListMusic className="h-5 w-5 text-white" />
+                </div>
+                <div>
+                  <h2 className="text-lg font-bold text-white">Queue</h2>
+                  <p className="text-sm text-white/60">
+                    {queue.length} {queue.length === 1 ? 'mix' : 'mixes'}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center space-x-2">
+                {queue.length > 1 && (
+                  <button
+                    onClick={clearQueue}
+                    className="text-sm text-white/60 hover:text-white transition-colors"
+                  >
+                    Clear
+                  </button>
+                )}
+                <button onClick={onClose} className="text-white/60 hover:text-white p-1" aria-label="Close queue">
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+            </div>
+
+            {queue.length === 0 ? (
+              <p className="p-6 text-white/60">
+                Nothing queued yet. Use "Play next" or "Add to queue" on a mix.
+              </p>
+            ) : (
+              <ul className="flex-1 overflow-y-auto p-4 space-y-2">
+                {queue.map((entry, index) => {
+                  const isCurrent = index === currentIndex
+                  return (
+                    <li
+                      key={entry.id}
+                      className={`group flex items-center space-x-3 rounded-xl p-3 ${
+                        isCurrent ? 'bg-purple-500/20 border border-purple-400/30' : 'glass glass-hover'
+                      }`}
+                    >
+                      <button
+                        onClick={() => playAt(index)}
+                        className="relative h-10 w-10 flex-shrink-0 rounded-lg overflow-hidden gradient-primary flex items-center justify-center"
+                        aria-label={`Play ${entry.mix.title}`}
+                      >
+                        {entry.mix.coverUrl ? (
+                          <img src={entry.mix.coverUrl} alt="" className="absolute inset-0 h-full w-full object-cover" />
+                        ) : entry.mix.file_type === 'video' ? (
+                          <Video className="h-4 w-4 text-white" />
+                        ) : (
+                          <Music className="h-4 w-4 text-white" />
+                        )}
+                        <span className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 flex items-center justify-center transition-opacity">
+                          <Play className="h-4 w-4 text-white" />
+                        </span>
+                      </button>
+                      <div className="flex-1 min-w-0">
+                        <p className={`text-sm font-medium truncate ${isCurrent ? 'text-purple-200' : 'text-white'}`}>
+                          {entry.mix.title}
+                        </p>
+                        <p className="text-xs text-white/50 truncate">
+                          {[entry.mix.artist, entry.mix.duration ? formatTime(entry.mix.duration) : null]
+                            .filter(Boolean)
+                            .join(' • ')}
+                        </p>
+                      </div>
+                      <div className="flex flex-col">
+                        <button
+                          onClick={() => moveInQueue(index, index - 1)}
+                          disabled={index === 0}
+                          className="text-white/60 hover:text-white disabled:opacity-30 p-0.5"
+                          aria-label="Move up"
+                        >
+                          <ChevronUp className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => moveInQueue(index, index + 1)}
+                          disabled={index === queue.length - 1}
+                          className="text-white/60 hover:text-white disabled:opacity-30 p-0.5"
+                          aria-label="Move down"
+                        >
+                          <ChevronDown className="h-4 w-4" />
+                        </button>
+                      </div>
+                      <button
+                        onClick={() => removeFromQueue(index)}
+                        className="text-white/60 hover:text-red-400 p-1 rounded-lg transition-colors"
+                        aria-label={`Remove ${entry.mix.title} from queue`}
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+
+            {/* How one audio mix leads into the next */}
+            <div className="p-6 border-t border-white/10 space-y-4">
+              <div>
+                <div className="flex items-center justify-between text-sm mb-2">
+                  <label htmlFor="queue-crossfade" className="text-white/80">Crossfade</label>
+                  <span className="text-white/60">{crossfade ? `${crossfade}s` : 'Off'}</span>
+                </div>
+                <input
+                  id="queue-crossfade"
+                  type="range"
+                  min={0}
+                  max={MAX_CROSSFADE}
+                  step={1}
+                  value={crossfade}
+                  onChange={(e) => setCrossfade(Number(e.target.value))}
+                  className="w-full accent-purple-500"
+                />
+              </div>
+              <label className="flex items-center justify-between text-sm">
+                <span className={crossfade ? 'text-white/40' : 'text-white/80'}>
+                  Gapless playback
+                  {crossfade > 0 && <span className="block text-xs">Used when crossfade is off</span>}
+                </span>
+                <input
+                  type="checkbox"
+                  checked={gapless}
+                  onChange={(e) => setGapless(e.target.checked)}
+                  className="h-4 w-4 accent-purple-500"
+                />
+              </label>
+            </div>
+          </motion.aside>
+        </div>
+      )}
+    </AnimatePresence>,
+    document.body
+  )
+}
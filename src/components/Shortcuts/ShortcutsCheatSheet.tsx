@@ -0,0 +1,102 @@
+import React, { useEffect } from 'react'
+import { createPortal } from 'react-dom'
+import { motion, AnimatePresence } from 'framer-motion'
+import { Keyboard, X } from 'lucide-react'
+import { keyLabel, Shortcut, SHORTCUTS } from '../../lib/shortcuts'
+
+interface ShortcutsCheatSheetProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+const GROUPS: Shortcut['group'][] = ['Player', 'Library', 'General']
+
+const Keys: React.FC<{ binding: string[] }> = ({ binding }) => (
+  <span className="flex items-center space-x-1">
+    {binding.map((key, index) => (
+      <React.Fragment key={index}>
+        {index > 0 && <span className="text-xs text-white/40">then</span>}
+        <kbd className="min-w-[1.75rem] px-2 py-1 rounded-md bg-white/10 border border-white/20 text-xs font-semibold text-white text-center">
+          {keyLabel(key)}
+        </kbd>
+      </React.Fragment>
+    ))}
+  </span>
+)
+
+// Overlay listing every keyboard shortcut, opened with ?
+export const ShortcutsCheatSheet: React.FC<ShortcutsCheatSheetProps> = ({ isOpen, onClose }) => {
+  useEffect(() => {
+    if (!isOpen) return
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [isOpen, onClose])
+
+  return createPortal(
+    <AnimatePresence>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 overflow-y-auto">
+          <div className="flex min-h-screen items-center justify-center p-4">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="fixed inset-0 bg-black/60 backdrop-blur-sm"
+              onClick={onClose}
+            />
+
+            <motion.div
+              initial={{ opacity: 0, scale: 0.9, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.9, y: 20 }}
+              className="relative floating-card max-w-2xl w-full mx-4"
+              role="dialog"
+              aria-modal="true"
+              aria-labelledby="shortcuts-title"
+            >
+              <div className="flex items-center justify-between p-6 border-b border-white/10">
+                <div className="flex items-center space-x-3">
+                  <div className="gradient-primary p-2 rounded-xl">
+                    <Keyboard className="h-5 w-5 text-white" />
+                  </div>
+                  <h2 id="shortcuts-title" className="text-lg font-bold text-white">Keyboard shortcuts</h2>
+                </div>
+                <button onClick={onClose} className="text-white/60 hover:text-white p-1" aria-label="Close">
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+
+              <div className="p-6 grid gap-6 sm:grid-cols-2">
+                {GROUPS.map(group => (
+                  <section key={group}>
+                    <h3 className="text-sm font-semibold text-white/60 uppercase tracking-wide mb-3">{group}</h3>
+                    <ul className="space-y-2">
+                      {SHORTCUTS.filter(shortcut => shortcut.group === group).map(shortcut => (
+                        <li key={shortcut.action} className="flex items-center justify-between text-sm">
+                          <span className="text-white/80">{shortcut.description}</span>
+                          <span className="flex items-center space-x-2">
+                            {shortcut.bindings.map((binding, index) => (
+                              <Keys key={index} binding={binding} />
+                            ))}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </section>
+                ))}
+              </div>
+
+              <p className="px-6 pb-6 text-xs text-white/50">
+                Shortcuts are off while you type in a field.
+              </p>
+            </motion.div>
+          </div>
+        </div>
+      )}
+    </AnimatePresence>,
+    document.body
+  )
+}
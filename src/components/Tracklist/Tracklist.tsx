@@ -0,0 +1,87 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { loadTracklist, onTracklistSaved } from '../../lib/media/tracklist'
+import { formatTime } from '../../lib/player/time'
+import { MixTrack } from '../../types'
+
+// Load the tracklist of a mix, following later saves of it
+export const useTracklist = (mixId: string | undefined) => {
+  const [tracks, setTracks] = useState<MixTrack[]>([])
+
+  useEffect(() => {
+    setTracks([])
+    if (!mixId) return
+
+    let cancelled = false
+    const load = () => {
+      loadTracklist(mixId)
+        .then(data => {
+          if (!cancelled) setTracks(data)
+        })
+        .catch((error) => {
+          // Shown as a mix without a tracklist
+          console.warn('Failed to load tracklist:', error)
+        })
+    }
+    load()
+    const unsubscribe = onTracklistSaved((savedId) => {
+      if (savedId === mixId) load()
+    })
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [mixId])
+
+  return tracks
+}
+
+interface TracklistProps {
+  tracks: MixTrack[]
+  // Index of the track playing, highlighted and kept in view
+  currentIndex?: number
+  onSelect?: (track: MixTrack) => void
+  className?: string
+}
+
+// Numbered list of the tracks in a mix; timed rows can be clicked to seek
+export const Tracklist: React.FC<TracklistProps> = ({ tracks, currentIndex = -1, onSelect, className = '' }) => {
+  const currentRef = useRef<HTMLLIElement>(null)
+
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'nearest' })
+  }, [currentIndex])
+
+  return (
+    <ol className={`space-y-1 ${className}`}>
+      {tracks.map((track, index) => {
+        const isCurrent = index === currentIndex
+        const canSeek = onSelect && track.start_time !== null
+        return (
+          <li key={index} ref={isCurrent ? currentRef : undefined}>
+            <button
+              type="button"
+              onClick={() => onSelect?.(track)}
+              disabled={!canSeek}
+              aria-current={isCurrent ? 'true' : undefined}
+              className={`w-full flex items-baseline space-x-3 px-3 py-1.5 rounded-lg text-left text-sm transition-colors ${
+                isCurrent ? 'bg-white/15 text-white' : 'text-white/70'
+              } ${canSeek ? 'hover:bg-white/10' : 'cursor-default'}`}
+            >
+              <span className="w-6 shrink-0 text-right text-xs text-white/40">{index + 1}</span>
+              <span className="w-14 shrink-0 text-xs tabular-nums text-white/50">
+                {track.start_time !== null ? formatTime(track.start_time) : ''}
+              </span>
+              <span className="flex-1 min-w-0 truncate">
+                {track.artist && <span className="font-medium">{track.artist} - </span>}
+                {track.title}
+              </span>
+              {track.label && (
+                <span className="hidden sm:inline shrink-0 text-xs text-white/40 truncate max-w-[8rem]">{track.label}</span>
+              )}
+            </button>
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
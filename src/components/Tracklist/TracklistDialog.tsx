@@ -0,0 +1,173 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { createPortal } from 'react-dom'
+import { motion } from 'framer-motion'
+import toast from 'react-hot-toast'
+import { FileText, ListMusic, Loader2, X } from 'lucide-react'
+import { CUE_MAX_FILE_SIZE, formatTracklist, parseTracklist } from '../../lib/media/tracklist'
+import { MixTrack } from '../../types'
+import { Tracklist } from './Tracklist'
+
+interface TracklistDialogProps {
+  // Title of the mix the tracklist belongs to
+  title: string
+  initialTracks: MixTrack[]
+  onCancel: () => void
+  // May return a promise; the dialog shows it is saving until it settles
+  onSave: (tracks: MixTrack[]) => void | Promise<void>
+}
+
+const PLACEHOLDER = `00:00 Artist - Title
+04:32 Artist - Title (Remix) [Label]
+w/ Artist - Title`
+
+// Edit a mix's tracklist as text, or import one from a .cue file, with a
+// preview of the tracks it parses to
+export const TracklistDialog: React.FC<TracklistDialogProps> = ({ title, initialTracks, onCancel, onSave }) => {
+  const [text, setText] = useState(() => formatTracklist(initialTracks))
+  const [isSaving, setIsSaving] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const tracks = useMemo(() => parseTracklist(text), [text])
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onCancel()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onCancel])
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    if (file.size > CUE_MAX_FILE_SIZE) {
+      toast.error('Cue sheet is too large')
+      return
+    }
+    const content = await file.text()
+    if (parseTracklist(content).length === 0) {
+      toast.error('No tracks found in that file')
+      return
+    }
+    setText(content)
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      await onSave(tracks)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return createPortal(
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        className="fixed inset-0 bg-black/70 backdrop-blur-sm"
+        onClick={onCancel}
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="relative floating-card w-full max-w-4xl max-h-[90vh] flex flex-col"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="tracklist-title"
+      >
+        <div className="flex items-center justify-between p-6 border-b border-white/10">
+          <div className="flex items-center space-x-3 min-w-0">
+            <div className="gradient-primary p-2 rounded-xl">
+              <ListMusic className="h-5 w-5 text-white" />
+            </div>
+            <div className="min-w-0">
+              <h2 id="tracklist-title" className="text-lg font-bold text-white">Tracklist</h2>
+              <p className="text-sm text-white/60 truncate">{title}</p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="text-white/60 hover:text-white p-1" aria-label="Cancel">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="grid gap-6 p-6 md:grid-cols-2 min-h-0 flex-1 overflow-y-auto">
+          <div className="flex flex-col space-y-3">
+            <div className="flex items-center justify-between">
+              <label htmlFor="tracklist-text" className="text-sm font-medium text-white/80">
+                Paste a tracklist
+              </label>
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center space-x-1 text-sm text-purple-300 hover:text-purple-200"
+              >
+                <FileText className="h-4 w-4" />
+                <span>Import .cue</span>
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".cue,application/x-cue"
+                onChange={handleImport}
+                className="hidden"
+              />
+            </div>
+            <textarea
+              id="tracklist-text"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              rows={14}
+              spellCheck={false}
+              className="input-glass w-full flex-1 py-2 resize-none font-mono text-sm"
+              placeholder={PLACEHOLDER}
+            />
+            <p className="text-xs text-white/50">
+              One track per line, as "00:00 Artist - Title". Tracklists copied from 1001Tracklists work too.
+            </p>
+          </div>
+
+          <div className="flex flex-col min-h-0 space-y-3">
+            <p className="text-sm font-medium text-white/80">
+              {tracks.length === 1 ? '1 track' : `${tracks.length} tracks`}
+            </p>
+            {tracks.length > 0 ? (
+              <Tracklist tracks={tracks} className="glass rounded-xl p-2 overflow-y-auto max-h-80" />
+            ) : (
+              <p className="glass rounded-xl p-4 text-sm text-white/50">
+                Tracks appear here as you paste them.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-between p-6 border-t border-white/10">
+          <button
+            onClick={() => setText('')}
+            disabled={!text || isSaving}
+            className="text-sm text-white/60 hover:text-white disabled:opacity-50"
+          >
+            Clear
+          </button>
+          <div className="flex space-x-3">
+            <button onClick={onCancel} className="btn-secondary py-2">
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="btn-primary py-2 flex items-center space-x-2 disabled:opacity-50"
+            >
+              {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+              <span>Save tracklist</span>
+            </button>
+          </div>
+        </div>
+      </motion.div>
+    </div>,
+    document.body
+  )
+}
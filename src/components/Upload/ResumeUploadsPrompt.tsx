@@ -0,0 +1,73 @@
+import { motion } from 'framer-motion';
+import { History, Play, Trash2 } from 'lucide-react';
+import { UploadSession } from '../../lib/upload/sessions';
+
+interface ResumeUploadsPromptProps {
+  sessions: UploadSession[];
+  onResume: (session: UploadSession) => void;
+  onDiscard: (session: UploadSession) => void;
+}
+
+export const ResumeUploadsPrompt = ({
+  sessions,
+  onResume,
+  onDiscard,
+}: ResumeUploadsPromptProps) => {
+  const formatFileSize = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  };
+
+  return (
+    <div className="glass rounded-2xl p-6 space-y-4">
+      <div className="flex items-center space-x-3">
+        <History className="h-5 w-5 text-purple-400" />
+        <div>
+          <h4 className="font-semibold text-white">Resume unfinished uploads</h4>
+          <p className="text-sm text-white/60">Select the same file again to continue where you left off</p>
+        </div>
+      </div>
+
+      <ul className="space-y-3">
+        {sessions.map((session) => {
+          const progress = session.fileSize > 0 ? session.bytesUploaded / session.fileSize * 100 : 0;
+          return (
+            <li key={session.id} className="flex items-center space-x-4 bg-gray-800/50 rounded-xl p-4">
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-white truncate">{session.mix.title || session.fileName}</p>
+                <p className="text-sm text-gray-400">
+                  {session.fileName} • {formatFileSize(session.fileSize)} • {Math.round(progress)}% uploaded
+                </p>
+                <div className="h-1 mt-2 bg-gray-700 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-gradient-to-r from-indigo-500 to-purple-500"
+                    style={{ width: `${progress}%` }}
+                  />
+                </div>
+              </div>
+              <motion.button
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={() => onResume(session)}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors flex items-center space-x-2"
+              >
+                <Play className="h-4 w-4" />
+                <span>Resume</span>
+              </motion.button>
+              <motion.button
+                whileHover={{ scale: 1.1 }}
+                whileTap={{ scale: 0.9 }}
+                onClick={() => onDiscard(session)}
+                className="text-white/60 hover:text-red-400 p-2 rounded-lg transition-colors"
+                aria-label={`Discard upload of ${session.fileName}`}
+              >
+                <Trash2 className="h-5 w-5" />
+              </motion.button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ImagePlus, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { captureVideoFrames, prepareCustomThumbnail } from '../../lib/media/thumbnails';
+
+interface ThumbnailPickerProps {
+  file: File;
+  selected?: Blob;
+  onSelect: (thumbnail: Blob) => void;
+}
+
+// Object URLs for a list of images, revoked when the list changes
+const useObjectUrls = (images: Blob[]) => {
+  const [urls, setUrls] = useState<string[]>([]);
+
+  useEffect(() => {
+    const objectUrls = images.map(image => URL.createObjectURL(image));
+    setUrls(objectUrls);
+    return () => objectUrls.forEach(url => URL.revokeObjectURL(url));
+  }, [images]);
+
+  return urls;
+};
+
+// Candidate frames from a video, plus the option of a custom image. The
+// middle frame is chosen until the user picks another.
+export const ThumbnailPicker = ({ file, selected, onSelect }: ThumbnailPickerProps) => {
+  const [frames, setFrames] = useState<Blob[]>([]);
+  const [custom, setCustom] = useState<Blob[]>([]);
+  const [capturing, setCapturing] = useState(true);
+  const [captureFailed, setCaptureFailed] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Read inside the capture effect without restarting it
+  const selectedRef = useRef(selected);
+  selectedRef.current = selected;
+  const onSelectRef = useRef(onSelect);
+  onSelectRef.current = onSelect;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setCapturing(true);
+    setCaptureFailed(false);
+
+    captureVideoFrames(file, undefined, controller.signal)
+      .then((captured) => {
+        setFrames(captured);
+        if (!selectedRef.current && captured.length > 0) {
+          onSelectRef.current(captured[Math.floor(captured.length / 2)]);
+        }
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+        console.warn('Could not capture video frames:', error);
+        setCaptureFailed(true);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setCapturing(false);
+      });
+
+    return () => controller.abort();
+  }, [file]);
+
+  const candidates = useMemo(() => [...frames, ...custom], [frames, custom]);
+  const urls = useObjectUrls(candidates);
+
+  const handleCustomImage = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const image = e.target.files?.[0];
+    e.target.value = '';
+    if (!image) return;
+
+    try {
+      const thumbnail = await prepareCustomThumbnail(image);
+      setCustom([thumbnail]);
+      onSelect(thumbnail);
+    } catch (error) {
+      console.warn('Could not read thumbnail image:', error);
+      toast.error('That image could not be read. Please use a JPEG, PNG or WebP file.');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-semibold text-white/70">Thumbnail</p>
+      <div className="flex space-x-2 overflow-x-auto pb-1">
+        {capturing && (
+          <div className="h-14 w-24 flex-shrink-0 rounded-lg bg-white/5 flex items-center justify-center">
+            <Loader2 className="h-4 w-4 text-white/60 animate-spin" />
+          </div>
+        )}
+        {candidates.map((candidate, index) => urls[index] && (
+          <button
+            key={urls[index]}
+            onClick={() => onSelect(candidate)}
+            className={`h-14 w-24 flex-shrink-0 rounded-lg overflow-hidden border-2 transition-colors ${
+              candidate === selected ? 'border-purple-400' : 'border-transparent hover:border-white/40'
+            }`}
+            aria-label={index < frames.length ? `Use frame ${index + 1} as thumbnail` : 'Use custom thumbnail'}
+            aria-pressed={candidate === selected}
+          >
+            <img src={urls[index]} alt="" className="h-full w-full object-cover" />
+          </button>
+        ))}
+        <button
+          onClick={() => inputRef.current?.click()}
+          className="h-14 w-24 flex-shrink-0 rounded-lg border-2 border-dashed border-white/20 hover:border-white/40 text-white/60 hover:text-white flex flex-col items-center justify-center text-xs transition-colors"
+        >
+          <ImagePlus className="h-4 w-4" />
+          <span>Custom</span>
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept="image/jpeg,image/png,image/webp"
+          onChange={handleCustomImage}
+          className="hidden"
+        />
+      </div>
+      {captureFailed && (
+        <p className="text-xs text-white/50">
+          Frames could not be read from this video in the browser. Upload a custom image instead.
+        </p>
+      )}
+    </div>
+  );
+};
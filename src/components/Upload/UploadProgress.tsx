@@ -1,13 +1,18 @@
 import { motion } from 'framer-motion';
-import { Loader2, CheckCircle, XCircle } from 'lucide-react';
+import { Loader2, CheckCircle, XCircle, Pause, Play, Clock } from 'lucide-react';
+import { UploadProgress as UploadProgressType, UploadStats } from '../../types';
 
 interface UploadProgressProps {
   progress: number;
-  status: 'idle' | 'uploading' | 'success' | 'error';
+  status: UploadProgressType['status'];
   fileName: string;
   fileSize: number;
+  stats?: UploadStats;
+  error?: string;
   onRetry?: () => void;
   onCancel?: () => void;
+  onPause?: () => void;
+  onResume?: () => void;
 }
 
 export const UploadProgress = ({
@@ -15,8 +20,12 @@ export const UploadProgress = ({
   status,
   fileName,
   fileSize,
+  stats,
+  error,
   onRetry,
   onCancel,
+  onPause,
+  onResume,
 }: UploadProgressProps) => {
   const formatFileSize = (bytes: number) => {
     if (bytes < 1024) return `${bytes} B`;
@@ -24,15 +33,33 @@ export const UploadProgress = ({
     return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
   };
 
+  const formatDuration = (seconds: number) => {
+    const total = Math.ceil(seconds);
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const secs = total % 60;
+    if (hours > 0) return `${hours}h ${minutes}m`;
+    if (minutes > 0) return `${minutes}m ${secs}s`;
+    return `${secs}s`;
+  };
+
+  const isSent = !!stats && stats.bytesUploaded >= stats.bytesTotal;
+
   return (
     <div className="w-full bg-gray-800/50 rounded-xl p-6 space-y-4">
       <div className="flex items-center justify-between">
         <div className="flex items-center space-x-3">
           <div className="relative">
             <div className="w-12 h-12 rounded-lg bg-indigo-500/20 flex items-center justify-center">
-              {status === 'uploading' && (
+              {(status === 'hashing' || status === 'uploading') && (
                 <Loader2 className="w-6 h-6 text-indigo-400 animate-spin" />
               )}
+              {status === 'paused' && (
+                <Pause className="w-6 h-6 text-indigo-400" />
+              )}
+              {status === 'queued' && (
+                <Clock className="w-6 h-6 text-indigo-400" />
+              )}
               {status === 'success' && (
                 <CheckCircle className="w-6 h-6 text-green-500" />
               )}
@@ -42,7 +69,7 @@ export const UploadProgress = ({
             </div>
             
             {/* Progress ring */}
-            {status === 'uploading' && (
+            {(status === 'hashing' || status === 'uploading') && (
               <motion.div
                 className="absolute inset-0 rounded-full border-2 border-indigo-500 border-t-transparent"
                 style={{
@@ -55,7 +82,13 @@ export const UploadProgress = ({
           
           <div>
             <p className="font-medium text-white truncate max-w-xs">{fileName}</p>
-            <p className="text-sm text-gray-400">{formatFileSize(fileSize)}</p>
+            <p className="text-sm text-gray-400">
+              {status === 'hashing'
+                ? `Checking ${formatFileSize(fileSize)} before upload`
+                : stats && status !== 'success'
+                ? `${formatFileSize(stats.bytesUploaded)} of ${formatFileSize(fileSize)}`
+                : formatFileSize(fileSize)}
+            </p>
           </div>
         </div>
         
@@ -64,7 +97,10 @@ export const UploadProgress = ({
             {Math.round(progress)}%
           </p>
           <p className="text-xs text-gray-400">
-            {status === 'uploading' ? 'Uploading...' : 
+            {status === 'hashing' ? 'Hashing...' :
+             status === 'uploading' ? (isSent ? 'Verifying...' : 'Uploading...') : 
+             status === 'paused' ? 'Paused' :
+             status === 'queued' ? 'Queued' :
              status === 'success' ? 'Completed' : 'Failed'}
           </p>
         </div>
@@ -81,13 +117,21 @@ export const UploadProgress = ({
       </div>
       
       {/* Speed and time remaining */}
-      {status === 'uploading' && (
+      {status === 'uploading' && !isSent && (
         <div className="flex justify-between text-xs text-gray-400">
-          <span>Speed: Calculating...</span>
-          <span>Time remaining: Calculating...</span>
+          <span>
+            Speed: {stats?.bytesPerSecond ? `${formatFileSize(stats.bytesPerSecond)}/s` : 'Calculating...'}
+          </span>
+          <span>
+            Time remaining: {stats?.etaSeconds != null ? formatDuration(stats.etaSeconds) : 'Calculating...'}
+          </span>
         </div>
       )}
       
+      {status === 'error' && error && (
+        <p className="text-sm text-red-300">{error}</p>
+      )}
+
       {/* Action buttons */}
       <div className="flex justify-end space-x-2 pt-2">
         {status === 'error' && (
@@ -98,7 +142,25 @@ export const UploadProgress = ({
             Retry
           </button>
         )}
-        {status === 'uploading' && (
+        {status === 'uploading' && onPause && (
+          <button
+            onClick={onPause}
+            className="px-4 py-2 text-sm font-medium text-gray-300 hover:text-white bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors flex items-center space-x-2"
+          >
+            <Pause className="w-4 h-4" />
+            <span>Pause</span>
+          </button>
+        )}
+        {status === 'paused' && onResume && (
+          <button
+            onClick={onResume}
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors flex items-center space-x-2"
+          >
+            <Play className="w-4 h-4" />
+            <span>Resume</span>
+          </button>
+        )}
+        {(status === 'queued' || status === 'hashing' || status === 'uploading' || status === 'paused') && (
           <button
             onClick={onCancel}
             className="px-4 py-2 text-sm font-medium text-gray-300 hover:text-white bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors"
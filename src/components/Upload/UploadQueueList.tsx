@@ -0,0 +1,445 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle, ChevronDown, ChevronUp, Copy, Eye, EyeOff, ImagePlus, ListMusic, Music, Video, X } from 'lucide-react';
+import { useUploadQueue } from '../../contexts/UploadQueueContext';
+import { CoverArtPicker } from '../CoverArt/CoverArtPicker';
+import { TracklistDialog } from '../Tracklist/TracklistDialog';
+import { MusicMix, UploadQueueItem } from '../../types';
+import { ThumbnailPicker } from './ThumbnailPicker';
+import { UploadProgress } from './UploadProgress';
+
+const isEditable = (item: UploadQueueItem) =>
+  item.upload.status === 'idle' || item.upload.status === 'error';
+
+// Text fields that can be set on every selected item at once
+type BulkField = 'description' | 'artist' | 'genre';
+
+const BULK_FIELDS: { field: BulkField; placeholder: string }[] = [
+  { field: 'description', placeholder: 'Description for all selected mixes' },
+  { field: 'artist', placeholder: 'Artist for all selected mixes' },
+  { field: 'genre', placeholder: 'Genre for all selected mixes' },
+];
+
+const NO_BULK_VALUES: Record<BulkField, string> = { description: '', artist: '', genre: '' };
+
+interface CoverThumbnailProps {
+  image?: Blob;
+  fileType: UploadQueueItem['fileType'];
+  // Both are left out once the item can no longer be edited
+  onChange?: (cover: Blob) => void;
+  onRemove?: () => void;
+}
+
+// Cover art of an item, from the file's tags or picked by the user. Clicking
+// it opens the cover picker; the object URL lives as long as the preview.
+const CoverThumbnail = ({ image, fileType, onChange, onRemove }: CoverThumbnailProps) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!image) {
+      setUrl(null);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(image);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [image]);
+
+  const isVideo = fileType === 'video';
+
+  return (
+    <div className="relative group/cover flex-shrink-0">
+      <CoverArtPicker
+        onPick={(cover) => onChange?.(cover)}
+        disabled={!onChange}
+        label={image ? 'Change cover art' : 'Add cover art'}
+        className="block rounded-xl disabled:cursor-default"
+      >
+        {image ? (
+          url && <img src={url} alt="Cover art" className="h-14 w-14 rounded-xl object-cover" />
+        ) : (
+          <div className={`relative p-2 rounded-xl ${isVideo ? 'gradient-secondary' : 'gradient-primary'}`}>
+            {isVideo ? <Video className="h-5 w-5 text-white" /> : <Music className="h-5 w-5 text-white" />}
+            {onChange && (
+              <ImagePlus className="absolute -bottom-1 -right-1 h-4 w-4 rounded-full bg-gray-900 p-0.5 text-white/80" />
+            )}
+          </div>
+        )}
+      </CoverArtPicker>
+      {image && onRemove && (
+        <button
+          onClick={onRemove}
+          className="absolute -top-2 -right-2 hidden group-hover/cover:flex bg-gray-900 rounded-full p-1 text-white/70 hover:text-white"
+          aria-label="Remove cover art"
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+interface UploadQueueListProps {
+  // Show an existing mix the user chose over a duplicate upload
+  onOpenMix?: (mix: MusicMix) => void;
+}
+
+export const UploadQueueList = ({ onOpenMix }: UploadQueueListProps) => {
+  const {
+    items,
+    updateItems,
+    moveItem,
+    removeItem,
+    startUploads,
+    pauseItem,
+    resumeItem,
+    cancelItem,
+    clearFinished,
+    uploadAnyway,
+    replaceMixFile,
+  } = useUploadQueue();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkValues, setBulkValues] = useState(NO_BULK_VALUES);
+  // Item whose tracklist is being edited
+  const [tracklistItemId, setTracklistItemId] = useState<string | null>(null);
+
+  const editableItems = items.filter(isEditable);
+  const tracklistItem = items.find(item => item.id === tracklistItemId && isEditable(item));
+  const selected = [...selectedIds].filter(id => editableItems.some(item => item.id === id));
+  const allSelected = editableItems.length > 0 && selected.length === editableItems.length;
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(editableItems.map(item => item.id)));
+  };
+
+  const openExisting = (item: UploadQueueItem, mix: MusicMix) => {
+    removeItem(item.id);
+    onOpenMix?.(mix);
+  };
+
+  const applyBulkField = (field: BulkField) => {
+    updateItems(selected, { [field]: bulkValues[field] });
+    setBulkValues(prev => ({ ...prev, [field]: '' }));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <label className="flex items-center space-x-3 text-sm text-white/80">
+          <input
+            type="checkbox"
+            checked={allSelected}
+            onChange={toggleAll}
+            disabled={editableItems.length === 0}
+            className="h-4 w-4 accent-purple-500"
+          />
+          <span>
+            {items.length} {items.length === 1 ? 'file' : 'files'} in queue
+            {selected.length > 0 && ` • ${selected.length} selected`}
+          </span>
+        </label>
+        {items.some(item => item.upload.status === 'success') && (
+          <button
+            onClick={clearFinished}
+            className="text-sm text-white/60 hover:text-white transition-colors"
+          >
+            Clear finished
+          </button>
+        )}
+      </div>
+
+      {/* Bulk edit of shared fields */}
+      {selected.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="glass rounded-2xl p-4 space-y-3"
+        >
+          <p className="text-sm font-semibold text-white/80">Edit {selected.length} selected</p>
+          {BULK_FIELDS.map(({ field, placeholder }) => (
+            <div key={field} className="flex space-x-3">
+              <input
+                type="text"
+                value={bulkValues[field]}
+                onChange={(e) => setBulkValues(prev => ({ ...prev, [field]: e.target.value }))}
+                className="input-glass flex-1 py-2"
+                placeholder={placeholder}
+              />
+              <button onClick={() => applyBulkField(field)} className="btn-secondary py-2">
+                Apply
+              </button>
+            </div>
+          ))}
+          <div className="flex space-x-3">
+            <button
+              onClick={() => updateItems(selected, { isPublic: true })}
+              className="btn-secondary py-2 flex-1 flex items-center justify-center space-x-2"
+            >
+              <Eye className="h-4 w-4" />
+              <span>Make public</span>
+            </button>
+            <button
+              onClick={() => updateItems(selected, { isPublic: false })}
+              className="btn-secondary py-2 flex-1 flex items-center justify-center space-x-2"
+            >
+              <EyeOff className="h-4 w-4" />
+              <span>Make private</span>
+            </button>
+            <button
+              onClick={() => startUploads(selected)}
+              className="btn-primary py-2 flex-1"
+            >
+              Upload selected
+            </button>
+          </div>
+        </motion.div>
+      )}
+
+      <ul className="space-y-3">
+        {items.map((item, index) => {
+          const editable = isEditable(item);
+          const isVideo = item.fileType === 'video';
+          return (
+            <li key={item.id} className="glass rounded-2xl p-4 space-y-3">
+              <div className="flex items-start space-x-3">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.has(item.id) && editable}
+                  onChange={() => toggleSelected(item.id)}
+                  disabled={!editable}
+                  className="mt-3 h-4 w-4 accent-purple-500"
+                  aria-label={`Select ${item.title}`}
+                />
+                <CoverThumbnail
+                  image={item.cover}
+                  fileType={item.fileType}
+                  onChange={editable ? (cover) => updateItems([item.id], { cover }) : undefined}
+                  onRemove={editable ? () => updateItems([item.id], { cover: undefined }) : undefined}
+                />
+                <div className="flex-1 min-w-0 space-y-2">
+                  <input
+                    type="text"
+                    value={item.title}
+                    onChange={(e) => updateItems([item.id], { title: e.target.value })}
+                    disabled={!editable}
+                    className="input-glass w-full py-2"
+                    placeholder="Title *"
+                    aria-label={`Title for ${item.file.name}`}
+                  />
+                  <textarea
+                    value={item.description}
+                    onChange={(e) => updateItems([item.id], { description: e.target.value })}
+                    disabled={!editable}
+                    rows={2}
+                    className="input-glass w-full py-2 resize-none text-sm"
+                    placeholder="Description"
+                    aria-label={`Description for ${item.file.name}`}
+                  />
+                  {/* Prefilled from the file's tags */}
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                    <input
+                      type="text"
+                      value={item.artist}
+                      onChange={(e) => updateItems([item.id], { artist: e.target.value })}
+                      disabled={!editable}
+                      className="input-glass w-full py-2 text-sm"
+                      placeholder="Artist"
+                      aria-label={`Artist for ${item.file.name}`}
+                    />
+                    <input
+                      type="text"
+                      value={item.genre}
+                      onChange={(e) => updateItems([item.id], { genre: e.target.value })}
+                      disabled={!editable}
+                      className="input-glass w-full py-2 text-sm"
+                      placeholder="Genre"
+                      aria-label={`Genre for ${item.file.name}`}
+                    />
+                    <input
+                      type="number"
+                      value={item.year}
+                      onChange={(e) => updateItems([item.id], { year: e.target.value })}
+                      disabled={!editable}
+                      min={1000}
+                      max={9999}
+                      className="input-glass w-full py-2 text-sm"
+                      placeholder="Year"
+                      aria-label={`Year for ${item.file.name}`}
+                    />
+                    <input
+                      type="number"
+                      value={item.bpm}
+                      onChange={(e) => updateItems([item.id], { bpm: e.target.value })}
+                      disabled={!editable}
+                      min={1}
+                      step="0.01"
+                      className="input-glass w-full py-2 text-sm"
+                      placeholder="BPM"
+                      aria-label={`BPM for ${item.file.name}`}
+                    />
+                  </div>
+                  <input
+                    type="text"
+                    value={item.comment}
+                    onChange={(e) => updateItems([item.id], { comment: e.target.value })}
+                    disabled={!editable}
+                    className="input-glass w-full py-2 text-sm"
+                    placeholder="Comment"
+                    aria-label={`Comment for ${item.file.name}`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setTracklistItemId(item.id)}
+                    disabled={!editable}
+                    className="flex items-center space-x-2 text-sm text-white/70 hover:text-white disabled:opacity-50 disabled:hover:text-white/70"
+                  >
+                    <ListMusic className="h-4 w-4" />
+                    <span>
+                      {item.tracks?.length
+                        ? `Tracklist (${item.tracks.length} ${item.tracks.length === 1 ? 'track' : 'tracks'})`
+                        : 'Add tracklist'}
+                    </span>
+                  </button>
+                  {isVideo && editable && (
+                    <ThumbnailPicker
+                      file={item.file}
+                      selected={item.thumbnail}
+                      onSelect={(thumbnail) => updateItems([item.id], { thumbnail })}
+                    />
+                  )}
+                  <p className="text-xs text-white/50 truncate">{item.file.name}</p>
+                </div>
+                <div className="flex flex-col items-center space-y-1">
+                  <button
+                    onClick={() => moveItem(item.id, -1)}
+                    disabled={index === 0}
+                    className="text-white/60 hover:text-white disabled:opacity-30 p-1"
+                    aria-label="Move up"
+                  >
+                    <ChevronUp className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => updateItems([item.id], { isPublic: !item.isPublic })}
+                    disabled={!editable}
+                    className="text-white/60 hover:text-white disabled:opacity-50 p-1"
+                    aria-label={item.isPublic ? 'Make private' : 'Make public'}
+                    title={item.isPublic ? 'Public' : 'Private'}
+                  >
+                    {item.isPublic ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+                  </button>
+                  <button
+                    onClick={() => moveItem(item.id, 1)}
+                    disabled={index === items.length - 1}
+                    className="text-white/60 hover:text-white disabled:opacity-30 p-1"
+                    aria-label="Move down"
+                  >
+                    <ChevronDown className="h-4 w-4" />
+                  </button>
+                </div>
+                <button
+                  onClick={() => removeItem(item.id)}
+                  className="text-white/60 hover:text-red-400 p-1 rounded-lg transition-colors"
+                  aria-label={`Remove ${item.file.name} from queue`}
+                >
+                  <X className="h-5 w-5" />
+                </button>
+              </div>
+
+              {/* Same content as a public mix by someone else: upload, but say so */}
+              {item.duplicates && item.duplicates.others.length > 0 && item.upload.status !== 'duplicate' && (
+                <div className="flex items-start space-x-2 rounded-xl bg-yellow-500/10 p-3 text-sm text-yellow-200">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                  <span>
+                    This file matches the public mix "{item.duplicates.others[0].title}" by another user.
+                  </span>
+                </div>
+              )}
+
+              {/* Same content as one of the user's own mixes: ask what to do */}
+              {item.upload.status === 'duplicate' && item.duplicates && (
+                <div className="rounded-xl bg-indigo-500/10 p-4 space-y-3">
+                  <div className="flex items-center space-x-2 text-sm font-semibold text-white">
+                    <Copy className="h-4 w-4 text-indigo-300" />
+                    <span>You have already uploaded this file</span>
+                  </div>
+                  <ul className="space-y-2">
+                    {item.duplicates.own.map(mix => (
+                      <li key={mix.id} className="flex items-center justify-between space-x-3">
+                        <div className="min-w-0">
+                          <p className="text-sm text-white truncate">{mix.title}</p>
+                          <p className="text-xs text-white/50">
+                            Uploaded {new Date(mix.created_at).toLocaleDateString()}
+                          </p>
+                        </div>
+                        <div className="flex space-x-2 flex-shrink-0">
+                          {onOpenMix && (
+                            <button
+                              onClick={() => openExisting(item, mix)}
+                              className="btn-secondary py-1 px-3 text-sm"
+                            >
+                              Open existing
+                            </button>
+                          )}
+                          <button
+                            onClick={() => replaceMixFile(item.id, mix.id)}
+                            className="btn-secondary py-1 px-3 text-sm"
+                          >
+                            Replace file
+                          </button>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="flex justify-end">
+                    <button onClick={() => uploadAnyway(item.id)} className="btn-primary py-1 px-3 text-sm">
+                      Upload anyway
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {item.upload.status !== 'idle' && item.upload.status !== 'duplicate' && (
+                <UploadProgress
+                  progress={item.upload.progress}
+                  status={item.upload.status}
+                  fileName={item.file.name}
+                  fileSize={item.file.size}
+                  stats={item.upload.stats}
+                  error={item.upload.error}
+                  onRetry={() => startUploads([item.id])}
+                  onCancel={() => cancelItem(item.id)}
+                  onPause={() => pauseItem(item.id)}
+                  onResume={() => resumeItem(item.id)}
+                />
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {tracklistItem && (
+        <TracklistDialog
+          title={tracklistItem.title || tracklistItem.file.name}
+          initialTracks={tracklistItem.tracks ?? []}
+          onCancel={() => setTracklistItemId(null)}
+          onSave={(tracks) => {
+            updateItems([tracklistItem.id], { tracks: tracks.length > 0 ? tracks : undefined });
+            setTracklistItemId(null);
+          }}
+        />
+      )}
+    </div>
+  );
+};
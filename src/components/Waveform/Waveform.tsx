@@ -0,0 +1,107 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { loadWaveform, pickResolution, WaveformData } from '../../lib/media/waveform'
+
+// Load the stored peaks of a mix once `enabled` is true
+export const useWaveform = (path: string | undefined, enabled = true) => {
+  const [waveform, setWaveform] = useState<WaveformData | null>(null)
+
+  useEffect(() => {
+    setWaveform(null)
+    if (!path || !enabled) return
+
+    let cancelled = false
+    loadWaveform(path).then(data => {
+      if (!cancelled) setWaveform(data)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [path, enabled])
+
+  return waveform
+}
+
+interface WaveformProps {
+  waveform: WaveformData
+  // Played fraction, 0-1; bars before it use playedColor
+  progress?: number
+  onSeek?: (fraction: number) => void
+  color?: string
+  playedColor?: string
+  // Width of a bar and the gap after it, in CSS pixels
+  barWidth?: number
+  barGap?: number
+  className?: string
+}
+
+// Mirrored bar waveform drawn on a canvas that follows its container's size
+export const Waveform: React.FC<WaveformProps> = ({
+  waveform,
+  progress = 0,
+  onSeek,
+  color = 'rgba(255, 255, 255, 0.35)',
+  playedColor = 'rgba(255, 255, 255, 0.9)',
+  barWidth = 2,
+  barGap = 1,
+  className = '',
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [size, setSize] = useState({ width: 0, height: 0 })
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height })
+    })
+    observer.observe(canvas)
+    return () => observer.disconnect()
+  }, [])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext('2d')
+    if (!canvas || !context || size.width === 0) return
+
+    const ratio = window.devicePixelRatio || 1
+    canvas.width = Math.round(size.width * ratio)
+    canvas.height = Math.round(size.height * ratio)
+    context.setTransform(ratio, 0, 0, ratio, 0, 0)
+    context.clearRect(0, 0, size.width, size.height)
+
+    const bars = Math.max(1, Math.floor(size.width / (barWidth + barGap)))
+    const { data, length } = pickResolution(waveform, bars)
+    const peak = Math.max(1, ...data.map(Math.abs))
+    const middle = size.height / 2
+
+    for (let bar = 0; bar < bars; bar++) {
+      // Largest peak among the points this bar covers
+      const first = Math.floor(bar * length / bars)
+      const last = Math.max(first + 1, Math.floor((bar + 1) * length / bars))
+      let amplitude = 0
+      for (let point = first; point < last && point < length; point++) {
+        amplitude = Math.max(amplitude, Math.abs(data[point * 2]), Math.abs(data[point * 2 + 1]))
+      }
+
+      const barHeight = Math.max(1, amplitude / peak * size.height)
+      context.fillStyle = bar / bars < progress ? playedColor : color
+      context.fillRect(bar * (barWidth + barGap), middle - barHeight / 2, barWidth, barHeight)
+    }
+  }, [waveform, progress, size, color, playedColor, barWidth, barGap])
+
+  const handleClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!onSeek) return
+    const rect = event.currentTarget.getBoundingClientRect()
+    onSeek(Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)))
+  }
+
+  return (
+    <canvas
+      ref={canvasRef}
+      onClick={handleClick}
+      className={`block w-full h-full ${onSeek ? 'cursor-pointer' : ''} ${className}`}
+      aria-hidden={!onSeek}
+    />
+  )
+}
@@ -0,0 +1,397 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react'
+import toast from 'react-hot-toast'
+import { useAuth } from './AuthContext'
+import { supabase } from '../lib/supabase'
+import { getSignedUrl, refreshSignedUrl } from '../lib/signedUrls'
+import { withImageUrls } from '../lib/media/coverArt'
+import { hlsMasterPath } from '../lib/media/hls'
+import { loadPlayerPreferences, savePlayerPreferences } from '../lib/player/preferences'
+import { fetchPositions, MIN_RESUME_POSITION, PositionMap, resumePosition, storePosition } from '../lib/player/positions'
+import {
+  appendEntry,
+  createEntry,
+  EMPTY_QUEUE,
+  followingIndex,
+  insertAfterCurrent,
+  loadQueue,
+  moveEntry,
+  nextRepeatMode,
+  precedingIndex,
+  QueueEntry,
+  QueueState,
+  removeEntry,
+  RepeatMode,
+  saveQueue,
+  setShuffle,
+  upcomingEntries,
+} from '../lib/player/queue'
+import { MusicMix } from '../types'
+
+// What the player is showing: the entry and the URL it streams from
+export interface NowPlaying {
+  entryId: string
+  mix: MusicMix
+  url: string
+  // Master playlist of the video's HLS renditions, when it has them
+  hlsUrl: string | null
+  // Saved position to offer resuming from, taken when the entry was opened
+  resumeFrom: number | null
+}
+
+interface PlayerContextType {
+  queue: QueueEntry[]
+  currentIndex: number
+  nowPlaying: NowPlaying | null
+  // Changes every time playback should start, once nowPlaying holds the
+  // entry to play. A restored queue waits for the user, since browsers block
+  // autoplay without a gesture.
+  playRequest: number
+  shuffle: boolean
+  repeat: RepeatMode
+  // URL of the audio mix that plays next, once loaded, so the player can
+  // fade into it or start it without a gap
+  upNextUrl: string | null
+  // Whether another entry follows the current one
+  hasNext: boolean
+  crossfade: number
+  gapless: boolean
+  // Saved listening positions of the signed in user, by mix id
+  positions: PositionMap
+  // Replace the queue with `list` (or just `mix`) and play `mix`
+  playMix: (mix: MusicMix, list?: MusicMix[]) => void
+  playNext: (mix: MusicMix) => void
+  addToQueue: (mix: MusicMix) => void
+  playAt: (index: number) => void
+  next: () => void
+  previous: () => void
+  // Called by the player when the current mix ends
+  handleEnded: () => void
+  moveInQueue: (from: number, to: number) => void
+  removeFromQueue: (index: number) => void
+  clearQueue: () => void
+  toggleShuffle: () => void
+  cycleRepeat: () => void
+  setCrossfade: (seconds: number) => void
+  setGapless: (gapless: boolean) => void
+  // Called by the player as a mix plays; saves are throttled unless `flush`
+  reportPosition: (mix: MusicMix, position: number, duration: number, flush?: boolean) => void
+  // Called by the player when the current URL stops working, as once its
+  // signature expires; nowPlaying gets a freshly signed one
+  refreshUrl: () => void
+  // Called by the player when the current mix cannot be played at all;
+  // moves on to the next entry
+  skipUnplayable: () => void
+}
+
+const PlayerContext = createContext<PlayerContextType | undefined>(undefined)
+
+export const usePlayer = () => {
+  const context = useContext(PlayerContext)
+  if (context === undefined) {
+    throw new Error('usePlayer must be used within a PlayerProvider')
+  }
+  return context
+}
+
+// Entries after the current one whose URLs are fetched ahead of time
+const PREFETCH_AHEAD = 2
+// Least time between saves of the position in a playing mix
+const POSITION_SAVE_INTERVAL_MS = 15 * 1000
+
+// Holds the play queue above the routes, so playback and the queue outlive
+// the page that started them
+export const PlayerProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth()
+  const [state, setState] = useState<QueueState>(EMPTY_QUEUE)
+  const [nowPlaying, setNowPlaying] = useState<NowPlaying | null>(null)
+  const [playRequest, setPlayRequest] = useState(0)
+  const [restoredFor, setRestoredFor] = useState<string | null>(null)
+  const [upNext, setUpNext] = useState<{ entryId: string, url: string } | null>(null)
+  const [crossfade, setCrossfadeState] = useState(() => loadPlayerPreferences().crossfade)
+  const [gapless, setGaplessState] = useState(() => loadPlayerPreferences().gapless)
+  const [positions, setPositions] = useState<PositionMap>({})
+  // Read when an entry is opened, without reloading it on every save
+  const positionsRef = useRef(positions)
+  positionsRef.current = positions
+  // When the position of each mix was last saved
+  const positionSavedAtRef = useRef(new Map<string, number>())
+  // Set when playback was asked for while the entry's URL was still loading
+  const pendingPlayRef = useRef(false)
+
+  // Restore the saved queue of the signed in user
+  useEffect(() => {
+    setState(EMPTY_QUEUE)
+    setNowPlaying(null)
+    setRestoredFor(null)
+    setPositions({})
+    pendingPlayRef.current = false
+    if (!user) return
+
+    let cancelled = false
+    const saved = loadQueue(user.id)
+    // Positions come first, so the restored entry can offer to resume
+    Promise.all([
+      withImageUrls(saved.entries.map(entry => entry.mix)),
+      fetchPositions(user.id),
+    ]).then(([mixes, savedPositions]) => {
+      if (cancelled) return
+      positionsRef.current = savedPositions
+      setPositions(savedPositions)
+      setState({ ...saved, entries: saved.entries.map((entry, index) => ({ ...entry, mix: mixes[index] })) })
+      setRestoredFor(user.id)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [user])
+
+  useEffect(() => {
+    if (user && restoredFor === user.id) {
+      saveQueue(user.id, state)
+    }
+  }, [state, user, restoredFor])
+
+  const resolveUrl = useCallback((mix: MusicMix) => getSignedUrl(mix.file_path), [])
+
+  // The original file still plays when the renditions cannot be reached
+  const resolveHlsUrl = useCallback((mix: MusicMix) => {
+    const masterPath = hlsMasterPath(mix)
+    if (!masterPath) return Promise.resolve(null)
+    return getSignedUrl(masterPath).catch((error) => {
+      console.warn('Falling back to the original file:', error)
+      return null
+    })
+  }, [])
+
+  const currentEntry = state.entries[state.currentIndex] as QueueEntry | undefined
+
+  // Load the URL of the current entry; the previous one keeps showing until
+  // it is ready
+  useEffect(() => {
+    if (!currentEntry) {
+      setNowPlaying(null)
+      return
+    }
+
+    let cancelled = false
+    Promise.all([resolveUrl(currentEntry.mix), resolveHlsUrl(currentEntry.mix)])
+      .then(([url, hlsUrl]) => {
+        if (cancelled) return
+        setNowPlaying({
+          entryId: currentEntry.id,
+          mix: currentEntry.mix,
+          url,
+          hlsUrl,
+          resumeFrom: resumePosition(positionsRef.current[currentEntry.mix.id]),
+        })
+        if (pendingPlayRef.current) {
+          pendingPlayRef.current = false
+          setPlayRequest(request => request + 1)
+        }
+      })
+      .catch((error) => {
+        console.error('Error getting streaming URL:', error)
+        if (!cancelled) toast.error(`Failed to load ${currentEntry.mix.title}`)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [currentEntry?.id, resolveUrl, resolveHlsUrl])
+
+  // Keep the playing mix in step with edits to its entry, such as play counts
+  const playingMix = state.entries.find(entry => entry.id === nowPlaying?.entryId)?.mix
+  const nowPlayingValue = useMemo(
+    () => nowPlaying && playingMix ? { ...nowPlaying, mix: playingMix } : nowPlaying,
+    [nowPlaying, playingMix]
+  )
+
+  // Sign the URLs of the next entries, in one request, while the current
+  // one plays
+  useEffect(() => {
+    upcomingEntries(state, PREFETCH_AHEAD).forEach((entry) => {
+      resolveUrl(entry.mix).catch(() => {})
+    })
+  }, [state, resolveUrl])
+
+  // Only audio mixes are faded into one another; a video loads as usual
+  const followingEntry = upcomingEntries(state, 1)[0] as QueueEntry | undefined
+  const upNextEntry = followingEntry?.mix.file_type === 'audio' ? followingEntry : undefined
+
+  useEffect(() => {
+    if (!upNextEntry) return
+
+    let cancelled = false
+    resolveUrl(upNextEntry.mix)
+      .then((url) => {
+        if (!cancelled) setUpNext({ entryId: upNextEntry.id, url })
+      })
+      .catch(() => {})
+    return () => {
+      cancelled = true
+    }
+  }, [upNextEntry?.id, resolveUrl])
+
+  // Count a play each time playback is started on an entry
+  useEffect(() => {
+    if (playRequest === 0 || !currentEntry) return
+
+    const { mix } = currentEntry
+    const entryId = currentEntry.id
+    supabase
+      .from('music_mixes')
+      .update({ play_count: mix.play_count + 1 })
+      .eq('id', mix.id)
+      .then(({ error }) => {
+        if (error) {
+          console.warn('Failed to update play count:', error)
+          return
+        }
+        setState(prev => ({
+          ...prev,
+          entries: prev.entries.map(entry => entry.id === entryId
+            ? { ...entry, mix: { ...entry.mix, play_count: mix.play_count + 1 } }
+            : entry),
+        }))
+      })
+  }, [playRequest])
+
+  const playMix = (mix: MusicMix, list: MusicMix[] = [mix]) => {
+    const entries = (list.some(item => item.id === mix.id) ? list : [mix]).map(createEntry)
+    const currentIndex = entries.findIndex(entry => entry.mix.id === mix.id)
+    setState(prev => {
+      const next = { ...prev, entries, currentIndex, unshuffledOrder: null }
+      return prev.shuffle ? setShuffle({ ...next, shuffle: false }, true) : next
+    })
+    pendingPlayRef.current = true
+  }
+
+  const playNext = (mix: MusicMix) => {
+    setState(prev => insertAfterCurrent(prev, createEntry(mix)))
+    toast.success(`${mix.title} will play next`)
+  }
+
+  const addToQueue = (mix: MusicMix) => {
+    setState(prev => appendEntry(prev, createEntry(mix)))
+    toast.success(`Added ${mix.title} to the queue`)
+  }
+
+  const playAt = (index: number) => {
+    if (index < 0 || index >= state.entries.length) return
+    if (index === state.currentIndex && nowPlaying?.entryId === state.entries[index].id) {
+      setPlayRequest(request => request + 1)
+      return
+    }
+    setState(prev => ({ ...prev, currentIndex: index }))
+    pendingPlayRef.current = true
+  }
+
+  const next = () => playAt(followingIndex(state))
+
+  const previous = () => playAt(precedingIndex(state))
+
+  const handleEnded = () => {
+    const index = followingIndex(state)
+    if (index >= 0) playAt(index)
+  }
+
+  const moveInQueue = (from: number, to: number) => {
+    setState(prev => moveEntry(prev, from, to))
+  }
+
+  const removeFromQueue = (index: number) => {
+    setState(prev => removeEntry(prev, index))
+  }
+
+  // Keep only the current entry
+  const clearQueue = () => {
+    setState(prev => {
+      const current = prev.entries[prev.currentIndex]
+      return { ...prev, entries: current ? [current] : [], currentIndex: current ? 0 : -1, unshuffledOrder: null }
+    })
+  }
+
+  const toggleShuffle = () => {
+    setState(prev => setShuffle(prev, !prev.shuffle))
+  }
+
+  const cycleRepeat = () => {
+    setState(prev => ({ ...prev, repeat: nextRepeatMode(prev.repeat) }))
+  }
+
+  const setCrossfade = (seconds: number) => {
+    setCrossfadeState(seconds)
+    savePlayerPreferences({ crossfade: seconds })
+  }
+
+  const setGapless = (enabled: boolean) => {
+    setGaplessState(enabled)
+    savePlayerPreferences({ gapless: enabled })
+  }
+
+  const reportPosition = useCallback((mix: MusicMix, position: number, duration: number, flush = false) => {
+    // Saving the first seconds would wipe a position the listener has not
+    // yet chosen whether to resume from
+    if (!user || !(duration > 0) || position < MIN_RESUME_POSITION) return
+
+    const now = Date.now()
+    const savedAt = positionSavedAtRef.current.get(mix.id) ?? 0
+    if (!flush && now - savedAt < POSITION_SAVE_INTERVAL_MS) return
+    positionSavedAtRef.current.set(mix.id, now)
+
+    const saved = { mix_id: mix.id, position, duration, updated_at: new Date(now).toISOString() }
+    setPositions(prev => ({ ...prev, [mix.id]: saved }))
+    storePosition(user.id, saved)
+  }, [user])
+
+  const refreshUrl = useCallback(() => {
+    if (!nowPlaying) return
+    const { entryId, mix } = nowPlaying
+    refreshSignedUrl(mix.file_path)
+      .then((url) => {
+        setNowPlaying(prev => prev?.entryId === entryId ? { ...prev, url } : prev)
+      })
+      .catch((error) => {
+        console.error('Error signing streaming URL again:', error)
+        toast.error(`Failed to reload ${mix.title}`)
+      })
+  }, [nowPlaying])
+
+  const skipUnplayable = () => {
+    if (!nowPlaying || !followingEntry) return
+    toast.error(`Skipped ${nowPlaying.mix.title}: it could not be played`)
+    playAt(followingIndex(state))
+  }
+
+  const value = {
+    queue: state.entries,
+    currentIndex: state.currentIndex,
+    nowPlaying: nowPlayingValue,
+    playRequest,
+    shuffle: state.shuffle,
+    repeat: state.repeat,
+    upNextUrl: upNext && upNext.entryId === upNextEntry?.id ? upNext.url : null,
+    hasNext: !!followingEntry,
+    crossfade,
+    gapless,
+    positions,
+    playMix,
+    playNext,
+    addToQueue,
+    playAt,
+    next,
+    previous,
+    handleEnded,
+    moveInQueue,
+    removeFromQueue,
+    clearQueue,
+    toggleShuffle,
+    cycleRepeat,
+    setCrossfade,
+    setGapless,
+    reportPosition,
+    refreshUrl,
+    skipUnplayable,
+  }
+
+  return <PlayerContext.Provider value={value}>{children}</PlayerContext.Provider>
+}
@@ -0,0 +1,116 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react'
+import { isTypingTarget, matchShortcut, normalizeKey, ShortcutAction } from '../lib/shortcuts'
+import { ShortcutsCheatSheet } from '../components/Shortcuts/ShortcutsCheatSheet'
+
+type ShortcutHandler = () => void
+
+interface ShortcutsContextType {
+  // Add a handler for an action; returns a function that removes it
+  register: (action: ShortcutAction, handler: React.MutableRefObject<ShortcutHandler>) => () => void
+  openCheatSheet: () => void
+}
+
+const ShortcutsContext = createContext<ShortcutsContextType | undefined>(undefined)
+
+export const useShortcuts = () => {
+  const context = useContext(ShortcutsContext)
+  if (context === undefined) {
+    throw new Error('useShortcuts must be used within a ShortcutsProvider')
+  }
+  return context
+}
+
+// Run `handler` when the keys bound to `action` are pressed, while the
+// component is mounted and `enabled` holds
+export const useShortcut = (action: ShortcutAction, handler: ShortcutHandler, enabled = true) => {
+  const { register } = useShortcuts()
+  const handlerRef = useRef(handler)
+  handlerRef.current = handler
+
+  useEffect(() => {
+    if (!enabled) return
+    return register(action, handlerRef)
+  }, [action, enabled, register])
+}
+
+// How long the second key of a sequence such as G then L may take
+const SEQUENCE_TIMEOUT_MS = 1000
+
+// Listens for shortcut keys across the app and hands them to whichever
+// components registered for the action
+export const ShortcutsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const handlersRef = useRef(new Map<ShortcutAction, Set<React.MutableRefObject<ShortcutHandler>>>())
+  const [isCheatSheetOpen, setIsCheatSheetOpen] = useState(false)
+
+  const register = useCallback((action: ShortcutAction, handler: React.MutableRefObject<ShortcutHandler>) => {
+    const handlers = handlersRef.current.get(action) ?? new Set()
+    handlers.add(handler)
+    handlersRef.current.set(action, handlers)
+    return () => {
+      handlers.delete(handler)
+    }
+  }, [])
+
+  useEffect(() => {
+    // Keys pressed so far towards a sequence
+    let pending: string[] = []
+    let pendingTimer: number | undefined
+
+    const dispatch = (action: ShortcutAction) => {
+      if (action === 'showShortcuts') {
+        setIsCheatSheetOpen(open => !open)
+        return true
+      }
+      const handlers = handlersRef.current.get(action)
+      if (!handlers || handlers.size === 0) return false
+      handlers.forEach(handler => handler.current())
+      return true
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey) return
+      if (isTypingTarget(event.target)) return
+      const key = normalizeKey(event.key)
+      // Space still presses the focused button or link
+      if (key === ' ' && event.target instanceof Element && event.target.closest('button, a, [role="button"]')) return
+
+      window.clearTimeout(pendingTimer)
+      let match = matchShortcut([...pending, key])
+      if (!match.action && !match.isPrefix && pending.length > 0) {
+        match = matchShortcut([key])
+        pending = []
+      }
+
+      if (match.isPrefix && !match.action) {
+        pending = [...pending, key]
+        pendingTimer = window.setTimeout(() => {
+          pending = []
+        }, SEQUENCE_TIMEOUT_MS)
+        return
+      }
+
+      pending = []
+      if (match.action && dispatch(match.action)) {
+        event.preventDefault()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => {
+      window.clearTimeout(pendingTimer)
+      window.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [])
+
+  const value = {
+    register,
+    openCheatSheet: () => setIsCheatSheetOpen(true),
+  }
+
+  return (
+    <ShortcutsContext.Provider value={value}>
+      {children}
+      <ShortcutsCheatSheet isOpen={isCheatSheetOpen} onClose={() => setIsCheatSheetOpen(false)} />
+    </ShortcutsContext.Provider>
+  )
+}
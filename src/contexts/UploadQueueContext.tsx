@@ -0,0 +1,352 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react'
+import toast from 'react-hot-toast'
+import { useAuth } from './AuthContext'
+import {
+  findDuplicateMixes,
+  generateFileHash,
+  isAbortError,
+  PauseController,
+  UPLOAD_CONCURRENCY,
+  uploadFile,
+} from '../lib/upload'
+import { getMediaDuration } from '../lib/media/duration'
+import { removeCoverArt, removeStoredImages, uploadCoverArt, uploadThumbnail } from '../lib/media/coverArt'
+import { MediaTags } from '../lib/media/tags'
+import { saveTracklist } from '../lib/media/tracklist'
+import { computeWaveform, saveWaveform, WaveformData } from '../lib/media/waveform'
+import { MixDraft, UploadProgress, UploadQueueItem } from '../types'
+
+// Metadata fields that can be edited per item or in bulk
+export type UploadQueueItemFields = Pick<
+  UploadQueueItem,
+  'title' | 'description' | 'isPublic' | 'artist' | 'genre' | 'year' | 'bpm' | 'comment' | 'cover' | 'thumbnail' | 'tracks'
+>
+
+// A file that passed validation, with the container detected from its content
+// and the tags embedded in it
+export type UploadQueueFile = Pick<UploadQueueItem, 'file' | 'fileType' | 'mimeType'> & {
+  tags?: MediaTags
+}
+
+interface UploadQueueContextType {
+  items: UploadQueueItem[]
+  // Items queued, uploading or paused
+  activeCount: number
+  // Increments every time an upload finishes, so views can refresh
+  completedCount: number
+  addFiles: (files: UploadQueueFile[], fields?: Partial<UploadQueueItemFields>) => void
+  updateItems: (ids: string[], fields: Partial<UploadQueueItemFields>) => void
+  moveItem: (id: string, offset: -1 | 1) => void
+  removeItem: (id: string) => void
+  startUploads: (ids: string[]) => void
+  pauseItem: (id: string) => void
+  resumeItem: (id: string) => void
+  cancelItem: (id: string) => void
+  clearFinished: () => void
+  // Resolve a 'duplicate' item by uploading it as a new mix regardless
+  uploadAnyway: (id: string) => void
+  // Resolve a 'duplicate' item by swapping the file of one of the user's mixes
+  replaceMixFile: (id: string, mixId: string) => void
+}
+
+interface UploadControllers {
+  abort: AbortController
+  pause: PauseController
+}
+
+const UploadQueueContext = createContext<UploadQueueContextType | undefined>(undefined)
+
+export const useUploadQueue = () => {
+  const context = useContext(UploadQueueContext)
+  if (context === undefined) {
+    throw new Error('useUploadQueue must be used within an UploadQueueProvider')
+  }
+  return context
+}
+
+const ACTIVE_STATUSES: UploadProgress['status'][] = ['queued', 'hashing', 'uploading', 'paused']
+
+// Default title is the file name without its extension
+const titleFromFileName = (fileName: string) => fileName.replace(/\.[^/.]+$/, '')
+
+// Number typed into a form field, or null when blank or not a number
+const parseNumberField = (value: string) => {
+  const number = Number(value.trim())
+  return value.trim() && Number.isFinite(number) ? number : null
+}
+
+const buildFilePath = (userId: string, file: File) => {
+  const fileExt = file.name.split('.').pop()?.toLowerCase()
+  const timestamp = Date.now()
+  const randomId = Math.random().toString(36).substring(2, 15)
+  return `${userId}/${timestamp}-${randomId}.${fileExt}`
+}
+
+// Holds the upload queue above the routes, so uploads keep running while the
+// upload modal is closed
+export const UploadQueueProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth()
+  const [items, setItems] = useState<UploadQueueItem[]>([])
+  const [completedCount, setCompletedCount] = useState(0)
+  const controllersRef = useRef(new Map<string, UploadControllers>())
+
+  const setItem = useCallback((id: string, fields: Partial<UploadQueueItem>) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, ...fields } : item))
+  }, [])
+
+  const setItemUpload = useCallback((
+    id: string,
+    update: (upload: UploadProgress) => UploadProgress
+  ) => {
+    setItems(prev => prev.map(item => item.id === id ? { ...item, upload: update(item.upload) } : item))
+  }, [])
+
+  const runUpload = useCallback(async (item: UploadQueueItem, userId: string) => {
+    const controllers = { abort: new AbortController(), pause: new PauseController() }
+    controllersRef.current.set(item.id, controllers)
+    let coverPath: string | null = null
+    let thumbnailPath: string | null = null
+
+    try {
+      // Hash first so the file can be checked against existing mixes before
+      // any bytes are sent
+      const contentHash = item.contentHash ?? await generateFileHash(item.file, {
+        signal: controllers.abort.signal,
+        onProgress: (bytesHashed) => setItemUpload(item.id, () => ({
+          progress: item.file.size > 0 ? bytesHashed / item.file.size * 100 : 100,
+          status: 'hashing',
+        })),
+      })
+      controllers.abort.signal.throwIfAborted()
+
+      if (!item.allowDuplicate && !item.replaceMixId) {
+        const duplicates = await findDuplicateMixes(contentHash, userId)
+        controllers.abort.signal.throwIfAborted()
+
+        if (duplicates.own.length > 0) {
+          setItem(item.id, { contentHash, duplicates, upload: { progress: 0, status: 'duplicate' } })
+          return
+        }
+        if (duplicates.others.length > 0) {
+          toast(`${item.title} matches a public mix by another user`, { icon: '⚠️' })
+        }
+        setItem(item.id, { contentHash, duplicates })
+      }
+
+      // Peaks are computed while the file uploads. A missing waveform never
+      // fails the upload.
+      const waveform: Promise<WaveformData | null> = item.fileType === 'audio'
+        ? computeWaveform(item.file, controllers.abort.signal).catch((error) => {
+          if (!isAbortError(error)) console.warn('Could not compute waveform:', error)
+          return null
+        })
+        : Promise.resolve(null)
+
+      let duration: number | undefined
+      try {
+        duration = await getMediaDuration(item.file, item.fileType)
+      } catch (error) {
+        console.warn('Could not get media duration:', error)
+      }
+
+      // Replacing a file keeps the existing mix's cover and thumbnail
+      if (item.cover && !item.replaceMixId) {
+        coverPath = await uploadCoverArt(userId, item.cover)
+      }
+      if (item.thumbnail && item.fileType === 'video' && !item.replaceMixId) {
+        thumbnailPath = await uploadThumbnail(userId, item.thumbnail)
+      }
+
+      const mixDraft: MixDraft = {
+        title: item.title.trim(),
+        description: item.description.trim() || null,
+        file_type: item.fileType,
+        mime_type: item.mimeType,
+        duration,
+        is_public: item.isPublic,
+        artist: item.artist.trim() || null,
+        genre: item.genre.trim() || null,
+        year: parseNumberField(item.year),
+        bpm: parseNumberField(item.bpm),
+        comment: item.comment.trim() || null,
+        cover_path: coverPath,
+        thumbnail_url: thumbnailPath,
+      }
+
+      const mix = await uploadFile(item.file, buildFilePath(userId, item.file), mixDraft, (progress, stats) => {
+        // Requests still in flight when the user pauses keep reporting progress
+        setItemUpload(item.id, prev => ({
+          progress,
+          status: prev.status === 'paused' ? 'paused' : 'uploading',
+          stats,
+        }))
+      }, {
+        signal: controllers.abort.signal,
+        pause: controllers.pause,
+        fileHash: contentHash,
+        replaceMixId: item.replaceMixId,
+      })
+
+      const peaks = await waveform
+      if (peaks) {
+        await saveWaveform(mix.id, mix.file_path, peaks).catch((error) => {
+          console.warn('Could not save waveform:', error)
+        })
+      }
+      if (item.tracks?.length) {
+        await saveTracklist(mix.id, item.tracks).catch((error) => {
+          console.warn('Could not save tracklist:', error)
+        })
+      }
+
+      setItemUpload(item.id, () => ({ progress: 100, status: 'success' }))
+      setCompletedCount(count => count + 1)
+      toast.success(item.replaceMixId ? `Replaced the file of ${mixDraft.title}` : `Uploaded ${mixDraft.title}`)
+    } catch (error) {
+      if (coverPath) {
+        removeCoverArt(coverPath)
+      }
+      if (thumbnailPath) {
+        removeStoredImages([thumbnailPath])
+      }
+
+      // cancelItem has already reset the item
+      if (isAbortError(error)) return
+
+      const errorMessage = error instanceof Error ? error.message : 'Upload failed'
+      setItemUpload(item.id, () => ({ progress: 0, status: 'error', error: errorMessage }))
+      toast.error(`Upload of ${item.title} failed: ${errorMessage}`)
+    } finally {
+      // A cancelled item may already have been restarted with new controllers
+      if (controllersRef.current.get(item.id) === controllers) {
+        controllersRef.current.delete(item.id)
+      }
+    }
+  }, [setItem, setItemUpload])
+
+  // Start queued items in order while fewer than UPLOAD_CONCURRENCY files are
+  // in progress. Their requests share the same number of slots in lib/upload.
+  useEffect(() => {
+    if (!user) return
+
+    const running = items.filter(item => ['hashing', 'uploading', 'paused'].includes(item.upload.status))
+    const toStart = items
+      .filter(item => item.upload.status === 'queued' && !controllersRef.current.has(item.id))
+      .slice(0, Math.max(0, UPLOAD_CONCURRENCY - running.length))
+
+    if (toStart.length === 0) return
+
+    const startIds = new Set(toStart.map(item => item.id))
+    setItems(prev => prev.map(item => startIds.has(item.id)
+      ? { ...item, upload: { progress: 0, status: 'hashing' } }
+      : item))
+    toStart.forEach(item => runUpload(item, user.id))
+  }, [items, user, runUpload])
+
+  const addFiles = (files: UploadQueueFile[], fields: Partial<UploadQueueItemFields> = {}) => {
+    const newItems = files.map(({ file, fileType, mimeType, tags = {} }): UploadQueueItem => ({
+      id: `${Date.now()}-${Math.random().toString(36).substring(2, 10)}`,
+      file,
+      fileType,
+      mimeType,
+      title: tags.title || titleFromFileName(file.name),
+      description: '',
+      isPublic: true,
+      artist: tags.artist || '',
+      genre: tags.genre || '',
+      year: tags.year ? String(tags.year) : '',
+      bpm: tags.bpm ? String(tags.bpm) : '',
+      comment: tags.comment || '',
+      cover: tags.picture,
+      ...fields,
+      upload: { progress: 0, status: 'idle' },
+    }))
+    setItems(prev => [...prev, ...newItems])
+  }
+
+  // Edits apply to items that have not started uploading yet
+  const updateItems = (ids: string[], fields: Partial<UploadQueueItemFields>) => {
+    const editable = new Set(ids)
+    setItems(prev => prev.map(item =>
+      editable.has(item.id) && (item.upload.status === 'idle' || item.upload.status === 'error')
+        ? { ...item, ...fields }
+        : item))
+  }
+
+  const moveItem = (id: string, offset: -1 | 1) => {
+    setItems(prev => {
+      const index = prev.findIndex(item => item.id === id)
+      const target = index + offset
+      if (index < 0 || target < 0 || target >= prev.length) return prev
+      const next = [...prev]
+      const [moved] = next.splice(index, 1)
+      next.splice(target, 0, moved)
+      return next
+    })
+  }
+
+  const cancelItem = (id: string) => {
+    controllersRef.current.get(id)?.abort.abort()
+    controllersRef.current.delete(id)
+    setItemUpload(id, () => ({ progress: 0, status: 'idle' }))
+  }
+
+  const removeItem = (id: string) => {
+    controllersRef.current.get(id)?.abort.abort()
+    controllersRef.current.delete(id)
+    setItems(prev => prev.filter(item => item.id !== id))
+  }
+
+  const startUploads = (ids: string[]) => {
+    const startable = new Set(ids)
+    setItems(prev => prev.map(item =>
+      startable.has(item.id) && item.title.trim() && (item.upload.status === 'idle' || item.upload.status === 'error')
+        ? { ...item, upload: { progress: 0, status: 'queued' } }
+        : item))
+  }
+
+  const pauseItem = (id: string) => {
+    controllersRef.current.get(id)?.pause.pause()
+    setItemUpload(id, prev => prev.status === 'uploading' ? { ...prev, status: 'paused' } : prev)
+  }
+
+  const resumeItem = (id: string) => {
+    controllersRef.current.get(id)?.pause.resume()
+    setItemUpload(id, prev => prev.status === 'paused' ? { ...prev, status: 'uploading' } : prev)
+  }
+
+  const clearFinished = () => {
+    setItems(prev => prev.filter(item => item.upload.status !== 'success'))
+  }
+
+  const uploadAnyway = (id: string) => {
+    setItems(prev => prev.map(item => item.id === id && item.upload.status === 'duplicate'
+      ? { ...item, allowDuplicate: true, upload: { progress: 0, status: 'queued' } }
+      : item))
+  }
+
+  const replaceMixFile = (id: string, mixId: string) => {
+    setItems(prev => prev.map(item => item.id === id && item.upload.status === 'duplicate'
+      ? { ...item, replaceMixId: mixId, upload: { progress: 0, status: 'queued' } }
+      : item))
+  }
+
+  const value = {
+    items,
+    activeCount: items.filter(item => ACTIVE_STATUSES.includes(item.upload.status)).length,
+    completedCount,
+    addFiles,
+    updateItems,
+    moveItem,
+    removeItem,
+    startUploads,
+    pauseItem,
+    resumeItem,
+    cancelItem,
+    clearFinished,
+    uploadAnyway,
+    replaceMixFile,
+  }
+
+  return <UploadQueueContext.Provider value={value}>{children}</UploadQueueContext.Provider>
+}
@@ -0,0 +1,24 @@
+// Helpers for reading binary headers out of media files
+
+export const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length))
+
+export const readBytes = async (file: Blob, start: number, length: number) =>
+  new Uint8Array(await file.slice(start, start + length).arrayBuffer())
+
+export const uint16BE = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] << 8) | bytes[offset + 1]
+
+export const uint24BE = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] << 16) | (bytes[offset + 1] << 8) | bytes[offset + 2]
+
+export const uint32BE = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0
+
+export const uint32LE = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset + 3] << 24) | (bytes[offset + 2] << 16) | (bytes[offset + 1] << 8) | bytes[offset]) >>> 0
+
+// 28 bit integer stored in four bytes with the top bit of each cleared, as
+// used for ID3v2 sizes
+export const syncsafe32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] & 0x7f) << 21) | ((bytes[offset + 1] & 0x7f) << 14) | ((bytes[offset + 2] & 0x7f) << 7) | (bytes[offset + 3] & 0x7f)
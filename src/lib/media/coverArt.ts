@@ -0,0 +1,191 @@
+import { supabase, STORAGE_BUCKET } from '../supabase'
+import { getSignedUrls } from '../signedUrls'
+import { createCanvas, encodeCanvas, encodeLossless } from './images'
+import { MusicMix } from '../../types'
+
+// Signed image URLs stay valid for as long as a page is likely to be open
+const IMAGE_URL_TTL = 60 * 60
+
+// Every cover is stored as a square at each of these sizes, smallest first.
+// Sizes larger than the source image keep the source's size.
+export const COVER_SIZES = [128, 512, 1024]
+const COVER_QUALITY = 0.85
+
+// Largest image accepted from the cover picker
+export const COVER_MAX_FILE_SIZE = 20 * 1024 * 1024
+export const COVER_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp']
+
+// Square part of an image to keep, in the image's own pixels
+export interface SquareCrop {
+  x: number
+  y: number
+  size: number
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+}
+
+const uniqueName = () => `${Date.now()}-${Math.random().toString(36).substring(2, 15)}`
+
+const storeImage = async (imagePath: string, image: Blob) => {
+  const { error } = await supabase.storage
+    .from(STORAGE_BUCKET)
+    .upload(imagePath, image, {
+      cacheControl: '86400',
+      contentType: image.type || 'image/jpeg',
+      upsert: false,
+    })
+
+  if (error) throw error
+}
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error)
+
+export const centerCrop = (width: number, height: number): SquareCrop => {
+  const size = Math.min(width, height)
+  return { x: (width - size) / 2, y: (height - size) / 2, size }
+}
+
+// Draw the cropped square of an image at each size, never larger than the
+// square itself; a missing crop keeps the centre
+const renderSquares = async (
+  image: Blob,
+  sizes: number[],
+  { crop, encode = canvas => encodeCanvas(canvas, COVER_QUALITY) }: {
+    crop?: SquareCrop
+    encode?: (canvas: HTMLCanvasElement) => Promise<Blob>
+  } = {}
+) => {
+  const bitmap = await createImageBitmap(image).catch(() => {
+    throw new Error('The cover image could not be read')
+  })
+  try {
+    const area = crop ?? centerCrop(bitmap.width, bitmap.height)
+    const squares: Blob[] = []
+    for (const size of sizes) {
+      const side = Math.max(1, Math.min(size, Math.round(area.size)))
+      const { canvas, context } = createCanvas(side, side)
+      context.drawImage(bitmap, area.x, area.y, area.size, area.size, 0, 0, side, side)
+      squares.push(await encode(canvas))
+    }
+    return squares
+  } finally {
+    bitmap.close()
+  }
+}
+
+// Crop an image picked by the user to the square that will become its
+// cover. The square is kept lossless, as uploadCoverArt encodes it again.
+export const cropCoverImage = async (image: Blob, crop: SquareCrop) => {
+  const [square] = await renderSquares(image, [COVER_SIZES[COVER_SIZES.length - 1]], { crop, encode: encodeLossless })
+  return square
+}
+
+// Covers are stored as `covers/<id>/<size>.<ext>`; cover_path points at the
+// largest variant. Covers saved before variants existed are a single file.
+const COVER_VARIANT_PATTERN = /^(.*\/covers\/[^/]+)\/\d+\.(webp|jpg)$/
+
+export const coverVariantPaths = (coverPath: string) => {
+  const match = coverPath.match(COVER_VARIANT_PATTERN)
+  return match ? COVER_SIZES.map(size => `${match[1]}/${size}.${match[2]}`) : [coverPath]
+}
+
+// Store a cover at every size in COVER_SIZES and return the path of the
+// largest
+export const uploadCoverArt = async (userId: string, image: Blob): Promise<string> => {
+  const variants = await renderSquares(image, COVER_SIZES)
+  const folder = `${userId}/covers/${uniqueName()}`
+  const extension = IMAGE_EXTENSIONS[variants[0].type]
+  const paths = COVER_SIZES.map(size => `${folder}/${size}.${extension}`)
+
+  const results = await Promise.allSettled(variants.map((variant, index) => storeImage(paths[index], variant)))
+  const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected')
+  if (failure) {
+    await removeStoredImages(paths)
+    throw new Error(`Cover upload failed: ${errorMessage(failure.reason)}`)
+  }
+
+  return paths[paths.length - 1]
+}
+
+// Store the poster frame of a video and return its path
+export const uploadThumbnail = async (userId: string, image: Blob): Promise<string> => {
+  const thumbnailPath = `${userId}/thumbnails/${uniqueName()}.${IMAGE_EXTENSIONS[image.type] || 'jpg'}`
+  try {
+    await storeImage(thumbnailPath, image)
+  } catch (error) {
+    throw new Error(`Thumbnail upload failed: ${errorMessage(error)}`)
+  }
+  return thumbnailPath
+}
+
+export const removeStoredImages = async (imagePaths: string[]) => {
+  if (imagePaths.length === 0) return
+  const { error } = await supabase.storage.from(STORAGE_BUCKET).remove(imagePaths)
+  if (error) {
+    console.warn('Failed to remove images:', error)
+  }
+}
+
+export const removeCoverArt = (coverPath: string) => removeStoredImages(coverVariantPaths(coverPath))
+
+// Swap the cover of an existing mix and return the mix with its new image
+// URLs
+export const updateMixCover = async (mix: MusicMix, image: Blob): Promise<MusicMix> => {
+  const coverPath = await uploadCoverArt(mix.user_id, image)
+
+  const { data, error } = await supabase
+    .from('music_mixes')
+    .update({ cover_path: coverPath })
+    .eq('id', mix.id)
+    .select()
+    .single()
+
+  if (error) {
+    await removeCoverArt(coverPath)
+    throw new Error(`Failed to save cover: ${error.message}`)
+  }
+
+  if (mix.cover_path) {
+    await removeCoverArt(mix.cover_path)
+  }
+
+  const [updated] = await withImageUrls([data as MusicMix])
+  return updated
+}
+
+// thumbnail_url holds a storage path; older rows may hold a full URL
+const isStoragePath = (path: string | undefined): path is string => !!path && !/^https?:\/\//.test(path)
+
+// Fill in coverUrl, coverSrcSet and thumbnailUrl for mixes that have those
+// images, signing all paths together
+export const withImageUrls = async (mixes: MusicMix[]): Promise<MusicMix[]> => {
+  const paths = [...new Set(mixes
+    .flatMap(mix => [...(mix.cover_path ? coverVariantPaths(mix.cover_path) : []), mix.thumbnail_url])
+    .filter(isStoragePath))]
+
+  const urls = await getSignedUrls(paths, IMAGE_URL_TTL)
+  if (urls.size < paths.length) {
+    console.warn(`Failed to sign ${paths.length - urls.size} image URLs`)
+  }
+
+  const resolve = (path: string | undefined) => isStoragePath(path) ? urls.get(path) : path
+
+  // srcset entries for covers stored at several sizes
+  const srcSet = (coverPath: string | undefined) => {
+    const variants = coverPath ? coverVariantPaths(coverPath) : []
+    if (variants.length < 2 || !variants.every(path => urls.has(path))) return undefined
+    return variants.map((path, index) => `${urls.get(path)} ${COVER_SIZES[index]}w`).join(', ')
+  }
+
+  return mixes.map(mix => ({
+    ...mix,
+    coverUrl: resolve(mix.cover_path),
+    coverSrcSet: srcSet(mix.cover_path),
+    thumbnailUrl: resolve(mix.thumbnail_url),
+  }))
+}
@@ -0,0 +1,36 @@
+// Read the duration of an audio or video file, in whole seconds
+export const getMediaDuration = (
+  file: File,
+  fileType: 'audio' | 'video' = file.type.startsWith('video/') ? 'video' : 'audio'
+): Promise<number> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file)
+    const media = fileType === 'video'
+      ? document.createElement('video')
+      : document.createElement('audio')
+    
+    const cleanup = () => {
+      URL.revokeObjectURL(url)
+      media.remove()
+    }
+    
+    media.onloadedmetadata = () => {
+      const duration = Math.floor(media.duration)
+      cleanup()
+      resolve(duration)
+    }
+    
+    media.onerror = () => {
+      cleanup()
+      reject(new Error('Could not load media'))
+    }
+    
+    setTimeout(() => {
+      cleanup()
+      reject(new Error('Timeout loading media'))
+    }, 10000)
+    
+    media.src = url
+    media.load()
+  })
+}
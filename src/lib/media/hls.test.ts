@@ -0,0 +1,36 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { pickStreamMode } from './hls'
+
+const signedMaster = 'http://localhost:54321/storage/v1/object/sign/music-mixes/user/hls/1/master.m3u8?token=abc'
+
+// jsdom has no MediaSource, so hls.js reports itself unsupported, as on
+// iOS Safari
+describe('pickStreamMode without MediaSource', () => {
+  beforeEach(() => {
+    vi.spyOn(HTMLMediaElement.prototype, 'canPlayType').mockImplementation(type =>
+      type === 'application/vnd.apple.mpegurl' ? 'maybe' : ''
+    )
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('plays the file when there is no stream', () => {
+    expect(pickStreamMode(null)).toBe('file')
+  })
+
+  it('plays the file for renditions in storage, whose segments need signing', () => {
+    expect(pickStreamMode(signedMaster)).toBe('file')
+  })
+
+  it('lets the browser play playlists from elsewhere', () => {
+    expect(pickStreamMode('https://cdn.example.com/live/master.m3u8')).toBe('native')
+  })
+
+  it('plays the file in browsers without HLS support', () => {
+    vi.mocked(HTMLMediaElement.prototype.canPlayType).mockReturnValue('')
+    expect(pickStreamMode('https://cdn.example.com/live/master.m3u8')).toBe('file')
+  })
+})
@@ -0,0 +1,89 @@
+import Hls, { ErrorTypes, Level } from 'hls.js'
+import { STORAGE_BUCKET, STORAGE_OBJECT_ENDPOINT } from '../supabase'
+import { getSignedUrl, getSignedUrls } from '../signedUrls'
+import { PlaybackErrorKind } from '../player/playbackErrors'
+import { MusicMix } from '../../types'
+
+// HLS renditions of video mixes, written by workers/transcode-hls: a master
+// playlist at `${hls_path}/master.m3u8` and a folder of segments per rung
+
+// How the player streams a video: through hls.js, through the browser's
+// own HLS support, or from the original file
+export type StreamMode = 'hlsjs' | 'native' | 'file'
+
+export interface QualityLevel {
+  // Index into the hls.js level list
+  index: number
+  height: number
+  bitrate: number
+}
+
+const SIGNED_OBJECT_PREFIX = `${STORAGE_OBJECT_ENDPOINT}/sign/${STORAGE_BUCKET}/`
+
+export const hlsMasterPath = (mix: MusicMix) =>
+  mix.file_type === 'video' && mix.hls_status === 'ready' && mix.hls_path
+    ? `${mix.hls_path}/master.m3u8`
+    : null
+
+const isStorageObjectUrl = (url: string) => url.startsWith(SIGNED_OBJECT_PREFIX)
+
+const isUnsignedObjectUrl = (url: string) =>
+  isStorageObjectUrl(url) && !new URL(url).searchParams.has('token')
+
+// Safari plays HLS itself, but fetches the playlists and segments a master
+// playlist leads to without our help. Those name each other by relative,
+// unsigned URLs, so only playlists from outside our storage can be played
+// this way; renditions in storage fall back to the original file.
+const supportsNativeHls = (url: string) =>
+  !isStorageObjectUrl(url) &&
+  document.createElement('video').canPlayType('application/vnd.apple.mpegurl') !== ''
+
+export const pickStreamMode = (hlsUrl: string | null | undefined): StreamMode => {
+  if (!hlsUrl) return 'file'
+  if (Hls.isSupported()) return 'hlsjs'
+  return supportsNativeHls(hlsUrl) ? 'native' : 'file'
+}
+
+const objectPath = (url: string) =>
+  decodeURIComponent(new URL(url).pathname.slice(new URL(SIGNED_OBJECT_PREFIX).pathname.length))
+
+// Playlists name their segments relative to themselves, so everything a
+// signed master playlist leads to arrives without a token. Each request is
+// signed on its way out; the segments of a rendition are signed together
+// as soon as its playlist loads, so those are usually cached by then.
+export const createHlsPlayer = () => {
+  const hls = new Hls({
+    xhrSetup: async (xhr, url) => {
+      if (isUnsignedObjectUrl(url)) {
+        xhr.open('GET', await getSignedUrl(objectPath(url)), true)
+      }
+    },
+  })
+  hls.on(Hls.Events.LEVEL_LOADED, (_, { details }) => {
+    const paths = details.fragments.map(fragment => fragment.url).filter(isUnsignedObjectUrl).map(objectPath)
+    getSignedUrls(paths)
+  })
+  return hls
+}
+
+// Renditions by height, tallest first
+export const qualityLevels = (levels: Level[]): QualityLevel[] =>
+  levels
+    .map((level, index) => ({ index, height: level.height, bitrate: level.bitrate }))
+    .sort((a, b) => b.height - a.height || b.bitrate - a.bitrate)
+
+export const qualityLabel = (level: QualityLevel) =>
+  level.height ? `${level.height}p` : `${Math.round(level.bitrate / 1000)} kbps`
+
+// hls.js signs every request itself, so its failures never mean an
+// expired URL
+export const hlsErrorKind = (type: ErrorTypes): PlaybackErrorKind => {
+  switch (type) {
+    case Hls.ErrorTypes.MEDIA_ERROR:
+      return 'decode'
+    case Hls.ErrorTypes.NETWORK_ERROR:
+      return 'network'
+    default:
+      return 'unsupported'
+  }
+}
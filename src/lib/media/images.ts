@@ -0,0 +1,33 @@
+// Canvas helpers shared by thumbnails and cover art
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality: number) =>
+  new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, quality))
+
+// Encode as WebP, or as JPEG in browsers that cannot write WebP and hand
+// back a PNG instead
+export const encodeCanvas = async (canvas: HTMLCanvasElement, quality: number): Promise<Blob> => {
+  const webp = await canvasToBlob(canvas, 'image/webp', quality)
+  if (webp?.type === 'image/webp') return webp
+
+  const jpeg = await canvasToBlob(canvas, 'image/jpeg', quality)
+  if (!jpeg) throw new Error('Could not encode image')
+  return jpeg
+}
+
+// Encode as PNG, for images that are encoded again later
+export const encodeLossless = async (canvas: HTMLCanvasElement): Promise<Blob> => {
+  const png = await canvasToBlob(canvas, 'image/png', 1)
+  if (!png) throw new Error('Could not encode image')
+  return png
+}
+
+export const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('Canvas is not supported')
+  context.imageSmoothingQuality = 'high'
+  return { canvas, context }
+}
@@ -0,0 +1,66 @@
+// Waveform peaks in a format modelled on audiowaveform's JSON output
+// (https://github.com/bbc/audiowaveform/blob/master/doc/DataFormat.md),
+// extended to hold several zoom levels in one file
+
+export interface WaveformResolution {
+  samples_per_pixel: number
+  // Number of points; data holds a min and a max value for each
+  length: number
+  data: number[]
+}
+
+export interface WaveformData {
+  version: 2
+  channels: 1
+  sample_rate: number
+  bits: 8
+  // Ordered from fewest to most points
+  resolutions: WaveformResolution[]
+}
+
+// Point counts of the stored resolutions: a card preview, the player on
+// small screens and the player at full width
+export const WAVEFORM_LENGTHS = [96, 1024, 4096]
+
+// Min/max of the channels' average for each group of samples, scaled to
+// signed 8 bit values
+const peaksAt = (channels: Float32Array[], samplesPerPixel: number): WaveformResolution => {
+  const totalSamples = channels[0]?.length ?? 0
+  const length = Math.ceil(totalSamples / samplesPerPixel)
+  const data = new Array<number>(length * 2)
+
+  for (let point = 0; point < length; point++) {
+    const start = point * samplesPerPixel
+    const end = Math.min(start + samplesPerPixel, totalSamples)
+    let min = 0
+    let max = 0
+    for (let i = start; i < end; i++) {
+      let sample = 0
+      for (const channel of channels) sample += channel[i]
+      sample /= channels.length
+      if (sample < min) min = sample
+      if (sample > max) max = sample
+    }
+    data[point * 2] = Math.max(-128, Math.round(min * 128))
+    data[point * 2 + 1] = Math.min(127, Math.round(max * 127))
+  }
+
+  return { samples_per_pixel: samplesPerPixel, length, data }
+}
+
+export const buildWaveform = (channels: Float32Array[], sampleRate: number): WaveformData => {
+  const totalSamples = channels[0]?.length ?? 0
+  return {
+    version: 2,
+    channels: 1,
+    sample_rate: sampleRate,
+    bits: 8,
+    resolutions: WAVEFORM_LENGTHS.map(points =>
+      peaksAt(channels, Math.max(1, Math.ceil(totalSamples / points)))),
+  }
+}
+
+// The coarsest resolution that still has a point per pixel, or the finest
+export const pickResolution = (waveform: WaveformData, pixels: number) =>
+  waveform.resolutions.find(resolution => resolution.length >= pixels) ??
+  waveform.resolutions[waveform.resolutions.length - 1]
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest'
+import { detectFormat, validateMediaFile } from './sniff'
+
+// Header fixtures, padded with zeros to a realistic length
+const header = (...parts: (string | number[])[]) => {
+  const bytes = parts.flatMap(part => (typeof part === 'string' ? [...part].map(c => c.charCodeAt(0)) : part))
+  return new Uint8Array([...bytes, ...new Array(64).fill(0)])
+}
+
+const uint32 = (value: number) => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]
+
+const ftyp = (major: string, compatible: string[]) =>
+  header(uint32(16 + compatible.length * 4), 'ftyp', major, [0, 0, 0, 0], compatible.join(''))
+
+// ID3v2.4 tag of `size` bytes after its header, without a footer
+const id3 = (size: number) => [
+  ...'ID3'.split('').map(c => c.charCodeAt(0)), 4, 0, 0,
+  (size >> 21) & 0x7f, (size >> 14) & 0x7f, (size >> 7) & 0x7f, size & 0x7f,
+  ...new Array(size).fill(0x20),
+]
+
+const MP3_FRAME = [0xff, 0xfb, 0x90, 0x64]
+const ADTS_FRAME = [0xff, 0xf1, 0x50, 0x80]
+
+const file = (bytes: Uint8Array, name: string, type = '') => new File([bytes], name, { type })
+
+describe('detectFormat', () => {
+  it.each([
+    ['mp3', header(MP3_FRAME)],
+    ['aac', header(ADTS_FRAME)],
+    ['flac', header('fLaC')],
+    ['wav', header('RIFF', uint32(0), 'WAVE')],
+    ['avi', header('RIFF', uint32(0), 'AVI ')],
+    ['ogg', header('OggS')],
+    ['m4a', ftyp('M4A ', ['M4A ', 'mp42', 'isom'])],
+    ['mp4', ftyp('isom', ['isom', 'iso2', 'avc1', 'mp41'])],
+    ['mov', ftyp('qt  ', ['qt  '])],
+    ['mov', header(uint32(8), 'moov')],
+    ['webm', header([0x1a, 0x45, 0xdf, 0xa3, 0x9f, 0x42, 0x82, 0x84], 'webm')],
+    ['mkv', header([0x1a, 0x45, 0xdf, 0xa3, 0x9f, 0x42, 0x82, 0x88], 'matroska')],
+  ])('recognises %s', (format, bytes) => {
+    expect(detectFormat(bytes)).toBe(format)
+  })
+
+  it('reads audio brands from the compatible brands', () => {
+    expect(detectFormat(ftyp('mp42', ['isom', 'M4A ']))).toBe('m4a')
+  })
+
+  it('ignores brands past the end of the ftyp atom', () => {
+    const bytes = header(uint32(16), 'ftyp', 'isom', [0, 0, 0, 0], 'M4A ')
+    expect(detectFormat(bytes)).toBe('mp4')
+  })
+
+  it('rejects RIFF files of other forms', () => {
+    expect(detectFormat(header('RIFF', uint32(0), 'WEBP'))).toBeNull()
+  })
+
+  it('rejects a truncated header', () => {
+    expect(detectFormat(new Uint8Array([0x52, 0x49, 0x46]))).toBeNull()
+    expect(detectFormat(new Uint8Array([0xff]))).toBeNull()
+  })
+
+  it('rejects random bytes', () => {
+    const bytes = new Uint8Array(256).map((_, i) => (i * 73 + 41) % 251)
+    expect(detectFormat(bytes)).toBeNull()
+  })
+})
+
+describe('validateMediaFile', () => {
+  it('accepts a file whose name matches its content', async () => {
+    const result = await validateMediaFile(file(header(MP3_FRAME), 'set.mp3'))
+    expect(result).toEqual({ valid: true, media: { format: 'mp3', fileType: 'audio', mimeType: 'audio/mpeg' } })
+  })
+
+  it('skips an ID3v2 tag to find an MP3 frame', async () => {
+    const result = await validateMediaFile(file(new Uint8Array([...id3(100), ...MP3_FRAME]), 'set.mp3'))
+    expect(result.valid && result.media.format).toBe('mp3')
+  })
+
+  it('allows zero padding the tag does not count', async () => {
+    const result = await validateMediaFile(file(new Uint8Array([...id3(20), 0, 0, 0, ...MP3_FRAME]), 'set.mp3'))
+    expect(result.valid && result.media.format).toBe('mp3')
+  })
+
+  it('finds AAC behind an ID3v2 tag', async () => {
+    const result = await validateMediaFile(file(new Uint8Array([...id3(20), ...ADTS_FRAME]), 'set.aac'))
+    expect(result.valid && result.media.format).toBe('aac')
+  })
+
+  it('rejects an ID3v2 tag followed by anything but audio frames', async () => {
+    const garbage = [...'PK'.split('').map(c => c.charCodeAt(0)), 3, 4, 20, 0, 0, 0]
+    const result = await validateMediaFile(file(new Uint8Array([...id3(20), ...garbage]), 'set.mp3'))
+    expect(result.valid).toBe(false)
+  })
+
+  it('rejects an ID3v2 tag with nothing after it', async () => {
+    const result = await validateMediaFile(file(new Uint8Array(id3(20)), 'set.mp3'))
+    expect(result.valid).toBe(false)
+  })
+
+  it('accepts an .m4a with only generic brands as audio', async () => {
+    const result = await validateMediaFile(file(ftyp('isom', ['isom', 'iso2', 'mp41']), 'set.m4a'))
+    expect(result).toEqual({ valid: true, media: { format: 'm4a', fileType: 'audio', mimeType: 'audio/mp4' } })
+  })
+
+  it('treats an .mp4 with generic brands as video', async () => {
+    const result = await validateMediaFile(file(ftyp('mp42', ['mp42', 'isom']), 'set.mp4'))
+    expect(result.valid && result.media.fileType).toBe('video')
+  })
+
+  it('treats WebM the browser calls audio as audio', async () => {
+    const bytes = header([0x1a, 0x45, 0xdf, 0xa3, 0x9f, 0x42, 0x82, 0x84], 'webm')
+    const result = await validateMediaFile(file(bytes, 'set.webm', 'audio/webm'))
+    expect(result.valid && result.media).toEqual({ format: 'webm', fileType: 'audio', mimeType: 'audio/webm' })
+  })
+
+  it('rejects Ogg video', async () => {
+    const page = [...'OggS'.split('').map(c => c.charCodeAt(0)), ...new Array(22).fill(0), 1, 42]
+    const bytes = new Uint8Array([...page, 0x80, ...'theora'.split('').map(c => c.charCodeAt(0)), ...new Array(40).fill(0)])
+    expect((await validateMediaFile(file(bytes, 'set.ogg'))).valid).toBe(false)
+  })
+
+  it('rejects a known extension that does not match the content', async () => {
+    const result = await validateMediaFile(file(header('RIFF', uint32(0), 'WAVE'), 'set.mp3'))
+    expect(result).toEqual({
+      valid: false,
+      reason: 'The file is named .mp3 but contains WAV data. Rename it or export it again.',
+    })
+  })
+
+  it('does not check unknown extensions', async () => {
+    const result = await validateMediaFile(file(header('fLaC'), 'set.bin'))
+    expect(result.valid && result.media.format).toBe('flac')
+  })
+
+  it('rejects a truncated header', async () => {
+    expect((await validateMediaFile(file(new Uint8Array([0x66, 0x4c]), 'set.flac'))).valid).toBe(false)
+  })
+
+  it('rejects random bytes', async () => {
+    const bytes = new Uint8Array(4096).map((_, i) => (i * 73 + 41) % 251)
+    expect((await validateMediaFile(file(bytes, 'set.mp3'))).valid).toBe(false)
+  })
+
+  it('rejects an empty file', async () => {
+    expect(await validateMediaFile(file(new Uint8Array(), 'set.mp3'))).toEqual({ valid: false, reason: 'The file is empty' })
+  })
+})
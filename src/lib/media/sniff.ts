@@ -0,0 +1,223 @@
+import { ascii, readBytes, syncsafe32, uint32BE } from './bytes'
+
+// Identify audio and video containers from their leading bytes, so uploads
+// are checked by content rather than by the browser's guess from the name
+
+// Largest file accepted for upload
+export const MAX_UPLOAD_SIZE = 2 * 1024 * 1024 * 1024
+
+// Bytes read from the start of a file; enough for every signature below
+const HEADER_SIZE = 4 * 1024
+
+export type MediaFormat =
+  | 'mp3'
+  | 'aac'
+  | 'flac'
+  | 'wav'
+  | 'ogg'
+  | 'm4a'
+  | 'mp4'
+  | 'mov'
+  | 'webm'
+  | 'mkv'
+  | 'avi'
+
+export interface DetectedMedia {
+  format: MediaFormat
+  fileType: 'audio' | 'video'
+  mimeType: string
+}
+
+export type MediaValidation =
+  | { valid: true; media: DetectedMedia }
+  | { valid: false; reason: string }
+
+interface FormatInfo {
+  label: string
+  fileType: 'audio' | 'video'
+  mimeType: string
+  // File extensions this container is commonly saved with
+  extensions: string[]
+}
+
+const FORMATS: Record<MediaFormat, FormatInfo> = {
+  mp3: { label: 'MP3', fileType: 'audio', mimeType: 'audio/mpeg', extensions: ['mp3', 'mpga'] },
+  aac: { label: 'AAC', fileType: 'audio', mimeType: 'audio/aac', extensions: ['aac', 'adts'] },
+  flac: { label: 'FLAC', fileType: 'audio', mimeType: 'audio/flac', extensions: ['flac'] },
+  wav: { label: 'WAV', fileType: 'audio', mimeType: 'audio/wav', extensions: ['wav', 'wave'] },
+  ogg: { label: 'Ogg', fileType: 'audio', mimeType: 'audio/ogg', extensions: ['ogg', 'oga', 'opus'] },
+  m4a: { label: 'M4A', fileType: 'audio', mimeType: 'audio/mp4', extensions: ['m4a', 'm4b', 'mp4', 'aac'] },
+  mp4: { label: 'MP4', fileType: 'video', mimeType: 'video/mp4', extensions: ['mp4', 'm4v', 'mov'] },
+  mov: { label: 'QuickTime', fileType: 'video', mimeType: 'video/quicktime', extensions: ['mov', 'qt', 'mp4'] },
+  webm: { label: 'WebM', fileType: 'video', mimeType: 'video/webm', extensions: ['webm', 'weba'] },
+  mkv: { label: 'Matroska', fileType: 'video', mimeType: 'video/x-matroska', extensions: ['mkv', 'mka', 'webm'] },
+  avi: { label: 'AVI', fileType: 'video', mimeType: 'video/x-msvideo', extensions: ['avi'] },
+}
+
+// Every extension some supported container uses; other extensions are not
+// checked against the detected format
+const KNOWN_EXTENSIONS = new Set(Object.values(FORMATS).flatMap(info => info.extensions))
+
+// ftyp brands of MP4 files that carry only audio
+const AUDIO_MP4_BRANDS = ['M4A ', 'M4B ', 'M4P ', 'F4A ', 'F4B ']
+// Extensions that mark an MP4 file with only generic brands, such as isom
+// or mp42, as audio
+const AUDIO_MP4_EXTENSIONS = ['m4a', 'm4b']
+// Top level atoms that open QuickTime files written without an ftyp atom
+const QUICKTIME_ATOMS = ['moov', 'mdat', 'wide', 'free', 'skip', 'pnot']
+
+// Size of an ID3v2 tag including its header and optional footer
+export const id3TagSize = (bytes: Uint8Array) => {
+  const hasFooter = (bytes[5] & 0x10) !== 0
+  return 10 + syncsafe32(bytes, 6) + (hasFooter ? 10 : 0)
+}
+
+// MPEG audio frame or ADTS header. Both start with an 11 bit sync word; ADTS
+// uses 12 bits and always has the layer bits set to zero.
+const detectFrameSync = (bytes: Uint8Array): MediaFormat | null => {
+  if (bytes.length < 2 || bytes[0] !== 0xff || (bytes[1] & 0xe0) !== 0xe0) return null
+  if ((bytes[1] & 0xf6) === 0xf0) return 'aac'
+  const version = (bytes[1] >> 3) & 0x03
+  const layer = (bytes[1] >> 1) & 0x03
+  return version !== 0x01 && layer !== 0x00 ? 'mp3' : null
+}
+
+// Major brand followed by the compatible brands of an ftyp atom
+const ftypBrands = (bytes: Uint8Array) => {
+  const size = Math.min(uint32BE(bytes, 0), bytes.length)
+  const brands = [ascii(bytes, 8, 4)]
+  for (let offset = 16; offset + 4 <= size; offset += 4) {
+    brands.push(ascii(bytes, offset, 4))
+  }
+  return brands
+}
+
+// Read the EBML DocType to tell WebM from other Matroska files
+const detectMatroska = (bytes: Uint8Array): MediaFormat => {
+  for (let i = 4; i < bytes.length - 3; i++) {
+    if (bytes[i] === 0x42 && bytes[i + 1] === 0x82) {
+      const length = bytes[i + 2] & 0x7f
+      return ascii(bytes, i + 3, length) === 'webm' ? 'webm' : 'mkv'
+    }
+  }
+  return 'mkv'
+}
+
+// Identify the container from the bytes at the start of a file
+export const detectFormat = (bytes: Uint8Array): MediaFormat | null => {
+  if (bytes.length < 12) return detectFrameSync(bytes)
+
+  if (ascii(bytes, 0, 4) === 'fLaC') return 'flac'
+  if (ascii(bytes, 0, 4) === 'OggS') return 'ogg'
+
+  if (ascii(bytes, 0, 4) === 'RIFF') {
+    const form = ascii(bytes, 8, 4)
+    if (form === 'WAVE') return 'wav'
+    if (form === 'AVI ') return 'avi'
+    return null
+  }
+
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) {
+    return detectMatroska(bytes)
+  }
+
+  const atom = ascii(bytes, 4, 4)
+  if (atom === 'ftyp') {
+    const brands = ftypBrands(bytes)
+    if (brands[0] === 'qt  ') return 'mov'
+    return brands.some(brand => AUDIO_MP4_BRANDS.includes(brand)) ? 'm4a' : 'mp4'
+  }
+  if (QUICKTIME_ATOMS.includes(atom)) return 'mov'
+
+  return detectFrameSync(bytes)
+}
+
+// Ogg holds Vorbis, Opus or FLAC audio, but also Theora video, which the
+// player does not support. The first packet follows the 27 byte page header
+// and its segment table.
+const isOggVideo = (bytes: Uint8Array) => ascii(bytes, 27 + bytes[26], 7) === '\x80theora'
+
+// Some encoders pad the end of an ID3v2 tag with zeros it does not count
+const skipPadding = (bytes: Uint8Array) => {
+  let offset = 0
+  while (offset < bytes.length && bytes[offset] === 0) offset++
+  return bytes.subarray(offset)
+}
+
+const fileExtension = (fileName: string) => {
+  const dot = fileName.lastIndexOf('.')
+  return dot > 0 ? fileName.slice(dot + 1).toLowerCase() : ''
+}
+
+// Whether the browser's type or the name says a file holds audio, for
+// containers whose header cannot tell
+const claimsAudio = (file: Blob, audioExtensions: string[]) =>
+  file.type.startsWith('audio/') || (file instanceof File && audioExtensions.includes(fileExtension(file.name)))
+
+// Identify the container of a file. An ID3v2 tag is skipped first, since
+// MP3, AAC and FLAC files can all start with one; what follows the tag
+// must still be one of those.
+export const detectMediaContainer = async (file: Blob): Promise<DetectedMedia | null> => {
+  let bytes = await readBytes(file, 0, HEADER_SIZE)
+
+  let format: MediaFormat | null
+  if (ascii(bytes, 0, 3) === 'ID3' && bytes.length >= 10) {
+    bytes = skipPadding(await readBytes(file, id3TagSize(bytes), HEADER_SIZE))
+    format = detectFormat(bytes)
+    if (format !== 'mp3' && format !== 'aac' && format !== 'flac') return null
+  } else {
+    format = detectFormat(bytes)
+  }
+
+  if (!format) return null
+  if (format === 'ogg' && isOggVideo(bytes)) return null
+  if (format === 'mp4' && claimsAudio(file, AUDIO_MP4_EXTENSIONS)) format = 'm4a'
+
+  const info = FORMATS[format]
+  // WebM and Matroska may hold audio only; the header alone cannot tell
+  const fileType = (format === 'webm' || format === 'mkv') && claimsAudio(file, ['weba', 'mka'])
+    ? 'audio'
+    : info.fileType
+  const mimeType = fileType === info.fileType ? info.mimeType : info.mimeType.replace('video/', 'audio/')
+
+  return { format, fileType, mimeType }
+}
+
+// Check size and content of a file before it is queued for upload. The
+// container is read from the file itself; a name that claims a different
+// format is rejected.
+export const validateMediaFile = async (file: File): Promise<MediaValidation> => {
+  if (file.size === 0) {
+    return { valid: false, reason: 'The file is empty' }
+  }
+
+  if (file.size > MAX_UPLOAD_SIZE) {
+    return { valid: false, reason: 'File size must be less than 2GB' }
+  }
+
+  let media: DetectedMedia | null
+  try {
+    media = await detectMediaContainer(file)
+  } catch (error) {
+    console.warn('Could not read file header:', error)
+    return { valid: false, reason: 'The file could not be read' }
+  }
+
+  if (!media) {
+    return {
+      valid: false,
+      reason: 'Not a supported audio or video file. Please use MP3, WAV, FLAC, AAC, Ogg, MP4, MOV, AVI, WebM or MKV.',
+    }
+  }
+
+  const extension = fileExtension(file.name)
+  const info = FORMATS[media.format]
+  if (KNOWN_EXTENSIONS.has(extension) && !info.extensions.includes(extension)) {
+    return {
+      valid: false,
+      reason: `The file is named .${extension} but contains ${info.label} data. Rename it or export it again.`,
+    }
+  }
+
+  return { valid: true, media }
+}
@@ -0,0 +1,413 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { MediaTags, parseId3v2, readMediaTags } from './tags'
+
+type Part = string | number[] | Uint8Array
+
+// Strings are written one byte per character, so '©' is 0xA9 as in MP4 atoms
+const bytes = (...parts: Part[]) => new Uint8Array(parts.flatMap(part =>
+  typeof part === 'string' ? [...part].map(c => c.charCodeAt(0)) : [...part]))
+
+const utf8 = (text: string) => new TextEncoder().encode(text)
+
+const uint32BE = (value: number) => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]
+const uint32LE = (value: number) => uint32BE(value).reverse()
+const uint24BE = (value: number) => uint32BE(value).slice(1)
+const syncsafe = (value: number) => [(value >> 21) & 0x7f, (value >> 14) & 0x7f, (value >> 7) & 0x7f, value & 0x7f]
+
+const blob = (...parts: Part[]) => new Blob([bytes(...parts)])
+
+// --- ID3v2 fixtures ---
+
+type Id3Version = 2 | 3 | 4
+
+const frame = (version: Id3Version, id: string, data: Uint8Array, flags: number[] = [0, 0]) => {
+  if (version === 2) return bytes(id, uint24BE(data.length), data)
+  return bytes(id, version === 4 ? syncsafe(data.length) : uint32BE(data.length), flags, data)
+}
+
+const id3 = (version: Id3Version, frames: Uint8Array[], flags = 0) => {
+  const body = bytes(...frames)
+  return bytes('ID3', [version, 0, flags], syncsafe(body.length), body)
+}
+
+// Latin-1 text frame body, or UTF-8 in ID3v2.4
+const text = (value: string, encoding = 0) => bytes([encoding], encoding === 3 ? utf8(value) : value)
+
+const comment = (description: string, value: string) => bytes([0], 'eng', description, [0], value)
+
+const picture = (mimeType: string, pictureType: number, data: number[]) =>
+  bytes([0], mimeType, [0, pictureType], 'desc', [0], data)
+
+const pictureBytes = async (tags: MediaTags) => [...new Uint8Array(await tags.picture!.arrayBuffer())]
+
+// --- FLAC and Vorbis fixtures ---
+
+const vorbisComments = (entries: string[], count = entries.length) =>
+  bytes(uint32LE(6), 'vendor', uint32LE(count), ...entries.flatMap(entry => [uint32LE(utf8(entry).length), utf8(entry)]))
+
+const flacPicture = (mimeType: string, pictureType: number, data: number[]) =>
+  bytes(uint32BE(pictureType), uint32BE(mimeType.length), mimeType, uint32BE(0), new Array(16).fill(0), uint32BE(data.length), data)
+
+const flacBlock = (type: number, body: Uint8Array, last = false) =>
+  bytes([type | (last ? 0x80 : 0)], uint24BE(body.length), body)
+
+const flac = (...blocks: Uint8Array[]) => blob('fLaC', ...blocks)
+
+// One Ogg page holding whole packets, each shorter than 255 bytes
+const oggPage = (...packets: Uint8Array[]) =>
+  bytes('OggS', [0, 2], new Array(20).fill(0), [packets.length], packets.map(packet => packet.length), ...packets)
+
+// --- MP4 fixtures ---
+
+const box = (type: string, ...content: Part[]) => {
+  const body = bytes(...content)
+  return bytes(uint32BE(body.length + 8), type, body)
+}
+
+const item = (type: string, value: Part, dataType = 1) =>
+  box(type, box('data', uint32BE(dataType), [0, 0, 0, 0], value))
+
+const mp4 = (...items: Uint8Array[]) => blob(
+  box('ftyp', 'M4A ', [0, 0, 0, 0], 'M4A isom'),
+  box('moov', box('udta', box('meta', [0, 0, 0, 0], box('hdlr', new Array(25).fill(0)), box('ilst', ...items)))),
+  box('mdat', new Array(32).fill(0)),
+)
+
+// --- WAV fixtures ---
+
+const infoField = (id: string, value: string) => {
+  const data = bytes(value, [0])
+  return bytes(id, uint32LE(data.length), data, data.length % 2 ? [0] : [])
+}
+
+const wav = (...fields: Uint8Array[]) => {
+  const list = bytes('INFO', ...fields)
+  const chunks = bytes('fmt ', uint32LE(16), new Array(16).fill(0), 'LIST', uint32LE(list.length), list)
+  return blob('RIFF', uint32LE(chunks.length + 4), 'WAVE', chunks)
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('parseId3v2', () => {
+  it('reads the text frames of an ID3v2.3 tag', () => {
+    const tag = id3(3, [
+      frame(3, 'TIT2', text('Live at the Warehouse')),
+      frame(3, 'TPE1', text('DJ Example')),
+      frame(3, 'TCON', text('(18)')),
+      frame(3, 'TYER', text('2019')),
+      frame(3, 'TBPM', text('124')),
+    ])
+    expect(parseId3v2(tag)).toEqual({
+      title: 'Live at the Warehouse',
+      artist: 'DJ Example',
+      genre: 'Techno',
+      year: 2019,
+      bpm: 124,
+      comment: undefined,
+    })
+  })
+
+  it('joins the values of an ID3v2.4 frame and reads UTF-8', () => {
+    const tag = id3(4, [
+      frame(4, 'TPE1', text('Ämma\0Bö', 3)),
+      frame(4, 'TDRC', text('2021-05-01', 3)),
+    ])
+    expect(parseId3v2(tag)).toMatchObject({ artist: 'Ämma, Bö', year: 2021 })
+  })
+
+  it('reads UTF-16 text with a byte order mark', () => {
+    const title = bytes([1, 0xff, 0xfe], ...[...'Sunrise'].map(c => [c.charCodeAt(0), 0]))
+    expect(parseId3v2(id3(3, [frame(3, 'TIT2', title)])).title).toBe('Sunrise')
+  })
+
+  it('reads the three letter frames of ID3v2.2', () => {
+    const tag = id3(2, [frame(2, 'TT2', text('Set')), frame(2, 'TP1', text('Artist'))])
+    expect(parseId3v2(tag)).toMatchObject({ title: 'Set', artist: 'Artist' })
+  })
+
+  it('keeps a named genre after a genre reference', () => {
+    expect(parseId3v2(id3(3, [frame(3, 'TCON', text('(17)Deep House'))])).genre).toBe('Deep House')
+  })
+
+  it('prefers a comment without a description and ignores iTunes data', () => {
+    const tag = id3(3, [
+      frame(3, 'COMM', comment('iTunNORM', ' 0000 0000')),
+      frame(3, 'COMM', comment('Notes', 'Described')),
+      frame(3, 'COMM', comment('', 'Recorded live')),
+    ])
+    expect(parseId3v2(tag).comment).toBe('Recorded live')
+    expect(parseId3v2(id3(3, [frame(3, 'COMM', comment('Notes', 'Described'))])).comment).toBe('Described')
+  })
+
+  it('prefers the front cover over other pictures', async () => {
+    const tag = id3(3, [
+      frame(3, 'APIC', picture('image/jpeg', 4, [1, 2, 3])),
+      frame(3, 'APIC', picture('image/png', 3, [4, 5, 6])),
+      frame(3, 'APIC', picture('image/jpeg', 0, [7, 8, 9])),
+    ])
+    const tags = parseId3v2(tag)
+    expect(tags.picture?.type).toBe('image/png')
+    expect(await pictureBytes(tags)).toEqual([4, 5, 6])
+  })
+
+  it('undoes unsynchronisation of the whole tag', async () => {
+    const image = bytes([0], 'image/jpeg', [0, 3], [0], [0xff, 0x00, 0xd8, 0xff, 0x00, 0xe0])
+    const tags = parseId3v2(id3(3, [frame(3, 'APIC', image)], 0x80))
+    expect(await pictureBytes(tags)).toEqual([0xff, 0xd8, 0xff, 0xe0])
+  })
+
+  it('undoes unsynchronisation of a single ID3v2.4 frame', async () => {
+    const image = bytes([0], 'image/jpeg', [0, 3], [0], [0xff, 0x00, 0xd8])
+    const tags = parseId3v2(id3(4, [frame(4, 'APIC', image, [0, 0x02])]))
+    expect(await pictureBytes(tags)).toEqual([0xff, 0xd8])
+  })
+
+  it('skips compressed and encrypted frames', () => {
+    const tag = id3(3, [
+      frame(3, 'TIT2', text('Compressed'), [0, 0x80]),
+      frame(3, 'TPE1', text('Encrypted'), [0, 0x40]),
+      frame(3, 'TCON', text('House')),
+    ])
+    const tags = parseId3v2(tag)
+    expect(tags.title).toBeUndefined()
+    expect(tags.artist).toBeUndefined()
+    expect(tags.genre).toBe('House')
+  })
+
+  it('stops at padding', () => {
+    const tag = id3(3, [frame(3, 'TIT2', text('Set')), bytes(new Array(32).fill(0)), frame(3, 'TPE1', text('Hidden'))])
+    const tags = parseId3v2(tag)
+    expect(tags.title).toBe('Set')
+    expect(tags.artist).toBeUndefined()
+  })
+
+  it('ignores unknown versions', () => {
+    const tag = id3(3, [frame(3, 'TIT2', text('Set'))])
+    tag[3] = 5
+    expect(parseId3v2(tag)).toEqual({})
+  })
+
+  it('keeps what it read from a tag cut off inside a frame', () => {
+    const tag = id3(3, [frame(3, 'TIT2', text('Set')), frame(3, 'TPE1', text('A very long artist name'))])
+    const tags = parseId3v2(tag.subarray(0, tag.length - 10))
+    expect(tags.title).toBe('Set')
+    expect(tags.artist).toBe('A very long a')
+  })
+
+  it('ignores frames with sizes past the end of the tag', () => {
+    const tag = bytes(id3(3, [frame(3, 'TIT2', text('Set'))]), 'TPE1', uint32BE(0x7fffffff), [0, 0])
+    expect(() => parseId3v2(tag)).not.toThrow()
+    expect(parseId3v2(tag).title).toBe('Set')
+  })
+
+  it('ignores empty and malformed frames', () => {
+    const tag = id3(4, [
+      frame(4, 'TIT2', bytes()),
+      frame(4, 'COMM', bytes([1])),
+      frame(4, 'APIC', bytes([0])),
+      frame(4, 'TBPM', text('fast')),
+      frame(4, 'TPE1', bytes([0]), [0, 0x01]),
+    ])
+    const tags = parseId3v2(tag)
+    expect(tags.title).toBeUndefined()
+    expect(tags.bpm).toBeUndefined()
+    expect(tags.comment).toBeUndefined()
+  })
+})
+
+describe('readMediaTags', () => {
+  describe('mp3', () => {
+    const id3v1 = (title: string, artist: string, year: string, genre: number) =>
+      bytes('TAG', title.padEnd(30, '\0'), artist.padEnd(30, '\0'), ''.padEnd(30, '\0'), year, ''.padEnd(28, '\0'), [0, 1, genre])
+
+    it('fills gaps in the ID3v2 tag from ID3v1', async () => {
+      const file = blob(id3(3, [frame(3, 'TIT2', text('From v2'))]), [0xff, 0xfb, 0x90, 0x64], new Array(200).fill(0), id3v1('From v1', 'Artist', '1999', 35))
+      expect(await readMediaTags(file, 'mp3')).toMatchObject({ title: 'From v2', artist: 'Artist', year: 1999, genre: 'House' })
+    })
+
+    it('reads a file with only ID3v1', async () => {
+      const file = blob([0xff, 0xfb, 0x90, 0x64], new Array(200).fill(0), id3v1('Old', 'Tagger', '2001', 18))
+      expect(await readMediaTags(file, 'mp3')).toMatchObject({ title: 'Old', artist: 'Tagger', year: 2001, genre: 'Techno' })
+    })
+
+    it('has no tags for a file without any', async () => {
+      expect(await readMediaTags(blob([0xff, 0xfb, 0x90, 0x64], new Array(300).fill(0)), 'mp3')).toEqual({
+        title: undefined, artist: undefined, genre: undefined, year: undefined, bpm: undefined, comment: undefined,
+      })
+    })
+
+    it('reads a file cut off inside its ID3v2 tag', async () => {
+      const tag = id3(3, [frame(3, 'TIT2', text('Set')), frame(3, 'APIC', picture('image/jpeg', 3, new Array(500).fill(7)))])
+      const tags = await readMediaTags(new Blob([tag.subarray(0, 100)]), 'mp3')
+      expect(tags.title).toBe('Set')
+    })
+
+    it('reads nothing from a file shorter than a tag header', async () => {
+      expect(await readMediaTags(blob('ID'), 'mp3')).toEqual({})
+    })
+  })
+
+  describe('flac', () => {
+    const streamInfo = flacBlock(0, bytes(new Array(34).fill(0)))
+
+    it('reads Vorbis comments and the front cover', async () => {
+      const file = flac(
+        streamInfo,
+        flacBlock(4, vorbisComments(['TITLE=Closing set', 'ARTIST=One', 'artist=Two', 'DATE=2020-01-01', 'BPM=126.5', 'GENRE=Trance', 'DESCRIPTION=B2B'])),
+        flacBlock(6, flacPicture('image/jpeg', 0, [1])),
+        flacBlock(6, flacPicture('image/png', 3, [2, 3]), true),
+      )
+      const tags = await readMediaTags(file, 'flac')
+      expect(tags).toMatchObject({ title: 'Closing set', artist: 'One, Two', year: 2020, bpm: 126.5, genre: 'Trance', comment: 'B2B' })
+      expect(tags.picture?.type).toBe('image/png')
+      expect(await pictureBytes(tags)).toEqual([2, 3])
+    })
+
+    it('reads a picture stored in a Vorbis comment', async () => {
+      const encoded = btoa(String.fromCharCode(...flacPicture('image/png', 3, [9, 8])))
+      const file = flac(streamInfo, flacBlock(4, vorbisComments([`METADATA_BLOCK_PICTURE=${encoded}`]), true))
+      expect(await pictureBytes(await readMediaTags(file, 'flac'))).toEqual([9, 8])
+    })
+
+    it('keeps the other comments when a picture comment is not base64', async () => {
+      const file = flac(streamInfo, flacBlock(4, vorbisComments(['TITLE=Set', 'METADATA_BLOCK_PICTURE=not base64!']), true))
+      const tags = await readMediaTags(file, 'flac')
+      expect(tags.title).toBe('Set')
+      expect(tags.picture).toBeUndefined()
+    })
+
+    it('falls back to an ID3v2 tag in front of the stream', async () => {
+      const file = blob(
+        id3(3, [frame(3, 'TIT2', text('From ID3')), frame(3, 'TPE1', text('ID3 artist'))]),
+        'fLaC', streamInfo, flacBlock(4, vorbisComments(['TITLE=From comments']), true),
+      )
+      expect(await readMediaTags(file, 'flac')).toMatchObject({ title: 'From comments', artist: 'ID3 artist' })
+    })
+
+    it('stops at a comment count larger than the block', async () => {
+      const file = flac(streamInfo, flacBlock(4, vorbisComments(['TITLE=Set'], 1000), true))
+      expect((await readMediaTags(file, 'flac')).title).toBe('Set')
+    })
+
+    it('reads a file cut off inside a block', async () => {
+      const whole = bytes('fLaC', streamInfo, flacBlock(4, vorbisComments(['TITLE=Set', 'ARTIST=Someone with a long name']), true))
+      const tags = await readMediaTags(new Blob([whole.subarray(0, whole.length - 12)]), 'flac')
+      expect(tags.title).toBe('Set')
+    })
+
+    it('ignores a truncated picture block', async () => {
+      const picture = flacPicture('image/png', 3, new Array(64).fill(1))
+      const file = flac(streamInfo, flacBlock(6, picture.subarray(0, 20), true))
+      await expect(readMediaTags(file, 'flac')).resolves.toBeDefined()
+    })
+  })
+
+  describe('ogg', () => {
+    const opusHead = bytes('OpusHead', new Array(11).fill(0))
+
+    it('reads Opus tags from the second packet', async () => {
+      const file = new Blob([oggPage(opusHead, bytes('OpusTags', vorbisComments(['TITLE=Opus set', 'ARTIST=Someone'])))])
+      expect(await readMediaTags(file, 'ogg')).toMatchObject({ title: 'Opus set', artist: 'Someone' })
+    })
+
+    it('reads Vorbis comments from a packet spanning two pages', async () => {
+      const comments = bytes([3], 'vorbis', vorbisComments(['TITLE=Long set', `COMMENT=${'x'.repeat(300)}`]))
+      const first = comments.subarray(0, 255)
+      const rest = comments.subarray(255)
+      const identification = bytes([1], 'vorbis', new Array(23).fill(0))
+      const file = new Blob([
+        bytes('OggS', [0, 2], new Array(20).fill(0), [2, identification.length, 255], identification, first),
+        bytes('OggS', [0, 1], new Array(20).fill(0), [1, rest.length], rest),
+      ])
+      const tags = await readMediaTags(file, 'ogg')
+      expect(tags.title).toBe('Long set')
+      expect(tags.comment).toHaveLength(300)
+    })
+
+    it('reads nothing from a stream cut off before its comments', async () => {
+      const page = oggPage(opusHead, bytes('OpusTags', vorbisComments(['TITLE=Set'])))
+      expect(await readMediaTags(new Blob([page.subarray(0, 40)]), 'ogg')).toEqual({})
+    })
+
+    it('reads nothing from a comment packet of another codec', async () => {
+      expect(await readMediaTags(new Blob([oggPage(opusHead, bytes('Unknown', [0, 0, 0]))]), 'ogg')).toEqual({})
+    })
+  })
+
+  describe('mp4', () => {
+    it('reads the ilst atom', async () => {
+      const file = mp4(
+        item('©nam', 'Radio show'),
+        item('©ART', 'Host'),
+        item('gnre', [0, 19]),
+        item('tmpo', [0, 122], 21),
+        item('©day', '2018-03-04T00:00:00Z'),
+        item('©cmt', 'Episode 12'),
+        item('covr', [0x89, 0x50], 14),
+      )
+      const tags = await readMediaTags(file, 'm4a')
+      expect(tags).toMatchObject({ title: 'Radio show', artist: 'Host', genre: 'Techno', bpm: 122, year: 2018, comment: 'Episode 12' })
+      expect(tags.picture?.type).toBe('image/png')
+      expect(await pictureBytes(tags)).toEqual([0x89, 0x50])
+    })
+
+    it('falls back to the album artist', async () => {
+      expect((await readMediaTags(mp4(item('aART', 'Album artist')), 'm4a')).artist).toBe('Album artist')
+    })
+
+    it('reads a meta atom without version and flags', async () => {
+      const file = blob(box('moov', box('meta', box('hdlr', new Array(25).fill(0)), box('ilst', item('©nam', 'QuickTime')))))
+      expect((await readMediaTags(file, 'mov')).title).toBe('QuickTime')
+    })
+
+    it('reads nothing without an ilst atom', async () => {
+      expect(await readMediaTags(blob(box('ftyp', 'isom'), box('moov', box('mvhd', new Array(20).fill(0)))), 'mp4')).toEqual({})
+    })
+
+    it('stops at an atom claiming to be smaller than its header', async () => {
+      const file = blob(box('ftyp', 'isom'), uint32BE(4), 'junk', box('moov', box('udta')))
+      expect(await readMediaTags(file, 'mp4')).toEqual({})
+    })
+
+    it('reads what is left of a moov atom cut off inside ilst', async () => {
+      const whole = bytes(box('moov', box('meta', box('hdlr', new Array(25).fill(0)), box('ilst', item('©nam', 'Set'), item('©ART', 'Cut off')))))
+      const tags = await readMediaTags(new Blob([whole.subarray(0, whole.length - 10)]), 'mp4')
+      expect(tags.title).toBe('Set')
+    })
+
+    it('skips items without a data atom', async () => {
+      const file = mp4(box('©nam', box('mean', 'com.apple.iTunes')), item('©ART', 'Host'))
+      expect(await readMediaTags(file, 'm4a')).toEqual({ artist: 'Host' })
+    })
+  })
+
+  describe('wav', () => {
+    it('reads the LIST INFO chunk', async () => {
+      const file = wav(infoField('INAM', 'Warm up'), infoField('IART', 'Resident'), infoField('ICRD', '2017'), infoField('IGNR', 'Disco'))
+      expect(await readMediaTags(file, 'wav')).toMatchObject({ title: 'Warm up', artist: 'Resident', year: 2017, genre: 'Disco' })
+    })
+
+    it('reads an embedded ID3 chunk', async () => {
+      const tag = id3(3, [frame(3, 'TIT2', text('Tagged'))])
+      const chunks = bytes('id3 ', uint32LE(tag.length), tag)
+      const file = blob('RIFF', uint32LE(chunks.length + 4), 'WAVE', chunks)
+      expect((await readMediaTags(file, 'wav')).title).toBe('Tagged')
+    })
+
+    it('reads a file cut off inside the INFO chunk', async () => {
+      const whole = new Uint8Array(await wav(infoField('INAM', 'Warm up'), infoField('IART', 'Somebody')).arrayBuffer())
+      const tags = await readMediaTags(new Blob([whole.subarray(0, whole.length - 6)]), 'wav')
+      expect(tags.title).toBe('Warm up')
+    })
+  })
+
+  it('has no tags for containers without any', async () => {
+    expect(await readMediaTags(blob(new Array(64).fill(0)), 'webm')).toEqual({})
+  })
+})
@@ -0,0 +1,605 @@
+import {
+  ascii,
+  readBytes,
+  syncsafe32,
+  uint16BE,
+  uint24BE,
+  uint32BE,
+  uint32LE,
+} from './bytes'
+import { id3TagSize, MediaFormat } from './sniff'
+
+// Read embedded tags (ID3v2/ID3v1, Vorbis comments, MP4 ilst atoms and WAV
+// INFO chunks) so mix metadata can be prefilled before upload
+
+export interface MediaTags {
+  title?: string
+  artist?: string
+  genre?: string
+  year?: number
+  bpm?: number
+  comment?: string
+  // Embedded cover art, the front cover where the file says which one it is
+  picture?: Blob
+}
+
+// Tags and cover art larger than this are skipped rather than read into memory
+const MAX_TAG_SIZE = 16 * 1024 * 1024
+// Ogg comment headers sit near the start, but may carry a large picture
+const OGG_HEADER_READ_SIZE = 4 * 1024 * 1024
+const ID3V1_SIZE = 128
+// ID3 and FLAC picture type of the front cover
+const FRONT_COVER = 3
+
+// Standard ID3v1 genres, referenced by index from ID3 and MP4 `gnre` tags
+const ID3V1_GENRES = [
+  'Blues', 'Classic Rock', 'Country', 'Dance', 'Disco', 'Funk', 'Grunge', 'Hip-Hop',
+  'Jazz', 'Metal', 'New Age', 'Oldies', 'Other', 'Pop', 'R&B', 'Rap', 'Reggae', 'Rock',
+  'Techno', 'Industrial', 'Alternative', 'Ska', 'Death Metal', 'Pranks', 'Soundtrack',
+  'Euro-Techno', 'Ambient', 'Trip-Hop', 'Vocal', 'Jazz+Funk', 'Fusion', 'Trance',
+  'Classical', 'Instrumental', 'Acid', 'House', 'Game', 'Sound Clip', 'Gospel', 'Noise',
+  'Alternative Rock', 'Bass', 'Soul', 'Punk', 'Space', 'Meditative', 'Instrumental Pop',
+  'Instrumental Rock', 'Ethnic', 'Gothic', 'Darkwave', 'Techno-Industrial', 'Electronic',
+  'Pop-Folk', 'Eurodance', 'Dream', 'Southern Rock', 'Comedy', 'Cult', 'Gangsta', 'Top 40',
+  'Christian Rap', 'Pop/Funk', 'Jungle', 'Native American', 'Cabaret', 'New Wave',
+  'Psychedelic', 'Rave', 'Showtunes', 'Trailer', 'Lo-Fi', 'Tribal', 'Acid Punk',
+  'Acid Jazz', 'Polka', 'Retro', 'Musical', 'Rock & Roll', 'Hard Rock',
+]
+
+const latin1 = new TextDecoder('iso-8859-1')
+const utf8 = new TextDecoder('utf-8')
+
+const clean = (value: string | undefined) => {
+  const trimmed = value?.replace(/\0+$/g, '').trim()
+  return trimmed ? trimmed : undefined
+}
+
+const parseYear = (value: string | undefined) => {
+  const match = value?.match(/\d{4}/)
+  return match ? Number(match[0]) : undefined
+}
+
+const parseBpm = (value: string | undefined) => {
+  const bpm = value ? parseFloat(value) : NaN
+  return bpm > 0 ? Math.round(bpm * 100) / 100 : undefined
+}
+
+// Genres may be stored as "(17)", "17", "(17)Rock" or plain text
+const parseGenre = (value: string | undefined) => {
+  const text = clean(value)
+  if (!text) return undefined
+  const named = clean(text.replace(/^(\(\d+\))+/, ''))
+  if (named && !/^\d+$/.test(named)) return named
+  const reference = text.match(/\d+/)
+  return reference ? ID3V1_GENRES[Number(reference[0])] : undefined
+}
+
+// Values from `primary` win; `fallback` fills the gaps
+const mergeTags = (primary: MediaTags, fallback: MediaTags): MediaTags => {
+  const merged: MediaTags = { ...fallback }
+  for (const [key, value] of Object.entries(primary)) {
+    if (value !== undefined) Object.assign(merged, { [key]: value })
+  }
+  return merged
+}
+
+const imageType = (mimeType: string) => {
+  const type = mimeType.toLowerCase()
+  if (type === 'jpg' || type === 'image/jpg') return 'image/jpeg'
+  if (type === 'png') return 'image/png'
+  return type.includes('/') ? type : 'image/jpeg'
+}
+
+// --- ID3 -----------------------------------------------------------------
+
+// Undo ID3 unsynchronisation, which inserts 0x00 after every 0xFF
+const removeUnsynchronisation = (bytes: Uint8Array) => {
+  const out = new Uint8Array(bytes.length)
+  let length = 0
+  for (let i = 0; i < bytes.length; i++) {
+    out[length++] = bytes[i]
+    if (bytes[i] === 0xff && bytes[i + 1] === 0x00) i++
+  }
+  return out.subarray(0, length)
+}
+
+const isWideEncoding = (encoding: number) => encoding === 1 || encoding === 2
+
+// Decode ID3 text in the given encoding byte: Latin-1, UTF-16 with BOM,
+// UTF-16BE or UTF-8
+const decodeId3Text = (bytes: Uint8Array, encoding: number) => {
+  switch (encoding) {
+    case 1: {
+      const bigEndian = bytes[0] === 0xfe && bytes[1] === 0xff
+      return new TextDecoder(bigEndian ? 'utf-16be' : 'utf-16le').decode(bytes)
+    }
+    case 2:
+      return new TextDecoder('utf-16be').decode(bytes)
+    case 3:
+      return utf8.decode(bytes)
+    default:
+      return latin1.decode(bytes)
+  }
+}
+
+// Offset just past the null terminator of a string starting at `offset`
+const skipTerminated = (bytes: Uint8Array, offset: number, encoding: number) => {
+  if (isWideEncoding(encoding)) {
+    for (let i = offset; i + 1 < bytes.length; i += 2) {
+      if (bytes[i] === 0 && bytes[i + 1] === 0) return i + 2
+    }
+  } else {
+    const end = bytes.indexOf(0, offset)
+    if (end >= 0) return end + 1
+  }
+  return bytes.length
+}
+
+// Text frames may hold several null separated values (ID3v2.4)
+const readTextFrame = (data: Uint8Array) =>
+  clean(decodeId3Text(data.subarray(1), data[0]).split('\0').filter(Boolean).join(', '))
+
+// COMM: encoding, language, short description, text
+const readCommentFrame = (data: Uint8Array) => {
+  const encoding = data[0]
+  const textStart = skipTerminated(data, 4, encoding)
+  const description = clean(decodeId3Text(data.subarray(4, textStart), encoding))
+  return { description, text: clean(decodeId3Text(data.subarray(textStart), encoding)) }
+}
+
+// APIC (v2.3+) or PIC (v2.2): encoding, image format, picture type,
+// description, image data
+const readPictureFrame = (data: Uint8Array, version: number) => {
+  const encoding = data[0]
+  let offset: number
+  let mimeType: string
+  if (version === 2) {
+    mimeType = imageType(ascii(data, 1, 3))
+    offset = 4
+  } else {
+    const mimeEnd = skipTerminated(data, 1, 0)
+    mimeType = imageType(latin1.decode(data.subarray(1, mimeEnd - 1)))
+    offset = mimeEnd
+  }
+  const pictureType = data[offset]
+  const dataStart = skipTerminated(data, offset + 1, encoding)
+  return { pictureType, picture: new Blob([data.slice(dataStart)], { type: mimeType }) }
+}
+
+// ID3v2.2 uses three letter frame ids
+const V22_FRAME_IDS: Record<string, string> = {
+  TT2: 'TIT2', TP1: 'TPE1', TCO: 'TCON', TYE: 'TYER', TBP: 'TBPM', COM: 'COMM', PIC: 'APIC',
+}
+
+// Parse a complete ID3v2 tag, header included
+export const parseId3v2 = (tag: Uint8Array): MediaTags => {
+  const version = tag[3]
+  if (version < 2 || version > 4) return {}
+
+  const tagFlags = tag[5]
+  let body = tag.subarray(10, id3TagSize(tag))
+  if ((tagFlags & 0x80) && version < 4) body = removeUnsynchronisation(body)
+
+  let offset = 0
+  if ((tagFlags & 0x40) && version > 2) {
+    offset = version === 4 ? syncsafe32(body, 0) : uint32BE(body, 0) + 4
+  }
+
+  const headerSize = version === 2 ? 6 : 10
+  const tags: MediaTags = {}
+  let describedComment: string | undefined
+  let pictureType: number | undefined
+
+  while (offset + headerSize <= body.length) {
+    const rawId = ascii(body, offset, version === 2 ? 3 : 4)
+    // Padding, or the end of the frames
+    if (!/^[A-Z0-9]{3,4}$/.test(rawId)) break
+
+    const id = version === 2 ? V22_FRAME_IDS[rawId] ?? rawId : rawId
+    const size = version === 2
+      ? uint24BE(body, offset + 3)
+      : version === 4 ? syncsafe32(body, offset + 4) : uint32BE(body, offset + 4)
+    const formatFlags = version === 2 ? 0 : body[offset + 9]
+    let data = body.subarray(offset + headerSize, offset + headerSize + size)
+    offset += headerSize + size
+
+    // Compressed and encrypted frames are skipped
+    const skipped = version === 3 ? formatFlags & 0xc0 : version === 4 ? formatFlags & 0x0c : 0
+    if (skipped || data.length === 0) continue
+    if (version === 4 && (formatFlags & 0x02)) data = removeUnsynchronisation(data)
+    if (version === 4 && (formatFlags & 0x01)) data = data.subarray(4)
+
+    switch (id) {
+      case 'TIT2':
+        tags.title = readTextFrame(data)
+        break
+      case 'TPE1':
+        tags.artist = readTextFrame(data)
+        break
+      case 'TCON':
+        tags.genre = parseGenre(readTextFrame(data))
+        break
+      case 'TYER':
+      case 'TDRC':
+        tags.year = tags.year ?? parseYear(readTextFrame(data))
+        break
+      case 'TBPM':
+        tags.bpm = parseBpm(readTextFrame(data))
+        break
+      case 'COMM': {
+        // Prefer the comment without a description. iTunes keeps player
+        // data such as iTunNORM in described comments.
+        const { description, text } = readCommentFrame(data)
+        if (!text) break
+        if (!description) {
+          tags.comment = tags.comment ?? text
+        } else if (!description.startsWith('iTun')) {
+          describedComment = describedComment ?? text
+        }
+        break
+      }
+      case 'APIC': {
+        const frame = readPictureFrame(data, version)
+        if (pictureType !== FRONT_COVER) {
+          tags.picture = frame.picture
+          pictureType = frame.pictureType
+        }
+        break
+      }
+    }
+  }
+
+  return { ...tags, comment: tags.comment ?? describedComment }
+}
+
+// ID3v1 sits in the last 128 bytes of the file
+const parseId3v1 = (bytes: Uint8Array): MediaTags => {
+  if (bytes.length < ID3V1_SIZE || ascii(bytes, 0, 3) !== 'TAG') return {}
+  const field = (start: number, length: number) => clean(latin1.decode(bytes.subarray(start, start + length)))
+  // ID3v1.1 stores the track number in the last two comment bytes
+  const commentLength = bytes[125] === 0 && bytes[126] !== 0 ? 28 : 30
+  return {
+    title: field(3, 30),
+    artist: field(33, 30),
+    year: parseYear(field(93, 4)),
+    comment: field(97, commentLength),
+    genre: ID3V1_GENRES[bytes[127]],
+  }
+}
+
+const readId3v2 = async (file: Blob, offset = 0): Promise<MediaTags> => {
+  const header = await readBytes(file, offset, 10)
+  if (ascii(header, 0, 3) !== 'ID3') return {}
+  const size = id3TagSize(header)
+  if (size > MAX_TAG_SIZE) return {}
+  return parseId3v2(await readBytes(file, offset, size))
+}
+
+const readId3 = async (file: Blob): Promise<MediaTags> => {
+  const [v2, v1] = await Promise.all([
+    readId3v2(file),
+    file.size >= ID3V1_SIZE
+      ? readBytes(file, file.size - ID3V1_SIZE, ID3V1_SIZE).then(parseId3v1)
+      : Promise.resolve({}),
+  ])
+  return mergeTags(v2, v1)
+}
+
+// --- Vorbis comments (FLAC and Ogg) --------------------------------------
+
+// FLAC PICTURE block, also found base64 encoded in Vorbis comments
+const parseFlacPicture = (bytes: Uint8Array) => {
+  const pictureType = uint32BE(bytes, 0)
+  const mimeLength = uint32BE(bytes, 4)
+  const mimeType = imageType(ascii(bytes, 8, mimeLength))
+  const descriptionLength = uint32BE(bytes, 8 + mimeLength)
+  // Width, height, colour depth and palette size follow the description
+  const lengthOffset = 12 + mimeLength + descriptionLength + 16
+  const dataLength = uint32BE(bytes, lengthOffset)
+  const data = bytes.slice(lengthOffset + 4, lengthOffset + 4 + dataLength)
+  return { pictureType, picture: new Blob([data], { type: mimeType }) }
+}
+
+// Null for text that is not base64, so one bad comment costs only itself
+const decodeBase64 = (value: string) => {
+  try {
+    return Uint8Array.from(atob(value), char => char.charCodeAt(0))
+  } catch {
+    return null
+  }
+}
+
+// Vorbis comment structure: vendor string, then KEY=value pairs, all with
+// little-endian length prefixes
+const parseVorbisComments = (bytes: Uint8Array): MediaTags => {
+  const tags: MediaTags = {}
+  let offset = 4 + uint32LE(bytes, 0)
+  const count = uint32LE(bytes, offset)
+  offset += 4
+
+  for (let i = 0; i < count && offset + 4 <= bytes.length; i++) {
+    const length = uint32LE(bytes, offset)
+    const entry = utf8.decode(bytes.subarray(offset + 4, offset + 4 + length))
+    offset += 4 + length
+
+    const separator = entry.indexOf('=')
+    if (separator < 0) continue
+    const key = entry.slice(0, separator).toUpperCase()
+    const value = entry.slice(separator + 1)
+
+    switch (key) {
+      case 'TITLE':
+        tags.title = tags.title ?? clean(value)
+        break
+      case 'ARTIST':
+        tags.artist = tags.artist ? `${tags.artist}, ${value}` : clean(value)
+        break
+      case 'GENRE':
+        tags.genre = tags.genre ?? parseGenre(value)
+        break
+      case 'DATE':
+      case 'YEAR':
+        tags.year = tags.year ?? parseYear(value)
+        break
+      case 'BPM':
+      case 'TEMPO':
+        tags.bpm = tags.bpm ?? parseBpm(value)
+        break
+      case 'COMMENT':
+      case 'DESCRIPTION':
+        tags.comment = tags.comment ?? clean(value)
+        break
+      case 'METADATA_BLOCK_PICTURE': {
+        const block = tags.picture ? null : decodeBase64(value)
+        if (block) tags.picture = parseFlacPicture(block).picture
+        break
+      }
+    }
+  }
+
+  return tags
+}
+
+// Walk the FLAC metadata blocks for the comment and picture blocks. FLAC
+// files may start with an ID3v2 tag, which is read as a fallback.
+const readFlac = async (file: Blob): Promise<MediaTags> => {
+  const start = await readBytes(file, 0, 10)
+  const id3Size = ascii(start, 0, 3) === 'ID3' ? id3TagSize(start) : 0
+  const id3 = id3Size > 0 ? await readId3v2(file) : {}
+
+  let offset = id3Size + 4
+  let tags: MediaTags = {}
+  let pictureType: number | undefined
+  for (let isLast = false; !isLast && offset < file.size;) {
+    const header = await readBytes(file, offset, 4)
+    isLast = (header[0] & 0x80) !== 0
+    const blockType = header[0] & 0x7f
+    const length = uint24BE(header, 1)
+    offset += 4
+
+    if (blockType === 4 && length <= MAX_TAG_SIZE) {
+      const { picture, ...comments } = parseVorbisComments(await readBytes(file, offset, length))
+      tags = { ...tags, ...comments, picture: tags.picture ?? picture }
+    } else if (blockType === 6 && length <= MAX_TAG_SIZE && pictureType !== FRONT_COVER) {
+      const block = parseFlacPicture(await readBytes(file, offset, length))
+      tags.picture = block.picture
+      pictureType = block.pictureType
+    }
+    offset += length
+  }
+
+  return mergeTags(tags, id3)
+}
+
+// The comment header is the second packet of the first logical stream.
+// Packets may span pages; a lacing value below 255 ends a packet.
+const readOgg = async (file: Blob): Promise<MediaTags> => {
+  const bytes = await readBytes(file, 0, OGG_HEADER_READ_SIZE)
+  const packet: number[] = []
+  let packetIndex = 0
+  let offset = 0
+
+  while (offset + 27 <= bytes.length && ascii(bytes, offset, 4) === 'OggS') {
+    const segmentCount = bytes[offset + 26]
+    let dataOffset = offset + 27 + segmentCount
+    for (let i = 0; i < segmentCount; i++) {
+      const lacing = bytes[offset + 27 + i]
+      if (packetIndex === 1) packet.push(...bytes.subarray(dataOffset, dataOffset + lacing))
+      dataOffset += lacing
+      if (lacing < 255) {
+        if (packetIndex === 1) return parseOggCommentPacket(new Uint8Array(packet))
+        packetIndex++
+      }
+    }
+    offset = dataOffset
+  }
+
+  return {}
+}
+
+const parseOggCommentPacket = (packet: Uint8Array): MediaTags => {
+  if (ascii(packet, 0, 7) === '\x03vorbis') return parseVorbisComments(packet.subarray(7))
+  if (ascii(packet, 0, 8) === 'OpusTags') return parseVorbisComments(packet.subarray(8))
+  return {}
+}
+
+// --- MP4 / QuickTime ------------------------------------------------------
+
+interface Box {
+  type: string
+  // Offset of the box contents within the buffer
+  start: number
+  end: number
+}
+
+const boxes = (bytes: Uint8Array, start: number, end: number): Box[] => {
+  const found: Box[] = []
+  let offset = start
+  while (offset + 8 <= end) {
+    let size = uint32BE(bytes, offset)
+    let headerSize = 8
+    if (size === 1) {
+      size = uint32BE(bytes, offset + 8) * 2 ** 32 + uint32BE(bytes, offset + 12)
+      headerSize = 16
+    } else if (size === 0) {
+      size = end - offset
+    }
+    if (size < headerSize) break
+    found.push({ type: ascii(bytes, offset + 4, 4), start: offset + headerSize, end: Math.min(offset + size, end) })
+    offset += size
+  }
+  return found
+}
+
+const childBox = (bytes: Uint8Array, parent: Box, type: string) =>
+  boxes(bytes, parent.start, parent.end).find(box => box.type === type)
+
+// `meta` is a full box with four bytes of version and flags in MP4, but a
+// plain box in some QuickTime files
+const metaChildren = (bytes: Uint8Array, meta: Box): Box =>
+  ascii(bytes, meta.start + 4, 4) === 'hdlr' ? meta : { ...meta, start: meta.start + 4 }
+
+const parseIlst = (bytes: Uint8Array, ilst: Box): MediaTags => {
+  const tags: MediaTags = {}
+  let albumArtist: string | undefined
+
+  for (const item of boxes(bytes, ilst.start, ilst.end)) {
+    const data = childBox(bytes, item, 'data')
+    if (!data) continue
+    // Type indicator and locale precede the value
+    const dataType = uint32BE(bytes, data.start) & 0xffffff
+    const value = bytes.subarray(data.start + 8, data.end)
+    const text = () => clean(utf8.decode(value))
+
+    switch (item.type) {
+      case '©nam':
+        tags.title = text()
+        break
+      case '©ART':
+        tags.artist = text()
+        break
+      case 'aART':
+        albumArtist = text()
+        break
+      case '©gen':
+        tags.genre = text()
+        break
+      case 'gnre':
+        tags.genre = tags.genre ?? ID3V1_GENRES[uint16BE(value, 0) - 1]
+        break
+      case '©day':
+        tags.year = parseYear(text())
+        break
+      case 'tmpo':
+        tags.bpm = parseBpm(String(uint16BE(value, 0)))
+        break
+      case '©cmt':
+        tags.comment = text()
+        break
+      case 'covr':
+        tags.picture = new Blob([value.slice()], { type: dataType === 14 ? 'image/png' : 'image/jpeg' })
+        break
+    }
+  }
+
+  return { ...tags, artist: tags.artist ?? albumArtist }
+}
+
+// Find the top level `moov` box without reading the media data, then look
+// for moov/udta/meta/ilst or moov/meta/ilst inside it
+const readMp4 = async (file: Blob): Promise<MediaTags> => {
+  let offset = 0
+  while (offset + 8 <= file.size) {
+    const header = await readBytes(file, offset, 16)
+    if (header.length < 8) break
+
+    const type = ascii(header, 4, 4)
+    let size = uint32BE(header, 0)
+    if (size === 1) size = uint32BE(header, 8) * 2 ** 32 + uint32BE(header, 12)
+    if (size === 0) size = file.size - offset
+    if (size < 8) break
+
+    if (type === 'moov') {
+      if (size > MAX_TAG_SIZE * 4) return {}
+      const moov = await readBytes(file, offset, size)
+      const root: Box = { type: 'moov', start: 8, end: moov.length }
+      const udta = childBox(moov, root, 'udta')
+      const meta = (udta && childBox(moov, udta, 'meta')) ?? childBox(moov, root, 'meta')
+      const ilst = meta && childBox(moov, metaChildren(moov, meta), 'ilst')
+      return ilst ? parseIlst(moov, ilst) : {}
+    }
+    offset += size
+  }
+  return {}
+}
+
+// --- WAV ----------------------------------------------------------------
+
+const INFO_FIELDS: Record<string, keyof MediaTags> = {
+  INAM: 'title',
+  IART: 'artist',
+  IGNR: 'genre',
+  ICRD: 'year',
+  ICMT: 'comment',
+}
+
+// RIFF chunks after the header: a LIST/INFO chunk or an embedded ID3 tag
+const readWav = async (file: Blob): Promise<MediaTags> => {
+  let tags: MediaTags = {}
+  let offset = 12
+  while (offset + 8 <= file.size) {
+    const header = await readBytes(file, offset, 12)
+    const id = ascii(header, 0, 4)
+    const size = uint32LE(header, 4)
+
+    if (id === 'LIST' && ascii(header, 8, 4) === 'INFO' && size <= MAX_TAG_SIZE) {
+      const list = await readBytes(file, offset + 12, size - 4)
+      for (let i = 0; i + 8 <= list.length;) {
+        const field = INFO_FIELDS[ascii(list, i, 4)]
+        const length = uint32LE(list, i + 4)
+        const value = clean(utf8.decode(list.subarray(i + 8, i + 8 + length)))
+        if (field === 'year') {
+          tags.year = parseYear(value)
+        } else if (field === 'genre') {
+          tags.genre = parseGenre(value)
+        } else if (field) {
+          Object.assign(tags, { [field]: value })
+        }
+        i += 8 + length + (length % 2)
+      }
+    } else if ((id === 'id3 ' || id === 'ID3 ') && size <= MAX_TAG_SIZE) {
+      tags = mergeTags(await readId3v2(file, offset + 8), tags)
+    }
+
+    // Chunks are padded to an even length
+    offset += 8 + size + (size % 2)
+  }
+  return tags
+}
+
+// Read whatever tags the container supports. Files without tags, or with
+// tags that cannot be parsed, give an empty result.
+export const readMediaTags = async (file: Blob, format: MediaFormat): Promise<MediaTags> => {
+  try {
+    switch (format) {
+      case 'mp3':
+      case 'aac':
+        return await readId3(file)
+      case 'flac':
+        return await readFlac(file)
+      case 'ogg':
+        return await readOgg(file)
+      case 'm4a':
+      case 'mp4':
+      case 'mov':
+        return await readMp4(file)
+      case 'wav':
+        return await readWav(file)
+      default:
+        return {}
+    }
+  } catch (error) {
+    console.warn('Could not read embedded tags:', error)
+    return {}
+  }
+}
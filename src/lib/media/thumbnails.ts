@@ -0,0 +1,101 @@
+import { createCanvas, encodeCanvas } from './images'
+
+// Capture still frames from a video file in the browser, to offer as
+// thumbnails before the file is uploaded
+
+// Points in the video, as fractions of its duration, that candidates are
+// taken from
+export const THUMBNAIL_POSITIONS = [0.1, 0.25, 0.5, 0.75, 0.9]
+
+// Thumbnails are scaled down to at most this width
+const THUMBNAIL_MAX_WIDTH = 1280
+const THUMBNAIL_QUALITY = 0.82
+
+// Give up on a frame the browser cannot seek to
+const SEEK_TIMEOUT = 10_000
+
+const waitForEvent = (target: HTMLMediaElement, event: string, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer)
+      target.removeEventListener(event, handleEvent)
+      target.removeEventListener('error', handleError)
+      signal?.removeEventListener('abort', handleAbort)
+    }
+    const handleEvent = () => {
+      cleanup()
+      resolve()
+    }
+    const handleError = () => {
+      cleanup()
+      reject(new Error('This video cannot be decoded by the browser'))
+    }
+    const handleAbort = () => {
+      cleanup()
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(() => {
+      cleanup()
+      reject(new Error(`Timed out waiting for video ${event}`))
+    }, SEEK_TIMEOUT)
+
+    target.addEventListener(event, handleEvent)
+    target.addEventListener('error', handleError)
+    signal?.addEventListener('abort', handleAbort)
+  })
+
+// Draw an image or video frame scaled to the thumbnail size and encode it
+const encodeThumbnail = (source: CanvasImageSource, width: number, height: number) => {
+  const scale = Math.min(1, THUMBNAIL_MAX_WIDTH / width)
+  const { canvas, context } = createCanvas(Math.round(width * scale), Math.round(height * scale))
+  context.drawImage(source, 0, 0, canvas.width, canvas.height)
+
+  return encodeCanvas(canvas, THUMBNAIL_QUALITY)
+}
+
+// Grab one frame at each of the given positions
+export const captureVideoFrames = async (
+  file: Blob,
+  positions = THUMBNAIL_POSITIONS,
+  signal?: AbortSignal
+): Promise<Blob[]> => {
+  const url = URL.createObjectURL(file)
+  const video = document.createElement('video')
+  video.muted = true
+  video.playsInline = true
+  video.preload = 'auto'
+
+  try {
+    const loaded = waitForEvent(video, 'loadeddata', signal)
+    video.src = url
+    await loaded
+
+    if (!video.videoWidth || !Number.isFinite(video.duration)) {
+      throw new Error('This video has no frames to capture')
+    }
+
+    const frames: Blob[] = []
+    for (const position of positions) {
+      const seeked = waitForEvent(video, 'seeked', signal)
+      video.currentTime = position * video.duration
+      await seeked
+      frames.push(await encodeThumbnail(video, video.videoWidth, video.videoHeight))
+    }
+    return frames
+  } finally {
+    video.removeAttribute('src')
+    video.load()
+    URL.revokeObjectURL(url)
+  }
+}
+
+// Re-encode an image the user picked so every thumbnail has the same format
+// and size limit
+export const prepareCustomThumbnail = async (image: Blob): Promise<Blob> => {
+  const bitmap = await createImageBitmap(image)
+  try {
+    return await encodeThumbnail(bitmap, bitmap.width, bitmap.height)
+  } finally {
+    bitmap.close()
+  }
+}
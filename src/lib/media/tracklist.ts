@@ -0,0 +1,207 @@
+import { supabase } from '../supabase'
+import { formatTime } from '../player/time'
+import { MixTrack } from '../../types'
+
+// Tracklists of mixes: parsing them from cue sheets and pasted text, and
+// storing them in the mix_tracks table
+
+// Largest .cue file accepted for import
+export const CUE_MAX_FILE_SIZE = 1024 * 1024
+
+// "1:02:03", "62:03" or "2:03" in seconds
+export const parseTimestamp = (value: string): number | null => {
+  const parts = value.split(':').map(Number)
+  if (parts.length < 2 || parts.length > 3 || parts.some(part => !Number.isInteger(part) || part < 0)) {
+    return null
+  }
+  return parts.reduce((total, part) => total * 60 + part, 0)
+}
+
+// Cue sheet INDEX times are minutes:seconds:frames, at 75 frames a second
+const parseCueTime = (value: string): number | null => {
+  const match = value.match(/^(\d+):(\d{2}):(\d{2})$/)
+  if (!match) return null
+  const [, minutes, seconds, frames] = match.map(Number)
+  return minutes * 60 + seconds + frames / 75
+}
+
+const unquote = (value: string) => value.trim().replace(/^"(.*)"$/, '$1').trim()
+
+// PERFORMER and TITLE before the first TRACK describe the whole mix and are
+// left out
+export const parseCueSheet = (text: string): MixTrack[] => {
+  const tracks: MixTrack[] = []
+  let current: MixTrack | null = null
+
+  text.split(/\r?\n/).forEach((rawLine) => {
+    const line = rawLine.trim()
+    const [command = '', ...rest] = line.split(/\s+/)
+    const argument = line.slice(command.length)
+
+    switch (command.toUpperCase()) {
+      case 'TRACK':
+        current = { start_time: null, artist: null, title: '', label: null }
+        tracks.push(current)
+        break
+      case 'TITLE':
+        if (current) current.title = unquote(argument)
+        break
+      case 'PERFORMER':
+        if (current) current.artist = unquote(argument) || null
+        break
+      case 'INDEX':
+        if (current && rest[0] === '01') current.start_time = parseCueTime(rest[1] ?? '')
+        break
+      case 'REM':
+        if (current && rest[0]?.toUpperCase() === 'LABEL') {
+          current.label = unquote(argument.trim().slice('LABEL'.length)) || null
+        }
+        break
+    }
+  })
+
+  return tracks.filter(track => track.title)
+}
+
+// One line of a pasted tracklist, as written by hand or copied from
+// 1001Tracklists:
+//   00:00 Artist - Title
+//   01. [12:34] Artist - Title (Remix) [LABEL]
+//   02. Artist - Title [LABEL]
+//   w/ Artist - Title
+const TRACK_LINE = /^(?:\d{1,3}[.)]\s*)?(w\/\s*)?(?:\[?((?:\d{1,2}:)?\d{1,3}:\d{2})\]?\s*(?:[-–—|]\s+)?)?(.*)$/i
+const ARTIST_SEPARATOR = /\s+[-–—]\s+/
+const TRAILING_LABEL = /\s*\[([^\]]+)\]\s*$/
+
+export const parseTextTracklist = (text: string): MixTrack[] => {
+  const tracks: MixTrack[] = []
+
+  text.split(/\r?\n/).forEach((rawLine) => {
+    const match = rawLine.trim().match(TRACK_LINE)
+    if (!match) return
+    const [, playedWith, timestamp, rest] = match
+
+    let body = rest.trim()
+    let label: string | null = null
+    const labelMatch = body.match(TRAILING_LABEL)
+    if (labelMatch) {
+      label = labelMatch[1].trim() || null
+      body = body.slice(0, labelMatch.index).trim()
+    }
+
+    const separator = body.match(ARTIST_SEPARATOR)
+    // Headings and notes have neither a time nor an artist
+    if (!body || (!timestamp && !separator)) return
+
+    // Tracks played over the previous one share its start
+    const start = timestamp
+      ? parseTimestamp(timestamp)
+      : playedWith ? tracks[tracks.length - 1]?.start_time ?? null : null
+
+    tracks.push({
+      start_time: start,
+      artist: separator ? body.slice(0, separator.index).trim() || null : null,
+      title: separator ? body.slice((separator.index ?? 0) + separator[0].length).trim() : body,
+      label,
+    })
+  })
+
+  return tracks.filter(track => track.title)
+}
+
+export const isCueSheet = (text: string) => /^\s*TRACK\s+\d+/im.test(text) && /^\s*INDEX\s+01\s/im.test(text)
+
+export const parseTracklist = (text: string) =>
+  isCueSheet(text) ? parseCueSheet(text) : parseTextTracklist(text)
+
+// Index of the track playing at `time`: the last one started by then
+export const trackIndexAt = (tracks: MixTrack[], time: number) => {
+  let index = -1
+  tracks.forEach((track, i) => {
+    if (track.start_time !== null && track.start_time <= time) index = i
+  })
+  return index
+}
+
+export const trackName = ({ artist, title }: MixTrack) => (artist ? `${artist} - ${title}` : title)
+
+// Back into the text format parseTextTracklist reads, for editing
+export const formatTracklist = (tracks: MixTrack[]) =>
+  tracks.map((track) => [
+    track.start_time !== null ? formatTime(track.start_time) : null,
+    trackName(track),
+    track.label ? `[${track.label}]` : null,
+  ].filter(Boolean).join(' ')).join('\n')
+
+// Start of the track to jump to from `time`. Going back within
+// `restartThreshold` seconds of a track's start goes to the one before it.
+export const adjacentTrackStart = (
+  tracks: MixTrack[],
+  time: number,
+  direction: 1 | -1,
+  restartThreshold: number
+): number | null => {
+  // Tracks played together share a start
+  const starts = [...new Set(tracks.map(track => track.start_time))]
+    .filter((start): start is number => start !== null)
+    .sort((a, b) => a - b)
+
+  if (direction === 1) {
+    return starts.find(start => start > time + 0.5) ?? null
+  }
+  const earlier = starts.filter(start => start <= time)
+  const current = earlier[earlier.length - 1]
+  if (current === undefined) return null
+  if (time - current > restartThreshold) return current
+  return earlier[earlier.length - 2] ?? 0
+}
+
+const tracklistCache = new Map<string, Promise<MixTrack[]>>()
+const listeners = new Set<(mixId: string) => void>()
+
+// Fetch the tracklist of a mix, once per page load unless it is saved again.
+// Rejects if it cannot be fetched, so an editor never starts from an empty
+// list that would replace the stored one.
+export const loadTracklist = (mixId: string): Promise<MixTrack[]> => {
+  let cached = tracklistCache.get(mixId)
+  if (!cached) {
+    const request = Promise.resolve(
+      supabase
+        .from('mix_tracks')
+        .select('start_time, artist, title, label')
+        .eq('mix_id', mixId)
+        .order('position')
+    ).then(({ data, error }) => {
+      if (error) throw new Error(`Database error: ${error.message}`)
+      return data as MixTrack[]
+    })
+    // Failures are not cached, so the next load tries again
+    request.catch(() => {
+      if (tracklistCache.get(mixId) === request) tracklistCache.delete(mixId)
+    })
+    tracklistCache.set(mixId, request)
+    cached = request
+  }
+  return cached
+}
+
+// Replace the tracklist of a mix. The database swaps it in one transaction,
+// so a failed save keeps the old tracklist.
+export const saveTracklist = async (mixId: string, tracks: MixTrack[]) => {
+  const { error } = await supabase.rpc('replace_mix_tracks', {
+    target_mix_id: mixId,
+    tracks: tracks.map(({ start_time, artist, title, label }) => ({ start_time, artist, title, label })),
+  })
+  if (error) throw new Error(`Database error: ${error.message}`)
+
+  tracklistCache.set(mixId, Promise.resolve(tracks))
+  listeners.forEach(listener => listener(mixId))
+}
+
+// Subscribe to saved tracklists; returns an unsubscribe function
+export const onTracklistSaved = (listener: (mixId: string) => void) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
@@ -0,0 +1,130 @@
+import { supabase, STORAGE_BUCKET } from '../supabase'
+import { createLimiter } from '../upload/limiter'
+import { WaveformData } from './peaks'
+import type { WaveformWorkerRequest } from './waveform.worker'
+
+export type { WaveformData, WaveformResolution } from './peaks'
+export { pickResolution } from './peaks'
+
+// Decoding needs the whole file and its PCM in memory, so larger files get
+// no waveform
+export const WAVEFORM_MAX_FILE_SIZE = 300 * 1024 * 1024
+// Rates to decode at, tried in order. Peaks need no more than 3000 Hz, the
+// lowest the spec allows, which keeps an hour of decoded stereo audio near
+// 80MB. Some engines refuse rates that low; every engine takes 44100 Hz.
+const DECODE_SAMPLE_RATES = [3000, 8000, 22050, 44100]
+
+// One file is decoded at a time, however many are uploading
+const decodeSlots = createLimiter(1)
+
+// Sidecar object holding the peaks of a mix file
+export const waveformPath = (filePath: string) => `${filePath}.peaks.json`
+
+// A context at the lowest rate this engine accepts
+const createDecodeContext = () => {
+  let lastError: unknown
+  for (const sampleRate of DECODE_SAMPLE_RATES) {
+    try {
+      return new OfflineAudioContext(1, 1, sampleRate)
+    } catch (error) {
+      lastError = error
+    }
+  }
+  throw lastError
+}
+
+const decodeAudio = async (file: Blob) => {
+  // OfflineAudioContext only exists on the main thread; decoding itself runs
+  // off it in the browser's media pipeline
+  const context = createDecodeContext()
+  return context.decodeAudioData(await file.arrayBuffer())
+}
+
+const reducePeaks = (buffer: AudioBuffer, signal?: AbortSignal): Promise<WaveformData> =>
+  new Promise((resolve, reject) => {
+    signal?.throwIfAborted()
+    const worker = new Worker(new URL('./waveform.worker.ts', import.meta.url), { type: 'module' })
+
+    const cleanup = () => {
+      worker.terminate()
+      signal?.removeEventListener('abort', onAbort)
+    }
+    const onAbort = () => {
+      cleanup()
+      reject(signal?.reason)
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+
+    worker.onmessage = (event: MessageEvent<WaveformData>) => {
+      cleanup()
+      resolve(event.data)
+    }
+    worker.onerror = (event) => {
+      cleanup()
+      reject(new Error(event.message || 'Waveform worker failed'))
+    }
+
+    // Copies are transferred so the worker owns them outright
+    const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i).slice())
+    const request: WaveformWorkerRequest = { channels, sampleRate: buffer.sampleRate }
+    worker.postMessage(request, channels.map(channel => channel.buffer))
+  })
+
+// Decode a file's audio and reduce it to peaks at several resolutions.
+// Resolves with null for files too large to decode.
+export const computeWaveform = async (file: Blob, signal?: AbortSignal): Promise<WaveformData | null> => {
+  if (file.size > WAVEFORM_MAX_FILE_SIZE || typeof OfflineAudioContext === 'undefined') {
+    return null
+  }
+
+  const release = await decodeSlots.acquire(signal)
+  try {
+    const buffer = await decodeAudio(file)
+    signal?.throwIfAborted()
+    return await reducePeaks(buffer, signal)
+  } finally {
+    release()
+  }
+}
+
+// Store the peaks next to the mix file and point the mix at them
+export const saveWaveform = async (mixId: string, filePath: string, waveform: WaveformData) => {
+  const path = waveformPath(filePath)
+  const { error: uploadError } = await supabase.storage
+    .from(STORAGE_BUCKET)
+    .upload(path, new Blob([JSON.stringify(waveform)], { type: 'application/json' }), {
+      cacheControl: '86400',
+      contentType: 'application/json',
+      upsert: true,
+    })
+  if (uploadError) throw new Error(`Waveform upload failed: ${uploadError.message}`)
+
+  const { error } = await supabase
+    .from('music_mixes')
+    .update({ waveform_path: path })
+    .eq('id', mixId)
+  if (error) throw new Error(`Database error: ${error.message}`)
+}
+
+const waveformCache = new Map<string, Promise<WaveformData | null>>()
+
+// Fetch a stored waveform; each one is downloaded once per page load
+export const loadWaveform = (path: string): Promise<WaveformData | null> => {
+  let cached = waveformCache.get(path)
+  if (!cached) {
+    cached = supabase.storage
+      .from(STORAGE_BUCKET)
+      .download(path)
+      .then(async ({ data, error }) => {
+        if (error || !data) throw error || new Error('Waveform not found')
+        return JSON.parse(await data.text()) as WaveformData
+      })
+      .catch((error) => {
+        console.warn('Failed to load waveform:', error)
+        waveformCache.delete(path)
+        return null
+      })
+    waveformCache.set(path, cached)
+  }
+  return cached
+}
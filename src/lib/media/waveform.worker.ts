@@ -0,0 +1,13 @@
+import { buildWaveform } from './peaks'
+
+export interface WaveformWorkerRequest {
+  // Decoded PCM, one array per channel
+  channels: Float32Array[]
+  sampleRate: number
+}
+
+// Reduces decoded audio to min/max peaks at every resolution
+self.onmessage = (event: MessageEvent<WaveformWorkerRequest>) => {
+  const { channels, sampleRate } = event.data
+  self.postMessage(buildWaveform(channels, sampleRate))
+}
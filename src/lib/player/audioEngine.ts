@@ -0,0 +1,113 @@
+// Web Audio graph behind the audio player. Two decks, each an audio element
+// with its own gain, are mixed into a master gain that carries the volume:
+//
+//   deck element -> deck gain --+
+//                               +-> master gain -> speakers
+//   deck element -> deck gain --+
+
+export type Deck = 0 | 1
+
+export const otherDeck = (deck: Deck): Deck => (deck === 0 ? 1 : 0)
+
+type AudioContextConstructor = typeof AudioContext
+
+const getAudioContextClass = (): AudioContextConstructor | undefined =>
+  window.AudioContext ||
+  (window as Window & { webkitAudioContext?: AudioContextConstructor }).webkitAudioContext
+
+// Points per fade curve; the browser interpolates between them
+const CURVE_POINTS = 128
+
+// Gain over a fade with equal-power curves: the two decks together keep a
+// steady loudness, where linear fades dip in the middle
+export const equalPowerCurve = (direction: 'in' | 'out', points = CURVE_POINTS) => {
+  const curve = new Float32Array(points)
+  for (let i = 0; i < points; i++) {
+    const angle = (i / (points - 1)) * (Math.PI / 2)
+    curve[i] = direction === 'in' ? Math.sin(angle) : Math.cos(angle)
+  }
+  return curve
+}
+
+export class AudioEngine {
+  private context: AudioContext
+  private master: GainNode
+  private deckGains: [GainNode, GainNode]
+  private sources: (MediaElementAudioSourceNode | null)[] = [null, null]
+
+  constructor(context: AudioContext) {
+    this.context = context
+    this.master = context.createGain()
+    this.master.connect(context.destination)
+    this.deckGains = [context.createGain(), context.createGain()]
+    this.deckGains.forEach(deckGain => deckGain.connect(this.master))
+    this.deckGains[1].gain.value = 0
+  }
+
+  // Route an element into a deck. An element can only be routed once, and
+  // from then on is heard through the graph alone, so its own volume is
+  // left at full and the master gain takes over.
+  attach(deck: Deck, element: HTMLMediaElement) {
+    if (this.sources[deck]?.mediaElement === element) return
+
+    this.sources[deck]?.disconnect()
+    const source = this.context.createMediaElementSource(element)
+    source.connect(this.deckGains[deck])
+    this.sources[deck] = source
+    element.volume = 1
+    element.muted = false
+  }
+
+  isAttached(element: HTMLMediaElement) {
+    return this.sources.some(source => source?.mediaElement === element)
+  }
+
+  // Browsers start contexts suspended until there has been a user gesture
+  resume() {
+    if (this.context.state === 'suspended') {
+      this.context.resume().catch((error) => {
+        console.warn('Could not resume audio context:', error)
+      })
+    }
+  }
+
+  setVolume(volume: number) {
+    this.master.gain.setValueAtTime(volume, this.context.currentTime)
+  }
+
+  // Jump a deck to a gain, dropping any fade in progress on it
+  setDeckGain(deck: Deck, value: number) {
+    const { gain } = this.deckGains[deck]
+    gain.cancelScheduledValues(0)
+    gain.setValueAtTime(value, this.context.currentTime)
+  }
+
+  crossfade(from: Deck, to: Deck, seconds: number) {
+    const now = this.context.currentTime
+    const fades: [Deck, 'in' | 'out'][] = [[from, 'out'], [to, 'in']]
+    fades.forEach(([deck, direction]) => {
+      const { gain } = this.deckGains[deck]
+      gain.cancelScheduledValues(0)
+      gain.setValueCurveAtTime(equalPowerCurve(direction), now, seconds)
+    })
+  }
+
+  close() {
+    this.sources.forEach(source => source?.disconnect())
+    this.context.close().catch(() => {})
+  }
+}
+
+// Null where Web Audio is unavailable; the player then uses the elements
+// directly and cuts between mixes instead of fading
+export const createAudioEngine = () => {
+  const AudioContextClass = getAudioContextClass()
+  if (!AudioContextClass) return null
+
+  try {
+    return new AudioEngine(new AudioContextClass())
+  } catch (error) {
+    console.warn('Web Audio is not available:', error)
+    return null
+  }
+}
@@ -0,0 +1,70 @@
+// Media Session API helpers, which let media keys, headsets and lock
+// screens show and control what the player is playing
+
+export const supportsMediaSession = () =>
+  typeof navigator !== 'undefined' && 'mediaSession' in navigator
+
+export type SessionActions = Partial<Record<MediaSessionAction, MediaSessionActionHandler>>
+
+const ACTIONS: MediaSessionAction[] = [
+  'play',
+  'pause',
+  'seekto',
+  'seekbackward',
+  'seekforward',
+  'previoustrack',
+  'nexttrack',
+]
+
+// Artwork for every variant of a srcset like "url 128w, url 512w", since
+// each platform picks the size it shows. Covers are square.
+export const artworkFromSrcSet = (src?: string, srcSet?: string): MediaImage[] => {
+  const variants = (srcSet || '')
+    .split(/,\s+/)
+    .map(candidate => candidate.trim().match(/^(\S+)\s+(\d+)w$/))
+    .filter((match): match is RegExpMatchArray => !!match)
+    .map(([, url, width]) => ({ src: url, sizes: `${width}x${width}` }))
+
+  if (variants.length > 0) return variants
+  return src ? [{ src }] : []
+}
+
+export const setSessionMetadata = (metadata: MediaMetadataInit | null) => {
+  if (!supportsMediaSession()) return
+  navigator.mediaSession.metadata = metadata ? new MediaMetadata(metadata) : null
+}
+
+// Register a handler for each action, clearing those left out. Browsers
+// throw for actions they do not know.
+export const setSessionActions = (actions: SessionActions) => {
+  if (!supportsMediaSession()) return
+  ACTIONS.forEach((action) => {
+    try {
+      navigator.mediaSession.setActionHandler(action, actions[action] ?? null)
+    } catch {
+      // Unsupported action
+    }
+  })
+}
+
+export const setSessionPlaybackState = (state: MediaSessionPlaybackState) => {
+  if (supportsMediaSession()) navigator.mediaSession.playbackState = state
+}
+
+export const setSessionPosition = (position: number, duration: number, playbackRate = 1) => {
+  if (!supportsMediaSession() || !navigator.mediaSession.setPositionState) return
+
+  try {
+    if (!Number.isFinite(duration) || duration <= 0) {
+      navigator.mediaSession.setPositionState()
+      return
+    }
+    navigator.mediaSession.setPositionState({
+      duration,
+      playbackRate,
+      position: Math.min(duration, Math.max(0, position)),
+    })
+  } catch (error) {
+    console.warn('Could not update media session position:', error)
+  }
+}
@@ -0,0 +1,119 @@
+import { beforeAll, describe, expect, it } from 'vitest'
+import {
+  chooseRecovery,
+  classifyMediaError,
+  hasRecovered,
+  NO_ATTEMPTS,
+  recordAttempt,
+  RecoveryAttempts,
+} from './playbackErrors'
+
+// Codes as browsers define them; Node has no MediaError
+const MEDIA_ERR = { ABORTED: 1, NETWORK: 2, DECODE: 3, SRC_NOT_SUPPORTED: 4 }
+
+beforeAll(() => {
+  Object.assign(globalThis, {
+    MediaError: {
+      MEDIA_ERR_ABORTED: MEDIA_ERR.ABORTED,
+      MEDIA_ERR_NETWORK: MEDIA_ERR.NETWORK,
+      MEDIA_ERR_DECODE: MEDIA_ERR.DECODE,
+      MEDIA_ERR_SRC_NOT_SUPPORTED: MEDIA_ERR.SRC_NOT_SUPPORTED,
+    },
+  })
+})
+
+const both = { canResign: true, canSkip: true }
+const neither = { canResign: false, canSkip: false }
+
+const attempts = (changes: Partial<RecoveryAttempts>): RecoveryAttempts => ({ ...NO_ATTEMPTS, ...changes })
+
+describe('classifyMediaError', () => {
+  it.each([
+    [MEDIA_ERR.NETWORK, false, 'network'],
+    [MEDIA_ERR.NETWORK, true, 'expired'],
+    [MEDIA_ERR.DECODE, false, 'decode'],
+    [MEDIA_ERR.DECODE, true, 'decode'],
+    [MEDIA_ERR.SRC_NOT_SUPPORTED, false, 'unsupported'],
+    [MEDIA_ERR.SRC_NOT_SUPPORTED, true, 'expired'],
+    [undefined, false, 'network'],
+    [undefined, true, 'expired'],
+  ])('classifies code %s with an expired URL %s as %s', (code, expired, kind) => {
+    expect(classifyMediaError(code, expired)).toBe(kind)
+  })
+
+  it('does not count an aborted load as a failure', () => {
+    expect(classifyMediaError(MEDIA_ERR.ABORTED, false)).toBeNull()
+    expect(classifyMediaError(MEDIA_ERR.ABORTED, true)).toBeNull()
+  })
+})
+
+describe('chooseRecovery', () => {
+  it('retries network failures with growing delays, then signs again', () => {
+    expect(chooseRecovery('network', attempts({ retries: 0 }), both)).toEqual({ type: 'retry', delay: 1000 })
+    expect(chooseRecovery('network', attempts({ retries: 1 }), both)).toEqual({ type: 'retry', delay: 2000 })
+    expect(chooseRecovery('network', attempts({ retries: 2 }), both)).toEqual({ type: 'retry', delay: 4000 })
+    expect(chooseRecovery('network', attempts({ retries: 3 }), both)).toEqual({ type: 'resign' })
+    expect(chooseRecovery('network', attempts({ retries: 3, resigned: true }), both)).toEqual({ type: 'fail' })
+  })
+
+  it('gives up on network failures it cannot sign again', () => {
+    expect(chooseRecovery('network', attempts({ retries: 3 }), neither)).toEqual({ type: 'fail' })
+  })
+
+  it('signs an expired URL again once', () => {
+    expect(chooseRecovery('expired', NO_ATTEMPTS, both)).toEqual({ type: 'resign' })
+    expect(chooseRecovery('expired', attempts({ resigned: true }), both)).toEqual({ type: 'fail' })
+    expect(chooseRecovery('expired', NO_ATTEMPTS, neither)).toEqual({ type: 'fail' })
+  })
+
+  it('retries a decode failure once, then skips', () => {
+    expect(chooseRecovery('decode', NO_ATTEMPTS, both)).toEqual({ type: 'retry', delay: 0 })
+    expect(chooseRecovery('decode', attempts({ retries: 1 }), both)).toEqual({ type: 'skip' })
+    expect(chooseRecovery('decode', attempts({ retries: 1 }), neither)).toEqual({ type: 'fail' })
+  })
+
+  it('signs an unsupported source again once, as a refused first load reads the same', () => {
+    expect(chooseRecovery('unsupported', NO_ATTEMPTS, both)).toEqual({ type: 'resign' })
+    expect(chooseRecovery('unsupported', attempts({ resigned: true }), both)).toEqual({ type: 'skip' })
+  })
+
+  it('loads an unsupported source once more when it cannot sign again', () => {
+    expect(chooseRecovery('unsupported', NO_ATTEMPTS, neither)).toEqual({ type: 'retry', delay: 0 })
+    expect(chooseRecovery('unsupported', attempts({ retries: 1 }), neither)).toEqual({ type: 'fail' })
+  })
+
+  it('does not load an unsupported source again after earlier attempts', () => {
+    expect(chooseRecovery('unsupported', attempts({ retries: 3, resigned: true }), both)).toEqual({ type: 'skip' })
+  })
+})
+
+describe('recordAttempt', () => {
+  it('counts retries', () => {
+    const after = recordAttempt(NO_ATTEMPTS, { type: 'retry', delay: 1000 }, 12)
+    expect(after).toEqual({ retries: 1, resigned: false, position: 12 })
+    expect(recordAttempt(after, { type: 'retry', delay: 2000 }, 15)).toEqual({ retries: 2, resigned: false, position: 15 })
+  })
+
+  it('remembers signing again', () => {
+    const after = recordAttempt(attempts({ retries: 3 }), { type: 'resign' }, 40)
+    expect(after).toEqual({ retries: 3, resigned: true, position: 40 })
+    expect(recordAttempt(after, { type: 'retry', delay: 0 }, 41).resigned).toBe(true)
+  })
+
+  it('leaves NO_ATTEMPTS untouched', () => {
+    recordAttempt(NO_ATTEMPTS, { type: 'retry', delay: 1000 }, 12)
+    expect(NO_ATTEMPTS).toEqual({ retries: 0, resigned: false, position: 0 })
+  })
+})
+
+describe('hasRecovered', () => {
+  it('needs 30 seconds of playback past the last failure', () => {
+    const failed = attempts({ retries: 1, position: 100 })
+    expect(hasRecovered(failed, 129)).toBe(false)
+    expect(hasRecovered(failed, 130)).toBe(true)
+  })
+
+  it('has nothing to recover from without attempts', () => {
+    expect(hasRecovered(NO_ATTEMPTS, 1000)).toBe(false)
+  })
+})
@@ -0,0 +1,124 @@
+// Why playback of a source failed, what the player does about it, and a
+// hook for reporting failures to whoever collects them
+
+export type PlaybackErrorKind = 'network' | 'decode' | 'unsupported' | 'expired'
+
+export type RecoveryAction =
+  | { type: 'retry'; delay: number }
+  | { type: 'resign' }
+  | { type: 'skip' }
+  | { type: 'fail' }
+
+// What has been tried for the current source since it last played well
+export interface RecoveryAttempts {
+  retries: number
+  resigned: boolean
+  // Playback position of the last failure
+  position: number
+}
+
+export interface PlaybackErrorReport {
+  kind: PlaybackErrorKind
+  // MediaError code, or the hls.js error details
+  code?: number | string
+  // Source without its query, so tokens stay out of reports
+  source: string
+  position: number
+  // What the player settled on; `fallback` is HLS giving way to the file.
+  // Retries and new signatures are steps on the way and are not reported.
+  action: Exclude<RecoveryAction['type'], 'retry' | 'resign'> | 'fallback'
+  // What had been tried for the source before this failure
+  attempts: RecoveryAttempts
+}
+
+export const NO_ATTEMPTS: RecoveryAttempts = { retries: 0, resigned: false, position: 0 }
+
+// Network failures are retried after 1, 2 and 4 seconds
+const MAX_NETWORK_RETRIES = 3
+const RETRY_BASE_DELAY_MS = 1000
+// A decoder can trip over one bad frame, so it gets a second chance
+const MAX_DECODE_RETRIES = 1
+// Playing this far past the last failure counts as having recovered
+const RECOVERED_AFTER_SECONDS = 30
+
+export const playbackErrorMessages: Record<PlaybackErrorKind, string> = {
+  network: 'Lost the connection while loading this mix. Check your connection and try again.',
+  decode: 'This mix could not be decoded. The file may be damaged.',
+  unsupported: 'This browser cannot play the format of this mix.',
+  expired: 'The link to this mix has expired. Retry to load it again.',
+}
+
+// The element reports a refused URL the same way as a dropped connection or
+// an unknown format, so `expired` says whether the URL's signature has run
+// out. A first load failing over HTTP also reads as an unknown format, which
+// chooseRecovery allows for. Aborted loads are not failures.
+export const classifyMediaError = (code: number | undefined, expired: boolean): PlaybackErrorKind | null => {
+  switch (code) {
+    case MediaError.MEDIA_ERR_ABORTED:
+      return null
+    case MediaError.MEDIA_ERR_DECODE:
+      return 'decode'
+    case MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED:
+      return expired ? 'expired' : 'unsupported'
+    default:
+      return expired ? 'expired' : 'network'
+  }
+}
+
+// Retry what may pass, sign the URL again when it may have been refused,
+// and move on to the next mix when this one will never play
+export const chooseRecovery = (
+  kind: PlaybackErrorKind,
+  attempts: RecoveryAttempts,
+  { canResign, canSkip }: { canResign: boolean; canSkip: boolean }
+): RecoveryAction => {
+  const resign: RecoveryAction = canResign && !attempts.resigned ? { type: 'resign' } : { type: 'fail' }
+
+  switch (kind) {
+    case 'expired':
+      return resign
+    case 'network':
+      return attempts.retries < MAX_NETWORK_RETRIES
+        ? { type: 'retry', delay: RETRY_BASE_DELAY_MS * 2 ** attempts.retries }
+        : resign
+    case 'decode':
+      if (attempts.retries < MAX_DECODE_RETRIES) return { type: 'retry', delay: 0 }
+      return canSkip ? { type: 'skip' } : { type: 'fail' }
+    case 'unsupported':
+      // Could still be a refused or dropped first request, so the source is
+      // loaded once more, signed again where possible, before giving up
+      if (attempts.retries === 0 && !attempts.resigned) {
+        return canResign ? { type: 'resign' } : { type: 'retry', delay: 0 }
+      }
+      return canSkip ? { type: 'skip' } : { type: 'fail' }
+  }
+}
+
+// Attempts after taking `action` at `position`
+export const recordAttempt = (attempts: RecoveryAttempts, action: RecoveryAction, position: number): RecoveryAttempts => ({
+  retries: attempts.retries + (action.type === 'retry' ? 1 : 0),
+  resigned: attempts.resigned || action.type === 'resign',
+  position,
+})
+
+export const hasRecovered = (attempts: RecoveryAttempts, position: number) =>
+  attempts !== NO_ATTEMPTS && position - attempts.position >= RECOVERED_AFTER_SECONDS
+
+export const reportSource = (url: string) => url.split('?')[0]
+
+const listeners = new Set<(report: PlaybackErrorReport) => void>()
+
+// Called once per source the player gives up on, skips or falls back from
+export const reportPlaybackError = (report: PlaybackErrorReport) => {
+  console.warn(`Playback failed (${report.kind}), action: ${report.action}`, report)
+  listeners.forEach(listener => listener(report))
+}
+
+// Subscribe to playback failures, as for telemetry; returns an unsubscribe
+// function
+export const onPlaybackError = (listener: (report: PlaybackErrorReport) => void) => {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
@@ -0,0 +1,80 @@
+import { supabase } from '../supabase'
+import { PlaybackPosition } from '../../types'
+
+// Listening positions per user and mix. They are kept in localStorage as
+// well as the playback_positions table, so progress survives being offline
+// or the table being unreachable; the newer copy wins.
+
+const STORAGE_PREFIX = 'mixstream-positions'
+
+// Past this share of a mix it counts as finished
+export const FINISHED_FRACTION = 0.95
+// Positions closer to the start are not worth offering to resume
+export const MIN_RESUME_POSITION = 30
+
+export type PositionMap = Record<string, PlaybackPosition>
+
+export const isFinished = ({ position, duration }: PlaybackPosition) =>
+  duration > 0 && position / duration >= FINISHED_FRACTION
+
+// Where to offer resuming a mix from, or null to start from the top
+export const resumePosition = (saved?: PlaybackPosition) =>
+  saved && !isFinished(saved) && saved.position >= MIN_RESUME_POSITION ? saved.position : null
+
+// Share of a partly played mix that has been heard, or null for mixes not
+// started or already finished
+export const partialProgress = (saved?: PlaybackPosition) =>
+  saved && saved.position > 0 && !isFinished(saved) ? saved.position / saved.duration : null
+
+const loadLocalPositions = (userId: string): PositionMap => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(`${STORAGE_PREFIX}:${userId}`) || '{}')
+    return stored && typeof stored === 'object' ? stored : {}
+  } catch {
+    return {}
+  }
+}
+
+const saveLocalPosition = (userId: string, saved: PlaybackPosition) => {
+  try {
+    const positions = loadLocalPositions(userId)
+    positions[saved.mix_id] = saved
+    localStorage.setItem(`${STORAGE_PREFIX}:${userId}`, JSON.stringify(positions))
+  } catch (error) {
+    console.warn('Could not save playback position locally:', error)
+  }
+}
+
+const newer = (a: PlaybackPosition | undefined, b: PlaybackPosition) =>
+  !a || Date.parse(b.updated_at) > Date.parse(a.updated_at) ? b : a
+
+export const fetchPositions = async (userId: string): Promise<PositionMap> => {
+  const positions = loadLocalPositions(userId)
+
+  const { data, error } = await supabase
+    .from('playback_positions')
+    .select('mix_id, position, duration, updated_at')
+    .eq('user_id', userId)
+
+  if (error) {
+    console.warn('Falling back to locally saved playback positions:', error)
+    return positions
+  }
+
+  ;(data as PlaybackPosition[]).forEach((saved) => {
+    positions[saved.mix_id] = newer(positions[saved.mix_id], saved)
+  })
+  return positions
+}
+
+export const storePosition = async (userId: string, saved: PlaybackPosition) => {
+  saveLocalPosition(userId, saved)
+
+  const { error } = await supabase
+    .from('playback_positions')
+    .upsert({ user_id: userId, ...saved }, { onConflict: 'user_id,mix_id' })
+
+  if (error) {
+    console.warn('Failed to save playback position:', error)
+  }
+}
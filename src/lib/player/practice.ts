@@ -0,0 +1,115 @@
+import { supabase } from '../supabase'
+import { LoopRegion } from '../../types'
+import { MAX_PLAYBACK_RATE, MIN_PLAYBACK_RATE } from './preferences'
+import { formatTime } from './time'
+
+// Tools for studying a mix: playing it slower or faster, and looping a
+// section between an A and a B point. Loops worth keeping are saved as
+// named regions per listener and mix.
+
+export const PLAYBACK_RATES = [0.5, 0.75, 0.9, 1, 1.1, 1.25, 1.5, 2]
+
+// Seconds a loop point moves per nudge, and with Shift held
+export const LOOP_NUDGE_STEP = 0.1
+export const FINE_LOOP_NUDGE_STEP = 0.01
+// Shortest loop, so A and B never meet
+export const MIN_LOOP_LENGTH = 0.1
+
+export interface LoopPoints {
+  start: number | null
+  end: number | null
+}
+
+export type LoopPoint = keyof LoopPoints
+
+export const NO_LOOP: LoopPoints = { start: null, end: null }
+
+export const isLoopSet = (loop: LoopPoints): loop is { start: number; end: number } =>
+  loop.start !== null && loop.end !== null
+
+export const formatRate = (rate: number) => `${rate}×`
+
+// Loop points as m:ss.cc, fine enough to tell nudges apart
+export const formatLoopTime = (seconds: number) => {
+  const hundredths = Math.round(seconds * 100)
+  return `${formatTime(Math.floor(hundredths / 100))}.${(hundredths % 100).toString().padStart(2, '0')}`
+}
+
+// The preset after `rate` in `direction`, staying within the allowed range
+export const stepPlaybackRate = (rate: number, direction: 1 | -1) => {
+  if (direction > 0) return PLAYBACK_RATES.find(preset => preset > rate) ?? MAX_PLAYBACK_RATE
+  return [...PLAYBACK_RATES].reverse().find(preset => preset < rate) ?? MIN_PLAYBACK_RATE
+}
+
+// Put A at `time`; a B that would no longer follow it is dropped
+export const setLoopStart = (loop: LoopPoints, time: number): LoopPoints => ({
+  start: time,
+  end: loop.end !== null && loop.end - time >= MIN_LOOP_LENGTH ? loop.end : null,
+})
+
+// Put B at `time`. Set before A, the two swap, so the loop always runs
+// forward.
+export const setLoopEnd = (loop: LoopPoints, time: number): LoopPoints => {
+  const start = loop.start ?? 0
+  if (Math.abs(time - start) < MIN_LOOP_LENGTH) return loop
+  return time > start ? { start, end: time } : { start: time, end: start }
+}
+
+// Move one point by `delta` seconds, keeping it within the mix and on its
+// side of the other point
+export const nudgeLoopPoint = (loop: LoopPoints, point: LoopPoint, delta: number, duration: number): LoopPoints => {
+  const time = loop[point]
+  if (time === null) return loop
+
+  const moved = time + delta
+  if (point === 'start') {
+    const max = loop.end !== null ? loop.end - MIN_LOOP_LENGTH : duration
+    return { ...loop, start: Math.min(max, Math.max(0, moved)) }
+  }
+  const min = loop.start !== null ? loop.start + MIN_LOOP_LENGTH : 0
+  return { ...loop, end: Math.max(min, Math.min(duration || moved, moved)) }
+}
+
+export const loopFromRegion = (region: LoopRegion): LoopPoints => ({
+  start: region.start_time,
+  end: region.end_time,
+})
+
+export const defaultRegionName = (loop: { start: number; end: number }) =>
+  `Loop ${formatTime(loop.start)}–${formatTime(loop.end)}`
+
+export const fetchLoopRegions = async (mixId: string): Promise<LoopRegion[]> => {
+  const { data, error } = await supabase
+    .from('loop_regions')
+    .select('id, mix_id, name, start_time, end_time, created_at')
+    .eq('mix_id', mixId)
+    .order('start_time')
+
+  if (error) throw new Error(`Database error: ${error.message}`)
+  return data as LoopRegion[]
+}
+
+export const createLoopRegion = async (
+  userId: string,
+  mixId: string,
+  name: string,
+  loop: { start: number; end: number }
+): Promise<LoopRegion> => {
+  const { data, error } = await supabase
+    .from('loop_regions')
+    .insert({ user_id: userId, mix_id: mixId, name, start_time: loop.start, end_time: loop.end })
+    .select('id, mix_id, name, start_time, end_time, created_at')
+    .single()
+
+  if (error) throw new Error(`Database error: ${error.message}`)
+  return data as LoopRegion
+}
+
+export const deleteLoopRegion = async (id: string) => {
+  const { error } = await supabase
+    .from('loop_regions')
+    .delete()
+    .eq('id', id)
+
+  if (error) throw new Error(`Database error: ${error.message}`)
+}
@@ -0,0 +1,64 @@
+// Player settings kept in localStorage, so they carry over between sessions
+
+const STORAGE_KEY = 'mixstream-player'
+
+// Longest overlap between the end of one mix and the start of the next
+export const MAX_CROSSFADE = 12
+export const MIN_PLAYBACK_RATE = 0.5
+export const MAX_PLAYBACK_RATE = 2
+
+export interface PlayerPreferences {
+  // 0-1, as on HTMLMediaElement.volume
+  volume: number
+  muted: boolean
+  // Seconds of overlap between queued audio mixes; 0 turns crossfading off
+  crossfade: number
+  // Start the next audio mix, loaded ahead, the moment the current one ends
+  gapless: boolean
+  // Height of the video rendition to stream; null picks one by bandwidth
+  videoQuality: number | null
+  // Speed of playback, as on HTMLMediaElement.playbackRate
+  playbackRate: number
+  // Keep the pitch when playing faster or slower, rather than shifting it
+  // like a turntable would
+  preservesPitch: boolean
+}
+
+const DEFAULT_PREFERENCES: PlayerPreferences = {
+  volume: 1,
+  muted: false,
+  crossfade: 0,
+  gapless: false,
+  videoQuality: null,
+  playbackRate: 1,
+  preservesPitch: true,
+}
+
+export const loadPlayerPreferences = (): PlayerPreferences => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}')
+    return {
+      volume: typeof stored.volume === 'number' ? Math.min(1, Math.max(0, stored.volume)) : DEFAULT_PREFERENCES.volume,
+      muted: typeof stored.muted === 'boolean' ? stored.muted : DEFAULT_PREFERENCES.muted,
+      crossfade: typeof stored.crossfade === 'number'
+        ? Math.min(MAX_CROSSFADE, Math.max(0, stored.crossfade))
+        : DEFAULT_PREFERENCES.crossfade,
+      gapless: typeof stored.gapless === 'boolean' ? stored.gapless : DEFAULT_PREFERENCES.gapless,
+      videoQuality: typeof stored.videoQuality === 'number' ? stored.videoQuality : DEFAULT_PREFERENCES.videoQuality,
+      playbackRate: typeof stored.playbackRate === 'number'
+        ? Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, stored.playbackRate))
+        : DEFAULT_PREFERENCES.playbackRate,
+      preservesPitch: typeof stored.preservesPitch === 'boolean' ? stored.preservesPitch : DEFAULT_PREFERENCES.preservesPitch,
+    }
+  } catch {
+    return DEFAULT_PREFERENCES
+  }
+}
+
+export const savePlayerPreferences = (preferences: Partial<PlayerPreferences>) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...loadPlayerPreferences(), ...preferences }))
+  } catch (error) {
+    console.warn('Could not save player preferences:', error)
+  }
+}
@@ -0,0 +1,187 @@
+import { MusicMix } from '../../types'
+
+// Play queue state and the pure operations on it. PlayerContext owns the
+// state; everything here returns a new object.
+
+export type RepeatMode = 'off' | 'all' | 'one'
+
+export interface QueueEntry {
+  // Unique per entry, so the same mix can be queued twice
+  id: string
+  mix: MusicMix
+}
+
+export interface QueueState {
+  entries: QueueEntry[]
+  // -1 when nothing is selected
+  currentIndex: number
+  shuffle: boolean
+  repeat: RepeatMode
+  // Entry ids in the order they had before shuffle was turned on
+  unshuffledOrder: string[] | null
+}
+
+export const EMPTY_QUEUE: QueueState = {
+  entries: [],
+  currentIndex: -1,
+  shuffle: false,
+  repeat: 'off',
+  unshuffledOrder: null,
+}
+
+const STORAGE_PREFIX = 'mixstream-queue'
+
+export const createEntry = (mix: MusicMix): QueueEntry => ({
+  id: `${Date.now()}-${Math.random().toString(36).substring(2, 10)}`,
+  mix,
+})
+
+const shuffled = <T>(items: T[]) => {
+  const result = [...items]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1))
+    ;[result[i], result[j]] = [result[j], result[i]]
+  }
+  return result
+}
+
+// Randomise the entries after the current one
+export const shuffleUpcoming = (state: QueueState): QueueState => {
+  const played = state.entries.slice(0, state.currentIndex + 1)
+  const upcoming = state.entries.slice(state.currentIndex + 1)
+  return { ...state, entries: [...played, ...shuffled(upcoming)] }
+}
+
+// Put entries back in their order from before shuffling. Entries added while
+// shuffled keep their relative order after the known ones.
+const unshuffle = (state: QueueState): QueueState => {
+  if (!state.unshuffledOrder) return state
+
+  const rank = new Map(state.unshuffledOrder.map((id, index) => [id, index]))
+  const current = state.entries[state.currentIndex]
+  const entries = [...state.entries].sort((a, b) =>
+    (rank.get(a.id) ?? Infinity) - (rank.get(b.id) ?? Infinity))
+
+  return {
+    ...state,
+    entries,
+    currentIndex: current ? entries.indexOf(current) : -1,
+  }
+}
+
+export const setShuffle = (state: QueueState, shuffle: boolean): QueueState => {
+  if (shuffle === state.shuffle) return state
+  return shuffle
+    ? shuffleUpcoming({ ...state, shuffle, unshuffledOrder: state.entries.map(entry => entry.id) })
+    : { ...unshuffle(state), shuffle, unshuffledOrder: null }
+}
+
+export const nextRepeatMode = (repeat: RepeatMode): RepeatMode =>
+  repeat === 'off' ? 'all' : repeat === 'all' ? 'one' : 'off'
+
+// Index that follows the current entry, or -1 at the end of the queue.
+// Repeat-one is left to the media element, which loops.
+export const followingIndex = (state: QueueState) => {
+  const next = state.currentIndex + 1
+  if (next < state.entries.length) return next
+  return state.repeat === 'all' && state.entries.length > 0 ? 0 : -1
+}
+
+export const precedingIndex = (state: QueueState) => {
+  if (state.currentIndex > 0) return state.currentIndex - 1
+  return state.repeat === 'all' && state.entries.length > 0 ? state.entries.length - 1 : -1
+}
+
+// Up to `count` entries that will play after the current one
+export const upcomingEntries = (state: QueueState, count: number) => {
+  const upcoming: QueueEntry[] = []
+  let index = state.currentIndex
+  for (let i = 0; i < count; i++) {
+    index = followingIndex({ ...state, currentIndex: index })
+    if (index < 0 || index === state.currentIndex) break
+    upcoming.push(state.entries[index])
+  }
+  return upcoming
+}
+
+export const insertAfterCurrent = (state: QueueState, entry: QueueEntry): QueueState => {
+  const entries = [...state.entries]
+  entries.splice(state.currentIndex + 1, 0, entry)
+  return {
+    ...state,
+    entries,
+    currentIndex: state.currentIndex < 0 ? 0 : state.currentIndex,
+  }
+}
+
+export const appendEntry = (state: QueueState, entry: QueueEntry): QueueState => ({
+  ...state,
+  entries: [...state.entries, entry],
+  currentIndex: state.currentIndex < 0 ? 0 : state.currentIndex,
+})
+
+// Move an entry, keeping the current entry selected
+export const moveEntry = (state: QueueState, from: number, to: number): QueueState => {
+  if (from === to || from < 0 || to < 0 || from >= state.entries.length || to >= state.entries.length) {
+    return state
+  }
+
+  const current = state.entries[state.currentIndex]
+  const entries = [...state.entries]
+  const [moved] = entries.splice(from, 1)
+  entries.splice(to, 0, moved)
+  return { ...state, entries, currentIndex: current ? entries.indexOf(current) : -1 }
+}
+
+export const removeEntry = (state: QueueState, index: number): QueueState => {
+  if (index < 0 || index >= state.entries.length) return state
+
+  const entries = state.entries.filter((_, i) => i !== index)
+  let currentIndex = state.currentIndex
+  if (index < currentIndex) {
+    currentIndex -= 1
+  } else if (index === currentIndex) {
+    // The entry that slid into place plays next
+    currentIndex = Math.min(currentIndex, entries.length - 1)
+  }
+  return {
+    ...state,
+    entries,
+    currentIndex,
+    unshuffledOrder: state.unshuffledOrder?.filter(id => id !== state.entries[index].id) ?? null,
+  }
+}
+
+// Signed image URLs expire, so they are left out of the saved queue and
+// resolved again after a reload
+const storableMix = ({ coverUrl, coverSrcSet, thumbnailUrl, audioUrl, ...mix }: MusicMix): MusicMix => mix
+
+export const saveQueue = (userId: string, state: QueueState) => {
+  try {
+    const stored: QueueState = {
+      ...state,
+      entries: state.entries.map(entry => ({ ...entry, mix: storableMix(entry.mix) })),
+    }
+    localStorage.setItem(`${STORAGE_PREFIX}:${userId}`, JSON.stringify(stored))
+  } catch (error) {
+    console.warn('Could not save play queue:', error)
+  }
+}
+
+export const loadQueue = (userId: string): QueueState => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(`${STORAGE_PREFIX}:${userId}`) || 'null')
+    if (!stored || !Array.isArray(stored.entries)) return EMPTY_QUEUE
+
+    const entries: QueueEntry[] = stored.entries.filter((entry: QueueEntry) => entry?.id && entry.mix?.file_path)
+    return {
+      entries,
+      currentIndex: Math.min(Number(stored.currentIndex) || 0, entries.length - 1),
+      shuffle: stored.shuffle === true,
+      repeat: ['off', 'all', 'one'].includes(stored.repeat) ? stored.repeat : 'off',
+      unshuffledOrder: Array.isArray(stored.unshuffledOrder) ? stored.unshuffledOrder : null,
+    }
+  } catch {
+    return EMPTY_QUEUE
+  }
+}
@@ -0,0 +1,98 @@
+// Keyboard shortcut bindings. ShortcutsContext listens for keys and calls
+// the handlers components register for each action; the cheat sheet lists
+// this table.
+
+export type ShortcutAction =
+  | 'togglePlay'
+  | 'seekBackward'
+  | 'seekForward'
+  | 'stepBackward'
+  | 'stepForward'
+  | 'volumeUp'
+  | 'volumeDown'
+  | 'toggleMute'
+  | 'toggleFullscreen'
+  | 'next'
+  | 'previous'
+  | 'nextTrack'
+  | 'previousTrack'
+  | 'slower'
+  | 'faster'
+  | 'setLoopStart'
+  | 'setLoopEnd'
+  | 'clearLoop'
+  | 'focusSearch'
+  | 'goToLibrary'
+  | 'showShortcuts'
+
+export interface Shortcut {
+  action: ShortcutAction
+  // Alternative bindings, each a sequence of keys pressed one after another
+  bindings: string[][]
+  description: string
+  group: 'Player' | 'Library' | 'General'
+}
+
+export const SHORTCUTS: Shortcut[] = [
+  { action: 'togglePlay', bindings: [[' '], ['k']], description: 'Play or pause', group: 'Player' },
+  { action: 'seekBackward', bindings: [['j']], description: 'Back 10 seconds', group: 'Player' },
+  { action: 'seekForward', bindings: [['l']], description: 'Forward 10 seconds', group: 'Player' },
+  { action: 'stepBackward', bindings: [['ArrowLeft']], description: 'Back 5 seconds', group: 'Player' },
+  { action: 'stepForward', bindings: [['ArrowRight']], description: 'Forward 5 seconds', group: 'Player' },
+  { action: 'volumeUp', bindings: [['ArrowUp']], description: 'Volume up', group: 'Player' },
+  { action: 'volumeDown', bindings: [['ArrowDown']], description: 'Volume down', group: 'Player' },
+  { action: 'toggleMute', bindings: [['m']], description: 'Mute or unmute', group: 'Player' },
+  { action: 'toggleFullscreen', bindings: [['f']], description: 'Fullscreen video', group: 'Player' },
+  { action: 'next', bindings: [['n']], description: 'Next in queue', group: 'Player' },
+  { action: 'previous', bindings: [['p']], description: 'Previous in queue', group: 'Player' },
+  { action: 'nextTrack', bindings: [[']']], description: 'Next track in the mix', group: 'Player' },
+  { action: 'previousTrack', bindings: [['[']], description: 'Previous track in the mix', group: 'Player' },
+  { action: 'slower', bindings: [['<']], description: 'Play slower', group: 'Player' },
+  { action: 'faster', bindings: [['>']], description: 'Play faster', group: 'Player' },
+  { action: 'setLoopStart', bindings: [['a']], description: 'Set loop start (A)', group: 'Player' },
+  { action: 'setLoopEnd', bindings: [['b']], description: 'Set loop end (B)', group: 'Player' },
+  { action: 'clearLoop', bindings: [['x']], description: 'Clear the loop', group: 'Player' },
+  { action: 'focusSearch', bindings: [['/']], description: 'Search mixes', group: 'Library' },
+  { action: 'goToLibrary', bindings: [['g', 'l']], description: 'Go to the library', group: 'Library' },
+  { action: 'showShortcuts', bindings: [['?']], description: 'Show keyboard shortcuts', group: 'General' },
+]
+
+// Letters match whatever the case, so Caps Lock does not get in the way
+export const normalizeKey = (key: string) => (key.length === 1 ? key.toLowerCase() : key)
+
+const KEY_LABELS: Record<string, string> = {
+  ' ': 'Space',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+}
+
+export const keyLabel = (key: string) => KEY_LABELS[key] ?? key.toUpperCase()
+
+// Fields where keys belong to the user's typing rather than to shortcuts
+export const isTypingTarget = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
+
+const startsWith = (binding: string[], keys: string[]) =>
+  keys.length <= binding.length && keys.every((key, index) => binding[index] === key)
+
+// The action bound to exactly `keys`, and whether `keys` could still grow
+// into a longer binding
+export const matchShortcut = (keys: string[]) => {
+  let action: ShortcutAction | null = null
+  let isPrefix = false
+  SHORTCUTS.forEach((shortcut) => {
+    shortcut.bindings.forEach((binding) => {
+      if (!startsWith(binding, keys)) return
+      if (binding.length === keys.length) {
+        action = shortcut.action
+      } else {
+        isPrefix = true
+      }
+    })
+  })
+  return { action: action as ShortcutAction | null, isPrefix }
+}
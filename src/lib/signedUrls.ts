@@ -0,0 +1,114 @@
+import { STORAGE_BUCKET, supabase } from './supabase'
+
+// Signed URLs for objects in the private mixes bucket. Each is cached by
+// path until shortly before it expires, and paths asked for in the same
+// task are signed together in one request.
+
+// Lifetime of a signed URL. The player signs again when one stops working,
+// so it can stay short.
+export const SIGNED_URL_TTL = 30 * 60
+// A cached URL this close to expiring is signed again, so the one handed
+// out has time left to be used
+const EXPIRY_MARGIN_MS = 2 * 60 * 1000
+// Most paths sent in one signing request
+const SIGN_BATCH_SIZE = 500
+
+interface CachedUrl {
+  url: Promise<string>
+  expiresAt: number
+}
+
+interface PendingSignature {
+  resolve: (url: string) => void
+  reject: (reason: unknown) => void
+}
+
+const cache = new Map<string, CachedUrl>()
+// Paths waiting to be signed, by TTL, until the current task ends
+const queued = new Map<number, Map<string, PendingSignature>>()
+
+const signBatch = async (ttl: number, batch: Map<string, PendingSignature>) => {
+  const paths = [...batch.keys()]
+  const { data, error } = await supabase.storage
+    .from(STORAGE_BUCKET)
+    .createSignedUrls(paths, ttl)
+
+  const results = new Map((data ?? []).map(entry => [entry.path, entry]))
+  batch.forEach(({ resolve, reject }, path) => {
+    const result = results.get(path)
+    if (result?.signedUrl) {
+      resolve(result.signedUrl)
+    } else {
+      reject(error ?? new Error(result?.error || `Could not sign ${path}`))
+    }
+  })
+}
+
+const flush = (ttl: number) => {
+  const pending = queued.get(ttl)
+  queued.delete(ttl)
+  if (!pending) return
+
+  const entries = [...pending]
+  for (let i = 0; i < entries.length; i += SIGN_BATCH_SIZE) {
+    const batch = new Map(entries.slice(i, i + SIGN_BATCH_SIZE))
+    signBatch(ttl, batch).catch((error) => {
+      batch.forEach(({ reject }) => reject(error))
+    })
+  }
+}
+
+const requestSignature = (path: string, ttl: number) =>
+  new Promise<string>((resolve, reject) => {
+    let pending = queued.get(ttl)
+    if (!pending) {
+      pending = new Map()
+      queued.set(ttl, pending)
+      queueMicrotask(() => flush(ttl))
+    }
+    pending.set(path, { resolve, reject })
+  })
+
+export const getSignedUrl = (path: string, ttl = SIGNED_URL_TTL): Promise<string> => {
+  const cached = cache.get(path)
+  if (cached && cached.expiresAt - EXPIRY_MARGIN_MS > Date.now()) return cached.url
+
+  const url = requestSignature(path, ttl)
+  cache.set(path, { url, expiresAt: Date.now() + ttl * 1000 })
+  // A failed request should not be reused
+  url.catch(() => {
+    if (cache.get(path)?.url === url) cache.delete(path)
+  })
+  return url
+}
+
+// Sign a whole list at once; paths that could not be signed are left out
+export const getSignedUrls = async (paths: string[], ttl = SIGNED_URL_TTL) => {
+  const results = await Promise.allSettled(paths.map(path => getSignedUrl(path, ttl)))
+  const urls = new Map<string, string>()
+  results.forEach((result, index) => {
+    if (result.status === 'fulfilled') urls.set(paths[index], result.value)
+  })
+  return urls
+}
+
+// Sign a path again although its cached URL has not expired, as when the
+// storage server refused it
+export const refreshSignedUrl = (path: string, ttl = SIGNED_URL_TTL) => {
+  cache.delete(path)
+  return getSignedUrl(path, ttl)
+}
+
+// Whether the signature of a URL has run out, or is about to, read from
+// the expiry in its token; false for URLs without one. The margin covers a
+// clock running behind the storage server's.
+export const hasSignatureExpired = (url: string) => {
+  try {
+    const payload = new URL(url).searchParams.get('token')?.split('.')[1]
+    if (!payload) return false
+    const { exp } = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')))
+    return typeof exp === 'number' && exp * 1000 - EXPIRY_MARGIN_MS <= Date.now()
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { CHUNK_SIZE, planChunks } from './chunkTransport';
+import { UploadSession } from './sessions';
+
+const session = (changes: Partial<UploadSession> = {}): UploadSession => ({
+  id: 'user/set.mp3-1-0',
+  destination: 'user',
+  fingerprint: 'set.mp3-1-0',
+  fileName: 'set.mp3',
+  fileSize: 0,
+  fileType: 'audio/mpeg',
+  fileHash: 'hash',
+  filePath: 'user/1-set.mp3',
+  transport: 'tus',
+  totalChunks: 0,
+  uploadedChunks: [],
+  bytesUploaded: 0,
+  mix: {} as UploadSession['mix'],
+  createdAt: 0,
+  updatedAt: 0,
+  ...changes,
+});
+
+describe('planChunks', () => {
+  const fileSize = 3 * CHUNK_SIZE + 100;
+
+  it('sends every chunk of a new session', () => {
+    expect(planChunks(fileSize, session())).toEqual({
+      totalChunks: 4,
+      uploadedChunks: new Set(),
+      pendingChunks: [0, 1, 2, 3],
+      confirmedBytes: 0,
+    });
+  });
+
+  it('skips the chunks a chunked session confirmed', () => {
+    const plan = planChunks(fileSize, session({
+      transport: 'chunked',
+      totalChunks: 4,
+      uploadedChunks: [3, 0],
+      bytesUploaded: CHUNK_SIZE + 100,
+    }));
+    expect(plan.pendingChunks).toEqual([1, 2]);
+    expect(plan.confirmedBytes).toBe(CHUNK_SIZE + 100);
+  });
+
+  it('has nothing to send once every chunk is confirmed', () => {
+    const plan = planChunks(fileSize, session({
+      transport: 'chunked',
+      totalChunks: 4,
+      uploadedChunks: [0, 1, 2, 3],
+      bytesUploaded: fileSize,
+    }));
+    expect(plan.pendingChunks).toEqual([]);
+    expect(plan.confirmedBytes).toBe(fileSize);
+  });
+
+  it('starts over when the session was uploading over TUS', () => {
+    const plan = planChunks(fileSize, session({ transport: 'tus', bytesUploaded: 2 * CHUNK_SIZE }));
+    expect(plan.pendingChunks).toEqual([0, 1, 2, 3]);
+    expect(plan.confirmedBytes).toBe(0);
+  });
+
+  it('sends a file of exactly one chunk as one chunk', () => {
+    expect(planChunks(CHUNK_SIZE, session()).pendingChunks).toEqual([0]);
+  });
+
+  it('has no chunks for an empty file', () => {
+    expect(planChunks(0, session()).pendingChunks).toEqual([]);
+  });
+});
@@ -0,0 +1,162 @@
+import pMap from 'p-map';
+import { getStorageHeaders, STORAGE_BUCKET, STORAGE_OBJECT_ENDPOINT } from '../supabase';
+import { isAbortError } from './control';
+import { chunkPath } from './finalize';
+import { UPLOAD_CONCURRENCY, uploadSlots } from './limiter';
+import { recordUploadedChunk, updateUploadSession, UploadSession } from './sessions';
+import { UploadTransport } from './transport';
+
+export const CHUNK_SIZE = 20 * 1024 * 1024; // 20MB chunks
+const MAX_RETRIES = 3; // Maximum number of retry attempts for failed chunks
+
+// POST one chunk to the Storage REST API. XHR rather than the storage client
+// so the request can be aborted mid-flight and reports bytes as they are sent.
+const putChunk = (
+  path: string,
+  chunk: Blob,
+  headers: Record<string, string>,
+  onUploadProgress: (bytesSent: number) => void,
+  signal?: AbortSignal
+) => new Promise<void>((resolve, reject) => {
+  const xhr = new XMLHttpRequest();
+  xhr.open('POST', `${STORAGE_OBJECT_ENDPOINT}/${STORAGE_BUCKET}/${path}`);
+  Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+  xhr.upload.onprogress = (event) => onUploadProgress(event.loaded);
+
+  const onAbort = () => xhr.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  const settle = () => signal?.removeEventListener('abort', onAbort);
+
+  xhr.onload = () => {
+    settle();
+    if (xhr.status >= 200 && xhr.status < 300) {
+      resolve();
+    } else {
+      reject(new Error(`Chunk upload failed with status ${xhr.status}: ${xhr.responseText}`));
+    }
+  };
+  xhr.onerror = () => {
+    settle();
+    reject(new Error('Network error while uploading chunk'));
+  };
+  xhr.onabort = () => {
+    settle();
+    reject(signal?.reason ?? new DOMException('Upload cancelled', 'AbortError'));
+  };
+
+  xhr.send(chunk);
+});
+
+// Upload a single chunk with retry logic
+const uploadChunk = async (
+  file: File,
+  filePath: string,
+  chunkIndex: number,
+  onUploadProgress: (bytesSent: number) => void,
+  signal?: AbortSignal
+) => {
+  const start = chunkIndex * CHUNK_SIZE;
+  const end = Math.min(start + CHUNK_SIZE, file.size);
+  const chunk = file.slice(start, end);
+
+  let lastError: Error | null = null;
+
+  // Retry logic
+  for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
+    try {
+      onUploadProgress(0);
+      const headers = await getStorageHeaders();
+      await putChunk(chunkPath(filePath, chunkIndex), chunk, {
+        ...headers,
+        'cache-control': 'max-age=3600',
+        'content-type': file.type || 'application/octet-stream',
+        'x-upsert': 'true',
+      }, onUploadProgress, signal);
+      return chunk.size;
+    } catch (error) {
+      // Cancelled uploads are not retried
+      if (isAbortError(error)) throw error;
+
+      lastError = error as Error;
+      console.warn(`Attempt ${attempt} failed for chunk ${chunkIndex}:`, error);
+
+      // Exponential backoff before retry
+      if (attempt < MAX_RETRIES) {
+        await new Promise(resolve => setTimeout(resolve, 1000 * Math.pow(2, attempt)));
+        signal?.throwIfAborted();
+      }
+    }
+  }
+
+  throw lastError || new Error(`Failed to upload chunk ${chunkIndex} after ${MAX_RETRIES} attempts`);
+};
+
+// Which chunks of a file of `fileSize` bytes still need sending, and how many
+// bytes are already confirmed. Chunks recorded by an earlier chunked session
+// are skipped; progress from another transport does not carry over.
+export const planChunks = (fileSize: number, session: UploadSession) => {
+  const totalChunks = Math.ceil(fileSize / CHUNK_SIZE);
+  const resumed = session.transport === 'chunked';
+  const uploadedChunks = new Set(resumed ? session.uploadedChunks : []);
+  return {
+    totalChunks,
+    uploadedChunks,
+    pendingChunks: Array.from({ length: totalChunks }, (_, i) => i).filter(i => !uploadedChunks.has(i)),
+    confirmedBytes: resumed ? session.bytesUploaded : 0,
+  };
+};
+
+// Fallback transport: uploads `.partN` objects in parallel through the regular
+// storage API and leaves assembly to the finalize step
+export const chunkTransport: UploadTransport = {
+  name: 'chunked',
+
+  async upload({ file, session, onBytes, signal, pause }) {
+    const { filePath } = session;
+
+    const plan = planChunks(file.size, session);
+    const { totalChunks, uploadedChunks } = plan;
+    let { confirmedBytes } = plan;
+    await updateUploadSession(session.id, current => current.transport === 'chunked'
+      ? { totalChunks }
+      : { transport: 'chunked', totalChunks, uploadedChunks: [], bytesUploaded: 0 });
+
+    // Bytes sent so far by each chunk request still in flight
+    const inFlight = new Map<number, number>();
+
+    const reportBytes = () => {
+      let sending = 0;
+      inFlight.forEach(bytes => { sending += bytes; });
+      onBytes?.(confirmedBytes + sending);
+    };
+
+    reportBytes();
+
+    // Upload chunks in parallel
+    await pMap(plan.pendingChunks, async (chunkIndex) => {
+      // Paused uploads stop scheduling new chunks here
+      await pause?.waitUntilRunning(signal);
+
+      // Wait for a slot shared with every other upload in progress
+      const release = await uploadSlots.acquire(signal);
+      let chunkBytes: number;
+      try {
+        chunkBytes = await uploadChunk(file, filePath, chunkIndex, (bytesSent) => {
+          inFlight.set(chunkIndex, bytesSent);
+          reportBytes();
+        }, signal);
+      } finally {
+        release();
+      }
+
+      // Persist the confirmed chunk before counting it as uploaded
+      await recordUploadedChunk(session.id, chunkIndex, chunkBytes);
+      uploadedChunks.add(chunkIndex);
+      inFlight.delete(chunkIndex);
+      confirmedBytes += chunkBytes;
+      reportBytes();
+    }, { concurrency: UPLOAD_CONCURRENCY, signal });
+
+    return { transport: 'chunked', filePath, totalChunks };
+  },
+};
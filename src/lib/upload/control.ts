@@ -0,0 +1,53 @@
+// Lets the UI pause an upload between chunks and resume it later. Chunks
+// already in flight finish; no new ones start until resume() is called.
+export class PauseController {
+  private paused = false;
+  private listeners = new Set<(paused: boolean) => void>();
+
+  get isPaused() {
+    return this.paused;
+  }
+
+  pause() {
+    if (this.paused) return;
+    this.paused = true;
+    this.listeners.forEach(listener => listener(true));
+  }
+
+  resume() {
+    if (!this.paused) return;
+    this.paused = false;
+    this.listeners.forEach(listener => listener(false));
+  }
+
+  // Subscribe to pause state changes; returns an unsubscribe function
+  subscribe(listener: (paused: boolean) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Resolve once the upload is running, or reject if it is cancelled first
+  async waitUntilRunning(signal?: AbortSignal) {
+    signal?.throwIfAborted();
+    if (!this.paused) return;
+
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        unsubscribe();
+        reject(signal?.reason);
+      };
+      const unsubscribe = this.subscribe((paused) => {
+        if (paused) return;
+        unsubscribe();
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      });
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
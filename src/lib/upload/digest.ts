@@ -0,0 +1,25 @@
+import { createSHA256 } from 'hash-wasm';
+
+// Bytes read from the file per step. Only one slice is held in memory at a
+// time, so files of any size can be hashed.
+const HASH_SLICE_SIZE = 8 * 1024 * 1024;
+
+// Incremental SHA-256 of a file or blob, as a hex digest. Runs in the hash
+// worker, or on the main thread where workers are unavailable.
+export const digestBlob = async (
+  blob: Blob,
+  onBytes?: (bytesHashed: number) => void,
+  signal?: AbortSignal
+): Promise<string> => {
+  const hasher = await createSHA256();
+  hasher.init();
+
+  for (let offset = 0; offset < blob.size; offset += HASH_SLICE_SIZE) {
+    signal?.throwIfAborted();
+    const slice = await blob.slice(offset, offset + HASH_SLICE_SIZE).arrayBuffer();
+    hasher.update(new Uint8Array(slice));
+    onBytes?.(Math.min(offset + HASH_SLICE_SIZE, blob.size));
+  }
+
+  return hasher.digest('hex');
+};
@@ -0,0 +1,22 @@
+import { supabase } from '../supabase';
+import { DuplicateMixes, MusicMix } from '../../types';
+
+// Find mixes whose file has the given SHA-256. Row level security limits the
+// result to the user's own mixes and public mixes of other users.
+export const findDuplicateMixes = async (contentHash: string, userId: string): Promise<DuplicateMixes> => {
+  const { data, error } = await supabase
+    .from('music_mixes')
+    .select('*')
+    .eq('content_hash', contentHash)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Duplicate check failed: ${error.message}`);
+  }
+
+  const mixes = (data || []) as MusicMix[];
+  return {
+    own: mixes.filter(mix => mix.user_id === userId),
+    others: mixes.filter(mix => mix.user_id !== userId && mix.is_public),
+  };
+};
@@ -0,0 +1,246 @@
+import { createHash } from 'node:crypto';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { chunkPath, finalizeUpload, FinalizeUploadRequest } from './finalize';
+
+// In-memory stand-in for the Storage bucket, the music_mixes table and the
+// finalize function
+const fake = vi.hoisted(() => ({
+  objects: new Map<string, Blob>(),
+  removed: [] as string[][],
+  removeError: null as { message: string } | null,
+  userId: 'user-1' as string | null,
+  rows: new Map<string, Record<string, unknown>>(),
+  writes: [] as { op: string; values: Record<string, unknown> }[],
+  invoke: vi.fn(),
+}));
+
+vi.mock('../supabase', () => {
+  // Chainable query on music_mixes; filters are matched against `rows`
+  const query = () => {
+    const filters: Record<string, unknown> = {};
+    let write: { op: string; values: Record<string, unknown> } | null = null;
+    const builder = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => {
+        filters[column] = value;
+        return builder;
+      },
+      insert: (values: Record<string, unknown>) => {
+        write = { op: 'insert', values };
+        return builder;
+      },
+      update: (values: Record<string, unknown>) => {
+        write = { op: 'update', values };
+        return builder;
+      },
+      single: async () => {
+        if (write) {
+          fake.writes.push(write);
+          const existing = write.op === 'update' ? fake.rows.get(filters.id as string) : {};
+          return { data: { ...existing, ...write.values }, error: null };
+        }
+        const row = [...fake.rows.values()].find(candidate =>
+          Object.entries(filters).every(([column, value]) => candidate[column] === value));
+        return row ? { data: row, error: null } : { data: null, error: { message: 'No rows' } };
+      },
+    };
+    return builder;
+  };
+
+  return {
+    STORAGE_BUCKET: 'music-mixes',
+    supabase: {
+      auth: {
+        getUser: async () => ({ data: { user: fake.userId ? { id: fake.userId } : null } }),
+      },
+      storage: {
+        from: () => ({
+          download: async (path: string) => fake.objects.has(path)
+            ? { data: fake.objects.get(path), error: null }
+            : { data: null, error: new Error(`Object not found: ${path}`) },
+          upload: async (path: string, blob: Blob) => {
+            fake.objects.set(path, blob);
+            return { data: { path }, error: null };
+          },
+          remove: async (paths: string[]) => {
+            fake.removed.push(paths);
+            return { data: [], error: fake.removeError };
+          },
+        }),
+      },
+      from: query,
+      functions: { invoke: (...args: unknown[]) => fake.invoke(...args) },
+    },
+  };
+});
+
+const bytes = (text: string) => new Blob([new TextEncoder().encode(text)]);
+const sha256 = (text: string) => createHash('sha256').update(text).digest('hex');
+
+const mix = {
+  title: 'Set',
+  description: null,
+  file_type: 'audio',
+  mime_type: 'audio/mpeg',
+  is_public: false,
+  artist: null,
+  genre: null,
+  year: null,
+  bpm: null,
+  comment: null,
+  cover_path: null,
+  thumbnail_url: null,
+} as FinalizeUploadRequest['mix'];
+
+const filePath = 'user-1/1-set.mp3';
+
+// A chunked upload of `parts`, stored as `.partN` objects
+const chunkedRequest = (parts: string[], changes: Partial<FinalizeUploadRequest> = {}): FinalizeUploadRequest => {
+  parts.forEach((part, index) => fake.objects.set(chunkPath(filePath, index), bytes(part)));
+  const content = parts.join('');
+  return {
+    transport: 'chunked',
+    filePath,
+    totalChunks: parts.length,
+    fileSize: content.length,
+    sha256: sha256(content),
+    mix,
+    ...changes,
+  };
+};
+
+const storedText = (path: string) => fake.objects.get(path)?.text();
+
+describe('finalizeUpload locally', () => {
+  beforeEach(() => {
+    vi.stubEnv('VITE_UPLOAD_FINALIZER', 'local');
+    fake.objects.clear();
+    fake.rows.clear();
+    fake.removed = [];
+    fake.removeError = null;
+    fake.writes = [];
+    fake.userId = 'user-1';
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('assembles the chunks in order, removes them and records the mix', async () => {
+    await finalizeUpload(chunkedRequest(['first ', 'second ', 'third']));
+
+    expect(await storedText(filePath)).toBe('first second third');
+    expect(fake.removed).toEqual([[0, 1, 2].map(i => chunkPath(filePath, i))]);
+    expect(fake.writes).toMatchObject([{
+      op: 'insert',
+      values: { title: 'Set', file_path: filePath, file_size: 18, content_hash: sha256('first second third'), user_id: 'user-1' },
+    }]);
+  });
+
+  it('verifies an object written whole without rewriting it', async () => {
+    fake.objects.set(filePath, bytes('whole file'));
+    await finalizeUpload({ transport: 'tus', filePath, totalChunks: 0, fileSize: 10, sha256: sha256('whole file'), mix });
+
+    expect(fake.removed).toEqual([]);
+    expect(fake.writes).toHaveLength(1);
+  });
+
+  it('rejects an assembly of the wrong size and keeps the chunks', async () => {
+    await expect(finalizeUpload(chunkedRequest(['first ', 'second'], { fileSize: 20 })))
+      .rejects.toThrow('Assembled size 12 does not match expected 20 bytes');
+
+    expect(fake.objects.has(filePath)).toBe(false);
+    expect(fake.removed).toEqual([]);
+    expect(fake.writes).toEqual([]);
+  });
+
+  it('rejects an assembly whose checksum differs', async () => {
+    await expect(finalizeUpload(chunkedRequest(['first ', 'second'], { sha256: sha256('other content') })))
+      .rejects.toThrow('checksum');
+
+    expect(fake.objects.has(filePath)).toBe(false);
+    expect(fake.writes).toEqual([]);
+  });
+
+  it('fails when a chunk is missing', async () => {
+    const request = chunkedRequest(['first ', 'second']);
+    fake.objects.delete(chunkPath(filePath, 1));
+
+    await expect(finalizeUpload(request)).rejects.toThrow('Object not found');
+    expect(fake.writes).toEqual([]);
+  });
+
+  it.each([
+    ['file', { filePath: 'user-2/1-set.mp3' }, 'File path does not belong to the current user'],
+    ['cover', { mix: { ...mix, cover_path: 'user-2/covers/a/1024.webp' } }, 'Cover path does not belong to the current user'],
+    ['thumbnail', { mix: { ...mix, thumbnail_url: 'user-2/thumbnails/a.jpg' } }, 'Thumbnail path does not belong to the current user'],
+  ])('refuses a %s path outside the user\'s folder', async (_, changes, message) => {
+    await expect(finalizeUpload(chunkedRequest(['first'], changes))).rejects.toThrow(message);
+
+    expect(fake.objects.has(filePath)).toBe(false);
+    expect(fake.writes).toEqual([]);
+  });
+
+  it('does not accept a folder that only starts with the user id', async () => {
+    await expect(finalizeUpload(chunkedRequest(['first'], { filePath: 'user-10/1-set.mp3' })))
+      .rejects.toThrow('File path does not belong to the current user');
+  });
+
+  it('requires a signed in user', async () => {
+    fake.userId = null;
+    await expect(finalizeUpload(chunkedRequest(['first']))).rejects.toThrow('Not signed in');
+  });
+
+  it('replaces the file of a mix and removes the old file and its peaks', async () => {
+    fake.rows.set('mix-1', {
+      id: 'mix-1',
+      user_id: 'user-1',
+      title: 'Old title',
+      file_path: 'user-1/0-old.mp3',
+      waveform_path: 'user-1/0-old.mp3.peaks.json',
+    });
+
+    const updated = await finalizeUpload(chunkedRequest(['new'], { replaceMixId: 'mix-1' }));
+
+    expect(updated).toMatchObject({ id: 'mix-1', title: 'Old title', file_path: filePath, waveform_path: null });
+    expect(fake.removed).toContainEqual(['user-1/0-old.mp3', 'user-1/0-old.mp3.peaks.json']);
+  });
+
+  it('does not replace the file of another user\'s mix', async () => {
+    fake.rows.set('mix-2', { id: 'mix-2', user_id: 'user-2', file_path: 'user-2/0-old.mp3', waveform_path: null });
+
+    await expect(finalizeUpload(chunkedRequest(['new'], { replaceMixId: 'mix-2' })))
+      .rejects.toThrow('Mix to replace was not found');
+    expect(fake.writes).toEqual([]);
+  });
+
+  it('logs chunks it could not remove and still records the mix', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    fake.removeError = { message: 'Storage unavailable' };
+
+    await finalizeUpload(chunkedRequest(['first ', 'second']));
+
+    expect(warn).toHaveBeenCalledWith('Failed to remove chunks:', fake.removeError);
+    expect(fake.writes).toHaveLength(1);
+  });
+});
+
+describe('finalizeUpload through the Edge Function', () => {
+  it('returns the mix the function recorded', async () => {
+    fake.invoke.mockResolvedValueOnce({ data: { mix: { id: 'mix-1' } }, error: null });
+    const request = { transport: 'tus', filePath, totalChunks: 0, fileSize: 1, sha256: 'hash', mix } as const;
+
+    expect(await finalizeUpload(request)).toEqual({ id: 'mix-1' });
+    expect(fake.invoke).toHaveBeenCalledWith('finalize-upload', { body: request });
+  });
+
+  it('reports the error the function explains in its body', async () => {
+    const response = new Response(JSON.stringify({ error: 'Assembled file checksum does not match the uploaded file' }), { status: 422 });
+    fake.invoke.mockResolvedValueOnce({ data: null, error: new FunctionsHttpError(response) });
+
+    await expect(finalizeUpload({ transport: 'tus', filePath, totalChunks: 0, fileSize: 1, sha256: 'hash', mix }))
+      .rejects.toThrow('Assembled file checksum does not match the uploaded file');
+  });
+});
@@ -0,0 +1,166 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase, STORAGE_BUCKET } from '../supabase';
+import { generateFileHash } from './hash';
+import { UploadTransportName } from './transport';
+import { MixDraft, MusicMix } from '../../types';
+
+// Edge Function (supabase/functions/finalize-upload) that assembles chunks
+const FINALIZE_FUNCTION = 'finalize-upload';
+
+export interface FinalizeUploadRequest {
+  transport: UploadTransportName;
+  filePath: string;
+  // Chunks to assemble; 0 when the transport already wrote the whole object
+  totalChunks: number;
+  fileSize: number;
+  sha256: string;
+  mix: MixDraft;
+  // Existing mix whose file is replaced by this upload, instead of creating a
+  // new mix. Its title, description and visibility are kept.
+  replaceMixId?: string;
+}
+
+// Storage path of a single uploaded chunk
+export const chunkPath = (filePath: string, chunkIndex: number) =>
+  `${filePath}.part${chunkIndex}`;
+
+// Ask the Edge Function to concatenate, verify and record the upload
+const finalizeRemotely = async (request: FinalizeUploadRequest): Promise<MusicMix> => {
+  const { data, error } = await supabase.functions.invoke<{ mix: MusicMix }>(
+    FINALIZE_FUNCTION,
+    { body: request }
+  );
+
+  if (error) {
+    // The function reports what went wrong in the JSON body
+    if (error instanceof FunctionsHttpError) {
+      const body = await error.context.json().catch(() => null);
+      throw new Error(body?.error || error.message);
+    }
+    throw error;
+  }
+
+  if (!data?.mix) {
+    throw new Error('Finalize step returned no mix record');
+  }
+
+  return data.mix;
+};
+
+// Local stand-in for the Edge Function. It assembles the file in the browser,
+// so it is only meant for development and tests with small files.
+const finalizeLocally = async ({
+  filePath,
+  totalChunks,
+  fileSize,
+  sha256,
+  mix,
+  replaceMixId,
+}: FinalizeUploadRequest): Promise<MusicMix> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not signed in');
+
+  // Users may only finalize files in their own folder, as the Edge Function
+  // enforces
+  if (!filePath.startsWith(`${user.id}/`)) {
+    throw new Error('File path does not belong to the current user');
+  }
+  if (mix.cover_path && !mix.cover_path.startsWith(`${user.id}/`)) {
+    throw new Error('Cover path does not belong to the current user');
+  }
+  if (mix.thumbnail_url && !mix.thumbnail_url.startsWith(`${user.id}/`)) {
+    throw new Error('Thumbnail path does not belong to the current user');
+  }
+
+  const bucket = supabase.storage.from(STORAGE_BUCKET);
+  const partPaths = Array.from({ length: totalChunks }, (_, i) => chunkPath(filePath, i));
+
+  // Read the chunks, or the finished object when there is nothing to assemble
+  const parts: Blob[] = [];
+  for (const partPath of totalChunks > 0 ? partPaths : [filePath]) {
+    const { data, error } = await bucket.download(partPath);
+    if (error || !data) {
+      throw error || new Error(`Missing object ${partPath}`);
+    }
+    parts.push(data);
+  }
+
+  const assembled = new Blob(parts, { type: mix.mime_type });
+  if (assembled.size !== fileSize) {
+    throw new Error(`Assembled size ${assembled.size} does not match expected ${fileSize} bytes`);
+  }
+
+  const digest = await generateFileHash(assembled);
+  if (digest !== sha256) {
+    throw new Error('Assembled file checksum does not match the uploaded file');
+  }
+
+  if (totalChunks > 0) {
+    const { error: uploadError } = await bucket.upload(filePath, assembled, {
+      cacheControl: '3600',
+      upsert: true,
+      contentType: mix.mime_type,
+    });
+    if (uploadError) throw uploadError;
+
+    const { error: removeError } = await bucket.remove(partPaths);
+    if (removeError) {
+      console.warn('Failed to remove chunks:', removeError);
+    }
+  }
+
+  if (replaceMixId) {
+    const { data: existing, error: fetchError } = await supabase
+      .from('music_mixes')
+      .select('file_path, waveform_path')
+      .eq('id', replaceMixId)
+      .eq('user_id', user.id)
+      .single();
+    if (fetchError || !existing) throw new Error('Mix to replace was not found');
+
+    const { data, error } = await supabase
+      .from('music_mixes')
+      .update({
+        file_path: filePath,
+        file_size: fileSize,
+        file_type: mix.file_type,
+        mime_type: mix.mime_type,
+        duration: mix.duration,
+        content_hash: sha256,
+        // The old peaks describe the old file
+        waveform_path: null,
+      })
+      .eq('id', replaceMixId)
+      .select()
+      .single();
+
+    if (error) throw new Error(`Database error: ${error.message}`);
+    const replacedObjects = [existing.file_path, existing.waveform_path]
+      .filter((path): path is string => !!path && path !== filePath);
+    if (replacedObjects.length > 0) {
+      const { error: removeError } = await bucket.remove(replacedObjects);
+      if (removeError) {
+        console.warn('Failed to remove replaced file:', removeError);
+      }
+    }
+    return data as MusicMix;
+  }
+
+  const { data, error } = await supabase
+    .from('music_mixes')
+    .insert({ ...mix, file_path: filePath, file_size: fileSize, content_hash: sha256, user_id: user.id })
+    .select()
+    .single();
+
+  if (error) throw new Error(`Database error: ${error.message}`);
+  return data as MusicMix;
+};
+
+// Concatenate every chunk in order, verify byte count and SHA-256, then
+// create the music_mixes row, or update the one being replaced. Set VITE_UPLOAD_FINALIZER=local to skip the
+// Edge Function when running without Supabase Functions.
+export const finalizeUpload = (request: FinalizeUploadRequest): Promise<MusicMix> => {
+  return import.meta.env.VITE_UPLOAD_FINALIZER === 'local'
+    ? finalizeLocally(request)
+    : finalizeRemotely(request);
+};
@@ -0,0 +1,58 @@
+import { digestBlob } from './digest';
+import type { HashWorkerMessage } from './hash.worker';
+
+export interface HashOptions {
+  // Called with the number of bytes hashed so far
+  onProgress?: (bytesHashed: number) => void;
+  signal?: AbortSignal;
+}
+
+// Generate a SHA-256 hex digest of a file or blob. The file is read in slices
+// inside a Web Worker, so large uploads neither block the page nor have to
+// fit in memory.
+export const generateFileHash = (
+  file: Blob,
+  { onProgress, signal }: HashOptions = {}
+): Promise<string> => {
+  if (typeof Worker === 'undefined') {
+    return digestBlob(file, onProgress, signal);
+  }
+
+  signal?.throwIfAborted();
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./hash.worker.ts', import.meta.url), { type: 'module' });
+
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    const onAbort = () => {
+      cleanup();
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<HashWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.bytesHashed);
+        return;
+      }
+      cleanup();
+      if (message.type === 'done') {
+        resolve(message.hash);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || 'Hash worker failed'));
+    };
+
+    worker.postMessage({ file });
+  });
+};
@@ -0,0 +1,22 @@
+import { digestBlob } from './digest';
+
+export interface HashWorkerRequest {
+  file: Blob;
+}
+
+export type HashWorkerMessage =
+  | { type: 'progress'; bytesHashed: number }
+  | { type: 'done'; hash: string }
+  | { type: 'error'; message: string };
+
+const post = (message: HashWorkerMessage) => self.postMessage(message);
+
+// Hashes one file per message and reports progress after every slice
+self.onmessage = async (event: MessageEvent<HashWorkerRequest>) => {
+  try {
+    const hash = await digestBlob(event.data.file, bytesHashed => post({ type: 'progress', bytesHashed }));
+    post({ type: 'done', hash });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Hashing failed' });
+  }
+};
@@ -0,0 +1,136 @@
+import { isAbortError, PauseController } from './control';
+import { finalizeUpload } from './finalize';
+import { generateFileHash } from './hash';
+import {
+  deleteUploadSession,
+  discardUploadSession,
+  openUploadSession,
+  UploadSession,
+} from './sessions';
+import { ThroughputEstimator } from './throughput';
+import { chunkTransport } from './chunkTransport';
+import { tusTransport } from './tusTransport';
+import {
+  TransportUnavailableError,
+  TransportUploadResult,
+  UploadTransport,
+  UploadTransportName,
+} from './transport';
+import { MixDraft, UploadStats } from '../../types';
+
+export { isAbortError, PauseController } from './control';
+export { UPLOAD_CONCURRENCY } from './limiter';
+export { findDuplicateMixes } from './duplicates';
+export { generateFileHash } from './hash';
+
+export interface UploadFileOptions {
+  // Cancels the upload; stored chunks and the resume record are removed
+  signal?: AbortSignal;
+  // Pauses the upload between chunks
+  pause?: PauseController;
+  // Progress of the hashing phase that runs before any bytes are sent, 0-100
+  onHashProgress?: (progress: number) => void;
+  // SHA-256 computed beforehand; skips the hashing phase
+  fileHash?: string;
+  // Replace the file of this existing mix instead of creating a new mix
+  replaceMixId?: string;
+}
+
+const TRANSPORTS: Record<UploadTransportName, UploadTransport> = {
+  tus: tusTransport,
+  chunked: chunkTransport,
+};
+
+// TUS first, with the chunk scheme as fallback. VITE_UPLOAD_TRANSPORT=chunked
+// forces the fallback. A resumed session keeps the transport it started with.
+const selectTransports = (session: UploadSession): UploadTransport[] => {
+  if (session.transport === 'chunked' || import.meta.env.VITE_UPLOAD_TRANSPORT === 'chunked') {
+    return [TRANSPORTS.chunked];
+  }
+  return [TRANSPORTS.tus, TRANSPORTS.chunked];
+};
+
+// Main upload function: moves the file into storage with the first transport
+// that works, then hands off to the finalize step which verifies it and
+// creates the mix record. If an unfinished session exists for the same file
+// and destination, the upload continues from it and keeps its file path.
+export const uploadFile = async (
+  file: File,
+  filePath: string,
+  mix: MixDraft,
+  onProgress?: (progress: number, stats: UploadStats) => void,
+  { signal, pause, onHashProgress, fileHash: knownHash, replaceMixId }: UploadFileOptions = {}
+) => {
+  let session: UploadSession | null = null;
+
+  // Byte-accurate progress with a smoothed speed and ETA
+  const estimator = new ThroughputEstimator();
+  const reportBytes = (bytesUploaded: number) => {
+    estimator.add(bytesUploaded);
+    const bytesTotal = file.size;
+    onProgress?.(bytesTotal > 0 ? bytesUploaded / bytesTotal * 100 : 100, {
+      bytesUploaded,
+      bytesTotal,
+      bytesPerSecond: estimator.bytesPerSecond,
+      etaSeconds: estimator.eta(bytesTotal - bytesUploaded),
+    });
+  };
+  // Time spent paused should not count against the transfer rate
+  const unsubscribePause = pause?.subscribe((paused) => {
+    if (!paused) estimator.reset();
+  });
+
+  try {
+    const fileHash = knownHash ?? await generateFileHash(file, {
+      signal,
+      onProgress: (bytesHashed) => onHashProgress?.(file.size > 0 ? bytesHashed / file.size * 100 : 100),
+    });
+    signal?.throwIfAborted();
+    session = await openUploadSession(file, filePath, fileHash, mix);
+
+    const transports = selectTransports(session);
+    let uploaded: TransportUploadResult | null = null;
+    for (const transport of transports) {
+      try {
+        uploaded = await transport.upload({ file, session, onBytes: reportBytes, signal, pause });
+        break;
+      } catch (error) {
+        if (!(error instanceof TransportUnavailableError) || transport === transports[transports.length - 1]) {
+          throw error;
+        }
+        console.warn(`${transport.name} upload unavailable, falling back:`, error.message);
+      }
+    }
+
+    if (!uploaded) {
+      throw new Error('No upload transport available');
+    }
+
+    // Assemble and verify the upload, then create the database record
+    signal?.throwIfAborted();
+    const result = await finalizeUpload({
+      transport: uploaded.transport,
+      filePath: uploaded.filePath,
+      totalChunks: uploaded.totalChunks,
+      fileSize: file.size,
+      sha256: fileHash,
+      mix,
+      replaceMixId,
+    });
+
+    await deleteUploadSession(session.id);
+    return result;
+
+  } catch (error) {
+    if (isAbortError(error)) {
+      if (session) {
+        await discardUploadSession(session).catch(console.warn);
+      }
+    } else {
+      console.error('Upload failed:', error);
+    }
+    throw error;
+  } finally {
+    unsubscribePause?.();
+  }
+};
@@ -0,0 +1,48 @@
+// Number of upload requests in flight across every file being uploaded
+export const UPLOAD_CONCURRENCY = 3;
+
+// Counting semaphore. acquire() resolves with a release function once a slot
+// is free, or rejects if the signal aborts while waiting.
+export const createLimiter = (concurrency: number) => {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  const releaseSlot = () => {
+    active--;
+    waiting.shift()?.();
+  };
+
+  const acquire = (signal?: AbortSignal) => new Promise<() => void>((resolve, reject) => {
+    signal?.throwIfAborted();
+
+    const onAbort = () => {
+      const index = waiting.indexOf(grant);
+      if (index >= 0) waiting.splice(index, 1);
+      reject(signal?.reason);
+    };
+
+    const grant = () => {
+      active++;
+      signal?.removeEventListener('abort', onAbort);
+      let released = false;
+      resolve(() => {
+        if (released) return;
+        released = true;
+        releaseSlot();
+      });
+    };
+
+    if (active < concurrency) {
+      grant();
+    } else {
+      waiting.push(grant);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    }
+  });
+
+  return { acquire };
+};
+
+// Slots shared by all transports, so a queue of files never exceeds
+// UPLOAD_CONCURRENCY requests in total
+export const uploadSlots = createLimiter(UPLOAD_CONCURRENCY);
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { fileFingerprint, sessionMatchesFile, UploadSession } from './sessions';
+
+const file = (name: string, size: number, lastModified: number) =>
+  new File([new Uint8Array(size)], name, { lastModified });
+
+const sessionFor = (source: File): UploadSession => ({
+  id: `user/${fileFingerprint(source)}`,
+  destination: 'user',
+  fingerprint: fileFingerprint(source),
+  fileName: source.name,
+  fileSize: source.size,
+  fileType: source.type,
+  fileHash: 'hash',
+  filePath: 'user/1-set.mp3',
+  transport: 'tus',
+  totalChunks: 0,
+  uploadedChunks: [],
+  bytesUploaded: 0,
+  mix: {} as UploadSession['mix'],
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+describe('sessionMatchesFile', () => {
+  const original = file('set.mp3', 16, 1_700_000_000_000);
+
+  it('matches the same file picked again', () => {
+    expect(sessionMatchesFile(sessionFor(original), file('set.mp3', 16, 1_700_000_000_000))).toBe(true);
+  });
+
+  it('does not match a file with another name', () => {
+    expect(sessionMatchesFile(sessionFor(original), file('set (1).mp3', 16, 1_700_000_000_000))).toBe(false);
+  });
+
+  it('does not match a file of another size', () => {
+    expect(sessionMatchesFile(sessionFor(original), file('set.mp3', 17, 1_700_000_000_000))).toBe(false);
+  });
+
+  it('does not match a file modified since', () => {
+    expect(sessionMatchesFile(sessionFor(original), file('set.mp3', 16, 1_700_000_000_001))).toBe(false);
+  });
+});
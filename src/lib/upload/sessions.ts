@@ -0,0 +1,219 @@
+import { supabase, STORAGE_BUCKET } from '../supabase';
+import { chunkPath } from './finalize';
+import { UploadTransportName } from './transport';
+import { MixDraft } from '../../types';
+
+const DB_NAME = 'mixstream-uploads';
+const DB_VERSION = 1;
+const STORE = 'sessions';
+// Sessions untouched for this long are discarded along with their chunks
+const SESSION_TTL = 7 * 24 * 60 * 60 * 1000;
+const PART_SUFFIX = /\.part\d+$/;
+
+export interface UploadSession {
+  // `${destination}/${fingerprint}`
+  id: string;
+  // Folder the file is uploaded into (the user's folder)
+  destination: string;
+  fingerprint: string;
+  fileName: string;
+  fileSize: number;
+  fileType: string;
+  fileHash: string;
+  // Final object path, fixed when the session is created
+  filePath: string;
+  transport: UploadTransportName;
+  totalChunks: number;
+  uploadedChunks: number[];
+  bytesUploaded: number;
+  tusUploadUrl?: string;
+  mix: MixDraft;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Identify a file without reading it, so it can be recognised after a reload
+export const fileFingerprint = (file: File) =>
+  [file.name, file.size, file.lastModified].join('-');
+
+export const sessionMatchesFile = (session: UploadSession, file: File) =>
+  session.fingerprint === fileFingerprint(file);
+
+const destinationOf = (filePath: string) => filePath.split('/').slice(0, -1).join('/');
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('destination', 'destination');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Run a request against the sessions store and resolve with its result
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getUploadSession = (id: string) =>
+  withStore<UploadSession | undefined>('readonly', store => store.get(id));
+
+export const listUploadSessions = (destination: string) =>
+  withStore<UploadSession[]>('readonly', store => store.index('destination').getAll(destination));
+
+const putUploadSession = (session: UploadSession) =>
+  withStore('readwrite', store => store.put(session));
+
+export const deleteUploadSession = (id: string) =>
+  withStore('readwrite', store => store.delete(id));
+
+// Apply a change to a stored session inside a single transaction, so
+// concurrent chunk workers cannot overwrite each other's progress
+export const updateUploadSession = async (
+  id: string,
+  update: (session: UploadSession) => Partial<UploadSession>
+) => {
+  const db = await openDatabase();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(STORE, 'readwrite');
+    const store = transaction.objectStore(STORE);
+    const request = store.get(id);
+    request.onsuccess = () => {
+      const session = request.result as UploadSession | undefined;
+      if (session) {
+        store.put({ ...session, ...update(session), updatedAt: Date.now() });
+      }
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// Mark a chunk as confirmed by the server
+export const recordUploadedChunk = (id: string, chunkIndex: number, chunkBytes: number) =>
+  updateUploadSession(id, session => session.uploadedChunks.includes(chunkIndex)
+    ? {}
+    : {
+      uploadedChunks: [...session.uploadedChunks, chunkIndex],
+      bytesUploaded: session.bytesUploaded + chunkBytes,
+    });
+
+// Remove the `.partN` objects a chunked session left behind
+const removeSessionChunks = async (session: UploadSession) => {
+  if (session.transport !== 'chunked' || session.totalChunks === 0) return;
+
+  const partPaths = Array.from({ length: session.totalChunks }, (_, i) => chunkPath(session.filePath, i));
+  const { error } = await supabase.storage.from(STORAGE_BUCKET).remove(partPaths);
+  if (error) {
+    console.warn('Failed to remove session chunks:', error);
+  }
+};
+
+// Abandon an unfinished upload and everything it stored
+export const discardUploadSession = async (session: UploadSession) => {
+  // The stored copy knows which chunks the transport has written since
+  const stored = await getUploadSession(session.id);
+  await removeSessionChunks(stored || session);
+  await deleteUploadSession(session.id);
+};
+
+// Find the session for this file and destination, or start a new one.
+// A session whose file hash differs is stale and gets replaced.
+export const openUploadSession = async (
+  file: File,
+  filePath: string,
+  fileHash: string,
+  mix: MixDraft
+): Promise<UploadSession> => {
+  const destination = destinationOf(filePath);
+  const fingerprint = fileFingerprint(file);
+  const id = `${destination}/${fingerprint}`;
+
+  const existing = await getUploadSession(id);
+  if (existing && existing.fileHash === fileHash) {
+    const resumed = { ...existing, mix, updatedAt: Date.now() };
+    await putUploadSession(resumed);
+    return resumed;
+  }
+
+  if (existing) {
+    await removeSessionChunks(existing);
+  }
+
+  const session: UploadSession = {
+    id,
+    destination,
+    fingerprint,
+    fileName: file.name,
+    fileSize: file.size,
+    fileType: file.type,
+    fileHash,
+    filePath,
+    transport: 'tus',
+    totalChunks: 0,
+    uploadedChunks: [],
+    bytesUploaded: 0,
+    mix,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  };
+  await putUploadSession(session);
+  return session;
+};
+
+// Drop sessions that have not moved in SESSION_TTL, and any `.partN` objects
+// in the destination that no live session accounts for
+export const collectStaleUploadSessions = async (destination: string) => {
+  const now = Date.now();
+  const sessions = await listUploadSessions(destination);
+  const live = new Set<string>();
+
+  for (const session of sessions) {
+    if (now - session.updatedAt > SESSION_TTL) {
+      await discardUploadSession(session);
+    } else {
+      live.add(session.filePath);
+    }
+  }
+
+  const { data: objects, error } = await supabase.storage
+    .from(STORAGE_BUCKET)
+    .list(destination, { limit: 1000 });
+
+  if (error) {
+    console.warn('Failed to list uploads for cleanup:', error);
+    return;
+  }
+
+  const orphans = (objects || [])
+    .filter(object => PART_SUFFIX.test(object.name))
+    .filter(object => !live.has(`${destination}/${object.name.replace(PART_SUFFIX, '')}`))
+    .filter(object => !object.created_at || now - new Date(object.created_at).getTime() > SESSION_TTL)
+    .map(object => `${destination}/${object.name}`);
+
+  if (orphans.length > 0) {
+    const { error: removeError } = await supabase.storage.from(STORAGE_BUCKET).remove(orphans);
+    if (removeError) {
+      console.warn('Failed to remove orphaned chunks:', removeError);
+    }
+  }
+};
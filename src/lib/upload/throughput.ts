@@ -0,0 +1,57 @@
+// How far back the rolling window reaches
+const WINDOW_MS = 10000;
+// Minimum time between smoothed updates, so bursts of progress events
+// from parallel requests do not dominate the average
+const UPDATE_INTERVAL_MS = 500;
+// Weight of the newest window rate in the exponential moving average
+const SMOOTHING = 0.3;
+
+interface Sample {
+  time: number;
+  bytes: number;
+}
+
+// Turns cumulative byte counts into a smoothed transfer rate and ETA
+export class ThroughputEstimator {
+  private samples: Sample[] = [];
+  private smoothedRate: number | null = null;
+  private lastUpdate = 0;
+
+  // Record the total number of bytes transferred so far
+  add(bytes: number, time = performance.now()) {
+    this.samples.push({ time, bytes });
+    while (this.samples.length > 2 && time - this.samples[0].time > WINDOW_MS) {
+      this.samples.shift();
+    }
+
+    if (time - this.lastUpdate < UPDATE_INTERVAL_MS) return;
+
+    const first = this.samples[0];
+    const elapsed = (time - first.time) / 1000;
+    if (elapsed <= 0) return;
+
+    const windowRate = Math.max(0, bytes - first.bytes) / elapsed;
+    this.smoothedRate = this.smoothedRate === null
+      ? windowRate
+      : SMOOTHING * windowRate + (1 - SMOOTHING) * this.smoothedRate;
+    this.lastUpdate = time;
+  }
+
+  // Bytes per second, or null until there is enough data
+  get bytesPerSecond() {
+    return this.smoothedRate;
+  }
+
+  // Seconds until the remaining bytes are sent at the current rate
+  eta(remainingBytes: number) {
+    if (!this.smoothedRate) return null;
+    return remainingBytes / this.smoothedRate;
+  }
+
+  // Forget history, e.g. after a pause, so idle time does not drag the rate down
+  reset() {
+    this.samples = [];
+    this.smoothedRate = null;
+    this.lastUpdate = 0;
+  }
+}
@@ -0,0 +1,39 @@
+import { PauseController } from './control';
+import { UploadSession } from './sessions';
+
+// Transports move the bytes of a file into storage. The finalize step then
+// verifies the result and creates the mix record.
+
+export type UploadTransportName = 'tus' | 'chunked';
+
+export interface TransportUploadOptions {
+  file: File;
+  // Persisted resume state; transports record confirmed progress on it
+  session: UploadSession;
+  // Total bytes of the file stored so far, including partly sent requests
+  onBytes?: (bytesUploaded: number) => void;
+  // Aborting stops in-flight requests; the caller cleans up what was stored
+  signal?: AbortSignal;
+  pause?: PauseController;
+}
+
+export interface TransportUploadResult {
+  transport: UploadTransportName;
+  filePath: string;
+  // Number of `.partN` objects to assemble, or 0 if the object is complete
+  totalChunks: number;
+}
+
+export interface UploadTransport {
+  name: UploadTransportName;
+  upload(options: TransportUploadOptions): Promise<TransportUploadResult>;
+}
+
+// Thrown when a transport cannot be used at all (e.g. the server does not
+// accept it), so the caller can fall back to the next transport
+export class TransportUnavailableError extends Error {
+  constructor(message: string, readonly cause?: unknown) {
+    super(message);
+    this.name = 'TransportUnavailableError';
+  }
+}
@@ -0,0 +1,121 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { PauseController } from './control';
+import { UPLOAD_CONCURRENCY, uploadSlots } from './limiter';
+import { UploadSession } from './sessions';
+import { tusTransport } from './tusTransport';
+
+// Stand-in for tus.Upload that records how it was driven
+const uploads = vi.hoisted(() => [] as {
+  options: Record<string, unknown>;
+  start: ReturnType<typeof vi.fn>;
+  abort: ReturnType<typeof vi.fn>;
+}[]);
+
+vi.mock('tus-js-client', () => ({
+  isSupported: true,
+  DetailedError: class extends Error {},
+  Upload: class {
+    url = null;
+    start = vi.fn();
+    abort = vi.fn(() => Promise.resolve());
+    constructor(_file: File, readonly options: Record<string, unknown>) {
+      uploads.push(this);
+    }
+  },
+}));
+
+vi.mock('../supabase', () => ({
+  STORAGE_BUCKET: 'music-mixes',
+  STORAGE_RESUMABLE_ENDPOINT: 'http://localhost/storage/v1/upload/resumable',
+  getStorageHeaders: () => Promise.resolve({ apikey: 'key', authorization: 'Bearer token' }),
+}));
+
+vi.mock('./sessions', () => ({
+  updateUploadSession: () => Promise.resolve(),
+}));
+
+const session = (changes: Partial<UploadSession> = {}): UploadSession => ({
+  id: 'user/set.mp3-16-0',
+  destination: 'user',
+  fingerprint: 'set.mp3-16-0',
+  fileName: 'set.mp3',
+  fileSize: 16,
+  fileType: 'audio/mpeg',
+  fileHash: 'hash',
+  filePath: 'user/1-set.mp3',
+  transport: 'tus',
+  totalChunks: 0,
+  uploadedChunks: [],
+  bytesUploaded: 0,
+  mix: { mime_type: 'audio/mpeg' } as UploadSession['mix'],
+  createdAt: 0,
+  updatedAt: 0,
+  ...changes,
+});
+
+const file = new File([new Uint8Array(16)], 'set.mp3');
+
+// Let pending promise callbacks run
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('tusTransport', () => {
+  beforeEach(() => {
+    uploads.length = 0;
+  });
+
+  it('continues from the upload URL stored on the session', async () => {
+    const controller = new AbortController();
+    const upload = tusTransport.upload({
+      file,
+      session: session({ tusUploadUrl: 'http://localhost/upload/abc', bytesUploaded: 8 }),
+      signal: controller.signal,
+    });
+    await settle();
+
+    expect(uploads).toHaveLength(1);
+    expect(uploads[0].options.uploadUrl).toBe('http://localhost/upload/abc');
+    expect(uploads[0].start).toHaveBeenCalledTimes(1);
+
+    controller.abort();
+    await expect(upload).rejects.toThrow();
+  });
+
+  it('starts once when resumed while waiting for a slot', async () => {
+    // Take every slot so the upload has to wait
+    const held = await Promise.all(Array.from({ length: UPLOAD_CONCURRENCY }, () => uploadSlots.acquire()));
+    const controller = new AbortController();
+    const pause = new PauseController();
+    const upload = tusTransport.upload({ file, session: session(), signal: controller.signal, pause });
+    await settle();
+
+    pause.pause();
+    pause.resume();
+    held.forEach(release => release());
+    await settle();
+
+    expect(uploads[0].start).toHaveBeenCalledTimes(1);
+
+    controller.abort();
+    await expect(upload).rejects.toThrow();
+  });
+
+  it('stays stopped when paused while waiting for a slot', async () => {
+    const held = await Promise.all(Array.from({ length: UPLOAD_CONCURRENCY }, () => uploadSlots.acquire()));
+    const controller = new AbortController();
+    const pause = new PauseController();
+    const upload = tusTransport.upload({ file, session: session(), signal: controller.signal, pause });
+    await settle();
+
+    pause.pause();
+    held.forEach(release => release());
+    await settle();
+    expect(uploads[0].start).not.toHaveBeenCalled();
+
+    pause.resume();
+    await settle();
+    expect(uploads[0].start).toHaveBeenCalledTimes(1);
+
+    controller.abort();
+    await expect(upload).rejects.toThrow();
+  });
+});
@@ -0,0 +1,144 @@
+import * as tus from 'tus-js-client';
+import { getStorageHeaders, STORAGE_BUCKET, STORAGE_RESUMABLE_ENDPOINT } from '../supabase';
+import { isAbortError } from './control';
+import { uploadSlots } from './limiter';
+import { updateUploadSession } from './sessions';
+import { TransportUnavailableError, UploadTransport } from './transport';
+
+// Supabase Storage only accepts 6MB chunks on its TUS endpoint
+const TUS_CHUNK_SIZE = 6 * 1024 * 1024;
+// Delays between retries after a network drop, in milliseconds
+const TUS_RETRY_DELAYS = [0, 3000, 5000, 10000, 20000];
+// Status codes meaning the server does not offer resumable uploads
+const UNAVAILABLE_STATUSES = [404, 405, 501];
+
+const responseStatus = (error: Error) =>
+  error instanceof tus.DetailedError ? error.originalResponse?.getStatus() : undefined;
+
+// Resumable uploads over the TUS protocol. Offsets are negotiated with the
+// server, and unfinished uploads are picked up again after a reload from the
+// upload URL stored on the session.
+export const tusTransport: UploadTransport = {
+  name: 'tus',
+
+  async upload({ file, session, onBytes, signal, pause }) {
+    if (!tus.isSupported) {
+      throw new TransportUnavailableError('TUS uploads are not supported in this browser');
+    }
+
+    signal?.throwIfAborted();
+    const { authorization } = await getStorageHeaders();
+    const { filePath } = session;
+
+    return new Promise((resolve, reject) => {
+      let bytesAccepted = session.bytesUploaded;
+      // A TUS upload is one request stream, so it holds a single shared slot
+      // while it is running
+      let releaseSlot: (() => void) | null = null;
+
+      // Stop reacting to pause and cancel once the upload has settled
+      const cleanup = () => {
+        unsubscribePause?.();
+        signal?.removeEventListener('abort', onAbort);
+        releaseSlot?.();
+        releaseSlot = null;
+      };
+
+      const upload = new tus.Upload(file, {
+        endpoint: STORAGE_RESUMABLE_ENDPOINT,
+        // Continue an earlier upload of this session; the server reports the offset
+        uploadUrl: session.tusUploadUrl,
+        retryDelays: TUS_RETRY_DELAYS,
+        chunkSize: TUS_CHUNK_SIZE,
+        headers: {
+          authorization,
+          'x-upsert': 'true',
+        },
+        uploadDataDuringCreation: true,
+        storeFingerprintForResuming: false,
+        metadata: {
+          bucketName: STORAGE_BUCKET,
+          objectName: filePath,
+          contentType: session.mix.mime_type,
+          cacheControl: '3600',
+          sha256: session.fileHash,
+        },
+        onUploadUrlAvailable: () => {
+          updateUploadSession(session.id, () => ({ tusUploadUrl: upload.url ?? undefined }))
+            .catch(console.warn);
+        },
+        onProgress: (bytesSent) => {
+          onBytes?.(bytesSent);
+        },
+        onChunkComplete: (_chunkSize, accepted) => {
+          bytesAccepted = accepted;
+          updateUploadSession(session.id, () => ({ bytesUploaded: accepted }))
+            .catch(console.warn);
+        },
+        onError: (error) => {
+          cleanup();
+          const status = responseStatus(error);
+          if (bytesAccepted === 0 && status !== undefined && UNAVAILABLE_STATUSES.includes(status)) {
+            reject(new TransportUnavailableError(`TUS endpoint rejected the upload (status ${status})`, error));
+            return;
+          }
+          reject(error);
+        },
+        onSuccess: () => {
+          cleanup();
+          resolve({ transport: 'tus', filePath, totalChunks: 0 });
+        },
+      });
+
+      // Cancelling terminates the upload on the server as well
+      const onAbort = () => {
+        cleanup();
+        upload.abort(true).catch(console.warn);
+        reject(signal?.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      // Set while a slot is being waited for. A resume in that time is left to
+      // the pending wait, so the upload is never started twice.
+      let acquiring = false;
+      const startWithSlot = async () => {
+        if (acquiring || releaseSlot) return;
+        acquiring = true;
+        let release: () => void;
+        try {
+          release = await uploadSlots.acquire(signal);
+        } finally {
+          acquiring = false;
+        }
+        if (pause?.isPaused) {
+          release();
+          return;
+        }
+        releaseSlot = release;
+        upload.start();
+      };
+      const startOrFail = () => {
+        startWithSlot().catch((error) => {
+          // Cancelling while waiting for a slot is handled by onAbort
+          if (!isAbortError(error)) reject(error);
+        });
+      };
+
+      // Pausing drops the connection and frees the slot; resuming asks the
+      // server for the offset
+      const unsubscribePause = pause?.subscribe((paused) => {
+        if (paused) {
+          upload.abort().catch(console.warn);
+          releaseSlot?.();
+          releaseSlot = null;
+        } else {
+          startOrFail();
+        }
+      });
+
+      if (!pause?.isPaused) {
+        startOrFail();
+      }
+    });
+  },
+};
@@ -1,27 +1,36 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { Search, Filter, Grid, List, TrendingUp, Clock, Siren as Fire, Sparkles } from 'lucide-react';
+import { Search, Filter, Grid, List, TrendingUp, Clock, Siren as Fire } from 'lucide-react';
 import { Header } from '../components/Layout/Header';
 import { UploadModal } from '../components/Upload/UploadModal';
+import { TracklistDialog } from '../components/Tracklist/TracklistDialog'
 import styles from './Dashboard.module.css';
 import { MixCard } from '../components/MixCard/MixCard'
-import MediaPlayer from '../components/Player/MediaPlayer'
-import { supabase, getStreamingUrl, testDatabaseConnection } from '../lib/supabase'
+import { supabase, testDatabaseConnection } from '../lib/supabase'
 import { useAuth } from '../contexts/AuthContext'
-import { MusicMix } from '../types'
+import { usePlayer } from '../contexts/PlayerContext'
+import { useShortcut } from '../contexts/ShortcutsContext'
+import { useUploadQueue } from '../contexts/UploadQueueContext'
+import { updateMixCover, withImageUrls } from '../lib/media/coverArt'
+import { loadTracklist, saveTracklist } from '../lib/media/tracklist'
+import { partialProgress } from '../lib/player/positions'
+import { MixTrack, MusicMix } from '../types'
 import toast from 'react-hot-toast'
 
 export const Dashboard: React.FC = () => {
   const { user } = useAuth()
+  const { completedCount } = useUploadQueue()
+  const { nowPlaying, positions, playMix, playNext, addToQueue } = usePlayer()
   const [mixes, setMixes] = useState<MusicMix[]>([])
   const [loading, setLoading] = useState(true)
   const [searchTerm, setSearchTerm] = useState('')
+  const searchInputRef = useRef<HTMLInputElement>(null)
   const [filterType, setFilterType] = useState<'all' | 'audio' | 'video'>('all')
   const [sortBy, setSortBy] = useState<'recent' | 'popular' | 'trending'>('recent')
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid')
   const [isUploadModalOpen, setIsUploadModalOpen] = useState(false)
-  const [selectedMix, setSelectedMix] = useState<MusicMix | null>(null)
-  const [streamingUrl, setStreamingUrl] = useState<string | null>(null)
+  // Mix whose tracklist is being edited, with the tracks it has now
+  const [tracklistEdit, setTracklistEdit] = useState<{ mix: MusicMix; tracks: MixTrack[] } | null>(null)
 
   useEffect(() => {
     if (user) {
@@ -29,6 +38,24 @@ export const Dashboard: React.FC = () => {
     }
   }, [user, sortBy])
 
+  // Refresh the list whenever a queued upload finishes
+  useEffect(() => {
+    if (user && completedCount > 0) {
+      fetchMixes()
+    }
+  }, [completedCount])
+
+  // Show play counts recorded by the player
+  useEffect(() => {
+    const playedMix = nowPlaying?.mix
+    if (!playedMix) return
+    setMixes(prev => prev.map(m => m.id === playedMix.id
+      ? { ...m, play_count: Math.max(m.play_count, playedMix.play_count) }
+      : m))
+  }, [nowPlaying?.mix])
+
+  useShortcut('focusSearch', () => searchInputRef.current?.focus())
+
   const initializeDashboard = async () => {
     try {
       // Test database connection first
@@ -94,7 +121,7 @@ export const Dashboard: React.FC = () => {
       }
       
       console.log('Fetched mixes:', data)
-      setMixes(data || [])
+      setMixes(await withImageUrls(data || []))
     } catch (error) {
       console.error('Error fetching mixes:', error)
       toast.error('Failed to load mixes')
@@ -103,37 +130,48 @@ export const Dashboard: React.FC = () => {
     }
   }
 
-  const handlePlayMix = async (mix: MusicMix) => {
+  // Playing from the library queues the mixes currently listed
+  const handlePlayMix = (mix: MusicMix) => {
+    playMix(mix, filteredMixes)
+  }
+
+  const handleChangeCover = async (mix: MusicMix, cover: Blob) => {
+    const toastId = toast.loading('Saving cover art...')
+    try {
+      const updated = await updateMixCover(mix, cover)
+      setMixes(prev => prev.map(m => m.id === mix.id ? { ...m, ...updated } : m))
+      toast.success('Cover art updated', { id: toastId })
+    } catch (error) {
+      console.error('Error updating cover art:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to update cover art', { id: toastId })
+    }
+  }
+
+  const handleEditTracklist = async (mix: MusicMix) => {
     try {
-      const url = await getStreamingUrl(mix.file_path)
-      if (url) {
-        setSelectedMix(mix)
-        setStreamingUrl(url)
-        
-        // Update play count
-        const { error } = await supabase
-          .from('music_mixes')
-          .update({ play_count: mix.play_count + 1 })
-          .eq('id', mix.id)
-        
-        if (error) {
-          console.warn('Failed to update play count:', error)
-        } else {
-          // Update local state
-          setMixes(prev => prev.map(m => 
-            m.id === mix.id ? { ...m, play_count: m.play_count + 1 } : m
-          ))
-        }
-      }
+      const tracks = await loadTracklist(mix.id)
+      setTracklistEdit({ mix, tracks })
     } catch (error) {
-      console.error('Error getting streaming URL:', error)
-      toast.error('Failed to load mix')
+      console.error('Error loading tracklist:', error)
+      toast.error('Failed to load tracklist')
+    }
+  }
+
+  const handleSaveTracklist = async (mix: MusicMix, tracks: MixTrack[]) => {
+    try {
+      await saveTracklist(mix.id, tracks)
+      setTracklistEdit(null)
+      toast.success(tracks.length > 0 ? 'Tracklist saved' : 'Tracklist removed')
+    } catch (error) {
+      console.error('Error saving tracklist:', error)
+      toast.error(error instanceof Error ? error.message : 'Failed to save tracklist')
     }
   }
 
   const filteredMixes = mixes.filter(mix => {
     const matchesSearch = mix.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         mix.description?.toLowerCase().includes(searchTerm.toLowerCase())
+                         mix.description?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         mix.artist?.toLowerCase().includes(searchTerm.toLowerCase())
     const matchesFilter = filterType === 'all' || mix.file_type === filterType
     return matchesSearch && matchesFilter
   })
@@ -234,30 +272,6 @@ export const Dashboard: React.FC = () => {
       <Header onUploadClick={() => setIsUploadModalOpen(true)} />
       
       <main className="relative z-10 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {/* Now Playing */}
-        {selectedMix && streamingUrl && (
-          <motion.div
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            className="mb-12"
-          >
-            <div className="flex items-center space-x-3 mb-6">
-              <div className="gradient-primary p-2 rounded-xl">
-                <Sparkles className="h-5 w-5 text-white" />
-              </div>
-              <h2 className="text-xl font-bold text-white">Now Playing</h2>
-            </div>
-            <MediaPlayer media={selectedMix ? {
-              id: selectedMix.id,
-              title: selectedMix.title,
-              artist: selectedMix.artist || 'Unknown Artist',
-              coverArt: selectedMix.thumbnail_url || selectedMix.coverUrl,
-              url: streamingUrl || '',
-              type: selectedMix.file_type as 'audio' | 'video'
-            } : null} />
-          </motion.div>
-        )}
-
         {/* Header Section */}
         <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between mb-8 space-y-6 lg:space-y-0">
           <motion.div
@@ -282,6 +296,7 @@ export const Dashboard: React.FC = () => {
             <div className="relative">
               <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 h-5 w-5 text-white/60" />
               <input
+                ref={searchInputRef}
                 type="text"
                 placeholder="Search your mixes..."
                 value={searchTerm}
@@ -423,6 +438,11 @@ export const Dashboard: React.FC = () => {
                 <MixCard
                   mix={mix}
                   onPlay={handlePlayMix}
+                  onPlayNext={playNext}
+                  onAddToQueue={addToQueue}
+                  onChangeCover={mix.user_id === user?.id ? handleChangeCover : undefined}
+                  onEditTracklist={mix.user_id === user?.id ? handleEditTracklist : undefined}
+                  progress={partialProgress(positions[mix.id])}
                 />
               </motion.div>
             ))}
@@ -433,8 +453,22 @@ export const Dashboard: React.FC = () => {
       <UploadModal
         isOpen={isUploadModalOpen}
         onClose={() => setIsUploadModalOpen(false)}
-        onUploadComplete={fetchMixes}
+        onOpenMix={async (mix) => {
+          setIsUploadModalOpen(false)
+          // Rows from the duplicate check carry storage paths, not image URLs
+          const [withImages] = await withImageUrls([mix])
+          playMix(withImages)
+        }}
       />
+
+      {tracklistEdit && (
+        <TracklistDialog
+          title={tracklistEdit.mix.title}
+          initialTracks={tracklistEdit.tracks}
+          onCancel={() => setTracklistEdit(null)}
+          onSave={(tracks) => handleSaveTracklist(tracklistEdit.mix, tracks)}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
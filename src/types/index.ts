@@ -1,3 +1,6 @@
+// Where a mix is in the HLS transcoding pipeline
+export type HlsStatus = 'none' | 'pending' | 'processing' | 'ready' | 'failed'
+
 export interface MusicMix {
   id: string
   title: string
@@ -8,8 +11,28 @@ export interface MusicMix {
   file_type: 'audio' | 'video'
   mime_type: string
   duration: number
+  // Storage path of the poster frame of a video; thumbnailUrl is resolved
+  // from it
   thumbnail_url?: string
+  thumbnailUrl?: string
+  // SHA-256 of the file, used to spot duplicate uploads
+  content_hash?: string
+  genre?: string
+  year?: number
+  bpm?: number
+  comment?: string
+  // Storage path of the largest cover variant; coverUrl and coverSrcSet are
+  // resolved from it
+  cover_path?: string
   coverUrl?: string
+  coverSrcSet?: string
+  // Storage path of the waveform peaks sidecar
+  waveform_path?: string
+  // Progress of the HLS renditions of a video mix; hls_path is the folder
+  // holding master.m3u8 once they are ready
+  hls_status?: HlsStatus
+  hls_path?: string
+  hls_error?: string
   audioUrl?: string
   created_at: string
   updated_at: string
@@ -18,6 +41,52 @@ export interface MusicMix {
   play_count: number
 }
 
+// One track of a mix's tracklist. Tracks without a known start are listed
+// but cannot be jumped to.
+export interface MixTrack {
+  // Seconds into the mix
+  start_time: number | null
+  artist: string | null
+  title: string
+  label: string | null
+}
+
+// How far a user got into a mix, in seconds
+export interface PlaybackPosition {
+  mix_id: string
+  position: number
+  duration: number
+  updated_at: string
+}
+
+// Section of a mix a listener saved to loop over, in seconds
+export interface LoopRegion {
+  id: string
+  mix_id: string
+  name: string
+  start_time: number
+  end_time: number
+  created_at: string
+}
+
+// Fields the client supplies when creating a mix; the finalize step adds
+// file_path, file_size and user_id once the upload has been verified.
+export interface MixDraft {
+  title: string
+  description: string | null
+  file_type: 'audio' | 'video'
+  mime_type: string
+  duration?: number
+  is_public: boolean
+  artist: string | null
+  genre: string | null
+  year: number | null
+  bpm: number | null
+  comment: string | null
+  cover_path: string | null
+  thumbnail_url: string | null
+}
+
 export interface User {
   id: string
   email: string
@@ -26,8 +95,58 @@ export interface User {
   created_at: string
 }
 
+export interface UploadStats {
+  bytesUploaded: number
+  bytesTotal: number
+  // null until the estimator has enough samples
+  bytesPerSecond: number | null
+  etaSeconds: number | null
+}
+
 export interface UploadProgress {
   progress: number
-  status: 'idle' | 'uploading' | 'success' | 'error'
+  // 'idle' items are still being edited; 'queued' ones wait for a free slot;
+  // 'duplicate' ones wait for the user to decide what to do with a match
+  status: 'idle' | 'queued' | 'hashing' | 'duplicate' | 'uploading' | 'paused' | 'success' | 'error'
   error?: string
-}
\ No newline at end of file
+  stats?: UploadStats
+}
+
+// Existing mixes with the same content hash as a file about to be uploaded
+export interface DuplicateMixes {
+  own: MusicMix[]
+  // Public mixes uploaded by other users
+  others: MusicMix[]
+}
+
+// A file in the upload queue together with the metadata it will be saved with
+export interface UploadQueueItem {
+  id: string
+  file: File
+  // Detected from the file's content when it was added
+  fileType: 'audio' | 'video'
+  mimeType: string
+  title: string
+  description: string
+  isPublic: boolean
+  // Prefilled from the file's embedded tags; kept as typed until upload
+  artist: string
+  genre: string
+  year: string
+  bpm: string
+  comment: string
+  // Embedded cover art, uploaded alongside the file
+  cover?: Blob
+  // Poster frame chosen for a video, uploaded alongside the file
+  thumbnail?: Blob
+  // Imported or pasted tracklist, saved once the mix exists
+  tracks?: MixTrack[]
+  upload: UploadProgress
+  // Set once the file has been hashed, so a retry does not hash it again
+  contentHash?: string
+  duplicates?: DuplicateMixes
+  // The user chose to upload although they already own a mix with this content
+  allowDuplicate?: boolean
+  // Swap the file of this existing mix instead of creating a new one
+  replaceMixId?: string
+}
@@ -0,0 +1,307 @@
+/*
+  # finalize-upload
+
+  Assembles and verifies an upload, then records it.
+
+  1. Chunked transport: streams every `${filePath}.partN` object in order
+     into `filePath`. TUS transport: reads back the object TUS wrote.
+  2. Counts the bytes and computes the SHA-256 of the stream as it passes,
+     incrementally on the way to storage
+  3. Rejects the upload if either does not match what the client sent
+  4. Removes the chunk objects and creates the `music_mixes` row, or, when
+     `replaceMixId` is set, points that row at the new file and removes the
+     file it replaced
+
+  The file is never held in memory in full, so multi-GB mixes stay within
+  the Edge Function memory limit.
+*/
+
+import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { createSHA256 } from 'npm:hash-wasm@4'
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts'
+
+const STORAGE_BUCKET = 'music-mixes'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const anonKey = Deno.env.get('SUPABASE_ANON_KEY')!
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+interface FinalizeUploadRequest {
+  transport: 'tus' | 'chunked'
+  filePath: string
+  totalChunks: number
+  fileSize: number
+  sha256: string
+  mix: {
+    title: string
+    description: string | null
+    file_type: 'audio' | 'video'
+    mime_type: string
+    duration?: number
+    is_public: boolean
+    artist?: string | null
+    genre?: string | null
+    year?: number | null
+    bpm?: number | null
+    comment?: string | null
+    cover_path?: string | null
+    thumbnail_url?: string | null
+  }
+  replaceMixId?: string
+}
+
+const chunkPath = (filePath: string, chunkIndex: number) => `${filePath}.part${chunkIndex}`
+
+const objectUrl = (path: string) =>
+  `${supabaseUrl}/storage/v1/object/${STORAGE_BUCKET}/${path.split('/').map(encodeURIComponent).join('/')}`
+
+// Read every chunk in order as one continuous stream
+const concatenateChunks = (filePath: string, totalChunks: number) => {
+  let chunkIndex = 0
+  let reader: ReadableStreamDefaultReader<Uint8Array> | null = null
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      while (chunkIndex < totalChunks) {
+        if (!reader) {
+          const response = await fetch(objectUrl(chunkPath(filePath, chunkIndex)), {
+            headers: { Authorization: `Bearer ${serviceRoleKey}` },
+          })
+          if (!response.ok || !response.body) {
+            throw new Error(`Missing chunk ${chunkIndex} (status ${response.status})`)
+          }
+          reader = response.body.getReader()
+        }
+
+        const { done, value } = await reader.read()
+        if (!done) {
+          controller.enqueue(value)
+          return
+        }
+
+        reader = null
+        chunkIndex++
+      }
+      controller.close()
+    },
+  })
+}
+
+// Count and hash bytes flowing through a stream without buffering them.
+// The totals are final once the stream has been read to the end.
+const measureStream = async () => {
+  const hasher = await createSHA256()
+  hasher.init()
+  let total = 0
+  const stream = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      total += chunk.byteLength
+      hasher.update(chunk)
+      controller.enqueue(chunk)
+    },
+  })
+  return { stream, total: () => total, sha256: () => hasher.digest('hex') }
+}
+
+// Read a finished object as a stream
+const readObject = async (filePath: string) => {
+  const response = await fetch(objectUrl(filePath), {
+    headers: { Authorization: `Bearer ${serviceRoleKey}` },
+  })
+  if (!response.ok || !response.body) {
+    throw new Error(`Uploaded file not found (status ${response.status})`)
+  }
+  return response.body
+}
+
+const validateRequest = (body: Partial<FinalizeUploadRequest>): string | null => {
+  if (body.transport !== 'tus' && body.transport !== 'chunked') return 'transport must be tus or chunked'
+  if (!body.filePath || typeof body.filePath !== 'string') return 'filePath is required'
+  if (body.transport === 'chunked' && (!Number.isInteger(body.totalChunks) || body.totalChunks! < 1)) {
+    return 'totalChunks must be a positive integer'
+  }
+  if (!Number.isInteger(body.fileSize) || body.fileSize! < 0) return 'fileSize must be a non-negative integer'
+  if (!/^[0-9a-f]{64}$/.test(body.sha256 ?? '')) return 'sha256 must be a hex SHA-256 digest'
+  if (!body.mix?.title?.trim()) return 'mix.title is required'
+  if (body.mix.file_type !== 'audio' && body.mix.file_type !== 'video') return 'mix.file_type must be audio or video'
+  if (body.mix.year != null && (!Number.isInteger(body.mix.year) || body.mix.year < 1000 || body.mix.year > 9999)) {
+    return 'mix.year must be a four digit year'
+  }
+  if (body.mix.bpm != null && !(typeof body.mix.bpm === 'number' && body.mix.bpm > 0)) return 'mix.bpm must be positive'
+  if (body.replaceMixId !== undefined && typeof body.replaceMixId !== 'string') return 'replaceMixId must be a string'
+  return null
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405)
+  }
+
+  // Identify the caller from their JWT
+  const authClient = createClient(supabaseUrl, anonKey, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  })
+  const { data: { user }, error: authError } = await authClient.auth.getUser()
+  if (authError || !user) {
+    return jsonResponse({ error: 'Not authenticated' }, 401)
+  }
+
+  let body: FinalizeUploadRequest
+  try {
+    body = await req.json()
+  } catch {
+    return jsonResponse({ error: 'Invalid JSON body' }, 400)
+  }
+
+  const validationError = validateRequest(body)
+  if (validationError) {
+    return jsonResponse({ error: validationError }, 400)
+  }
+
+  const { transport, filePath, totalChunks, fileSize, sha256, mix, replaceMixId } = body
+
+  // Users may only finalize files in their own folder
+  if (!filePath.startsWith(`${user.id}/`)) {
+    return jsonResponse({ error: 'File path does not belong to the current user' }, 403)
+  }
+  if (mix.cover_path && !mix.cover_path.startsWith(`${user.id}/`)) {
+    return jsonResponse({ error: 'Cover path does not belong to the current user' }, 403)
+  }
+  if (mix.thumbnail_url && !mix.thumbnail_url.startsWith(`${user.id}/`)) {
+    return jsonResponse({ error: 'Thumbnail path does not belong to the current user' }, 403)
+  }
+
+  const admin = createClient(supabaseUrl, serviceRoleKey)
+  const bucket = admin.storage.from(STORAGE_BUCKET)
+
+  // Only the owner may replace the file of a mix
+  let replaced: { id: string; file_path: string; waveform_path: string | null } | null = null
+  if (replaceMixId) {
+    const { data: existing } = await admin
+      .from('music_mixes')
+      .select('id, file_path, waveform_path, user_id')
+      .eq('id', replaceMixId)
+      .maybeSingle()
+    if (!existing || existing.user_id !== user.id) {
+      return jsonResponse({ error: 'Mix to replace was not found' }, 404)
+    }
+    replaced = existing
+  }
+
+  try {
+    const measured = await measureStream()
+
+    if (transport === 'chunked') {
+      // A single stream from the chunks to storage, hashed as it passes, so
+      // reading only ever runs as far ahead as the upload takes it
+      const uploadResponse = await fetch(objectUrl(filePath), {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${serviceRoleKey}`,
+          'Content-Type': mix.mime_type || 'application/octet-stream',
+          'Cache-Control': 'max-age=3600',
+          'x-upsert': 'true',
+        },
+        body: concatenateChunks(filePath, totalChunks).pipeThrough(measured.stream),
+      })
+
+      if (!uploadResponse.ok) {
+        throw new Error(`Failed to write assembled file (status ${uploadResponse.status}): ${await uploadResponse.text()}`)
+      }
+    } else {
+      const stored = await readObject(filePath)
+      await stored.pipeThrough(measured.stream).pipeTo(new WritableStream())
+    }
+
+    const assembledSize = measured.total()
+    const assembledHash = measured.sha256()
+
+    if (assembledSize !== fileSize || assembledHash !== sha256) {
+      // Keep any chunks so the client can retry, but drop the bad result
+      await bucket.remove([filePath])
+      return jsonResponse({
+        error: assembledSize !== fileSize
+          ? `Assembled size ${assembledSize} does not match expected ${fileSize} bytes`
+          : 'Assembled file checksum does not match the uploaded file',
+      }, 422)
+    }
+
+    if (transport === 'chunked') {
+      const partPaths = Array.from({ length: totalChunks }, (_, i) => chunkPath(filePath, i))
+      const { error: removeError } = await bucket.remove(partPaths)
+      if (removeError) {
+        console.warn('Failed to remove chunks:', removeError)
+      }
+    }
+
+    if (replaced) {
+      const { data: row, error: updateError } = await admin
+        .from('music_mixes')
+        .update({
+          file_type: mix.file_type,
+          mime_type: mix.mime_type,
+          duration: mix.duration ?? null,
+          file_path: filePath,
+          file_size: fileSize,
+          content_hash: sha256,
+          // The old peaks describe the old file; the client uploads new ones
+          waveform_path: null,
+        })
+        .eq('id', replaced.id)
+        .select()
+        .single()
+
+      if (updateError) {
+        throw new Error(`Database error: ${updateError.message}`)
+      }
+
+      const replacedObjects = [replaced.file_path, replaced.waveform_path]
+        .filter((path): path is string => !!path && path !== filePath)
+      if (replacedObjects.length > 0) {
+        const { error: removeError } = await bucket.remove(replacedObjects)
+        if (removeError) {
+          console.warn('Failed to remove replaced file:', removeError)
+        }
+      }
+
+      return jsonResponse({ mix: row })
+    }
+
+    const { data: row, error: insertError } = await admin
+      .from('music_mixes')
+      .insert({
+        title: mix.title.trim(),
+        description: mix.description,
+        file_type: mix.file_type,
+        mime_type: mix.mime_type,
+        duration: mix.duration ?? null,
+        is_public: mix.is_public,
+        artist: mix.artist ?? null,
+        genre: mix.genre ?? null,
+        year: mix.year ?? null,
+        bpm: mix.bpm ?? null,
+        comment: mix.comment ?? null,
+        cover_path: mix.cover_path ?? null,
+        thumbnail_url: mix.thumbnail_url ?? null,
+        file_path: filePath,
+        file_size: fileSize,
+        content_hash: sha256,
+        user_id: user.id,
+      })
+      .select()
+      .single()
+
+    if (insertError) {
+      throw new Error(`Database error: ${insertError.message}`)
+    }
+
+    return jsonResponse({ mix: row })
+  } catch (error) {
+    console.error('Finalize failed:', error)
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Finalize failed' }, 500)
+  }
+})
@@ -0,0 +1,15 @@
+/*
+  # Add content hash to music mixes
+
+  1. Changes
+    - `music_mixes`
+      - `content_hash` (text, optional) - hex SHA-256 of the uploaded file,
+        written by the finalize step once the upload has been verified
+
+  2. Indexes
+    - Look up mixes by content hash to detect duplicate uploads
+*/
+
+ALTER TABLE music_mixes ADD COLUMN IF NOT EXISTS content_hash text;
+
+CREATE INDEX IF NOT EXISTS idx_music_mixes_content_hash ON music_mixes(content_hash);
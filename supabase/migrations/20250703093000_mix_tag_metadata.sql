@@ -0,0 +1,38 @@
+/*
+  # Add tag metadata and cover art to music mixes
+
+  1. Changes
+    - `music_mixes`
+      - `artist` (text, optional)
+      - `genre` (text, optional)
+      - `year` (integer, optional) - release year
+      - `bpm` (numeric, optional) - tempo in beats per minute
+      - `comment` (text, optional)
+      - `cover_path` (text, optional) - path of the cover image in storage
+
+    These are prefilled from the tags embedded in the uploaded file and
+    reviewed by the user before upload.
+
+  2. Storage
+    - Cover images live in the owner's folder under `covers/`. Anyone signed
+      in may read the cover of a public mix, like the mix file itself.
+*/
+
+ALTER TABLE music_mixes ADD COLUMN IF NOT EXISTS artist text;
+ALTER TABLE music_mixes ADD COLUMN IF NOT EXISTS genre text;
+ALTER TABLE music_mixes ADD COLUMN IF NOT EXISTS year integer CHECK (year BETWEEN 1000 AND 9999);
+ALTER TABLE music_mixes ADD COLUMN IF NOT EXISTS bpm numeric(6, 2) CHECK (bpm > 0);
+ALTER TABLE music_mixes ADD COLUMN IF NOT EXISTS comment text;
+ALTER TABLE music_mixes ADD COLUMN IF NOT EXISTS cover_path text;
+
+CREATE POLICY "Users can view covers of public mixes"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'music-mixes' AND
+    EXISTS (
+      SELECT 1 FROM music_mixes
+      WHERE cover_path = name AND is_public = true
+    )
+  );
@@ -0,0 +1,28 @@
+/*
+  # Add waveform peaks to music mixes
+
+  1. Changes
+    - `music_mixes`
+      - `waveform_path` (text, optional) - path of the peaks sidecar object,
+        `${file_path}.peaks.json`, written after the upload is finalized
+
+  2. Storage
+    - Anyone signed in may read the waveform of a public mix. The path must
+      sit under the owner's own folder.
+*/
+
+ALTER TABLE music_mixes ADD COLUMN IF NOT EXISTS waveform_path text;
+
+CREATE POLICY "Users can view waveforms of public mixes"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'music-mixes' AND
+    EXISTS (
+      SELECT 1 FROM music_mixes
+      WHERE waveform_path = name AND
+        is_public = true AND
+        starts_with(waveform_path, user_id::text || '/')
+    )
+  );
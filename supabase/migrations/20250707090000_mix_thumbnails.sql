@@ -0,0 +1,28 @@
+/*
+  # Store video thumbnails in the mixes bucket
+
+  1. Changes
+    - `music_mixes.thumbnail_url` now holds the storage path of the poster
+      frame picked at upload, under the owner's `thumbnails/` folder. The
+      client signs it like the mix file.
+
+  2. Storage
+    - Anyone signed in may read the thumbnail of a public mix, like its cover.
+      The path must sit under the owner's own folder.
+*/
+
+COMMENT ON COLUMN music_mixes.thumbnail_url IS 'Storage path of the video poster frame';
+
+CREATE POLICY "Users can view thumbnails of public mixes"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'music-mixes' AND
+    EXISTS (
+      SELECT 1 FROM music_mixes
+      WHERE thumbnail_url = name AND
+        is_public = true AND
+        starts_with(thumbnail_url, user_id::text || '/')
+    )
+  );
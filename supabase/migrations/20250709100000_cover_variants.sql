@@ -0,0 +1,35 @@
+/*
+  # Store covers at several sizes
+
+  1. Changes
+    - Covers are now written as square WebP images at 128, 512 and 1024 px
+      under `<user>/covers/<id>/<size>.webp`. `music_mixes.cover_path` points
+      at the 1024 px variant; the other sizes sit next to it.
+
+  2. Storage
+    - The policy for covers of public mixes also lets readers fetch the
+      sibling variants of a mix's cover. Single file covers stored before
+      this change are matched by exact path as before. Either way the cover
+      must sit under the owner's own folder.
+*/
+
+DROP POLICY IF EXISTS "Users can view covers of public mixes" ON storage.objects;
+
+CREATE POLICY "Users can view covers of public mixes"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'music-mixes' AND
+    EXISTS (
+      SELECT 1 FROM music_mixes
+      WHERE is_public = true AND
+        starts_with(cover_path, user_id::text || '/') AND (
+          cover_path = name OR (
+            cover_path ~ '/covers/[^/]+/[0-9]+\.(webp|jpg)$' AND
+            name ~ '/covers/[^/]+/[0-9]+\.(webp|jpg)$' AND
+            regexp_replace(cover_path, '[^/]+$', '') = regexp_replace(name, '[^/]+$', '')
+          )
+        )
+    )
+  );
@@ -0,0 +1,49 @@
+/*
+  # Remember where each listener is in a mix
+
+  1. New Tables
+    - `playback_positions`
+      - `user_id` (uuid, required) - references auth.users
+      - `mix_id` (uuid, required) - references music_mixes
+      - `position` (real, required) - seconds into the mix
+      - `duration` (real, required) - length of the mix when the position
+        was saved, so progress can be shown without loading the mix
+      - `updated_at` (timestamp)
+      - primary key (`user_id`, `mix_id`)
+
+  2. Security
+    - Enable RLS on `playback_positions`
+    - Listeners can only read and write their own positions
+*/
+
+CREATE TABLE IF NOT EXISTS playback_positions (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  mix_id uuid NOT NULL REFERENCES music_mixes(id) ON DELETE CASCADE,
+  position real NOT NULL CHECK (position >= 0),
+  duration real NOT NULL CHECK (duration > 0),
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, mix_id)
+);
+
+ALTER TABLE playback_positions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own playback positions"
+  ON playback_positions
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert their own playback positions"
+  ON playback_positions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own playback positions"
+  ON playback_positions
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_playback_positions_mix_id ON playback_positions(mix_id);
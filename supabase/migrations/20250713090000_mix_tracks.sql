@@ -0,0 +1,79 @@
+/*
+  # Add tracklists to music mixes
+
+  1. New Tables
+    - `mix_tracks`
+      - `id` (uuid, primary key)
+      - `mix_id` (uuid, required) - references music_mixes
+      - `position` (integer, required) - order within the tracklist
+      - `start_time` (real, optional) - seconds into the mix; tracks copied
+        from lists without times have none
+      - `artist` (text, optional)
+      - `title` (text, required)
+      - `label` (text, optional) - record label
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `mix_tracks`
+    - Tracklists can be read wherever their mix can
+    - Only the owner of a mix can change its tracklist
+*/
+
+CREATE TABLE IF NOT EXISTS mix_tracks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  mix_id uuid NOT NULL REFERENCES music_mixes(id) ON DELETE CASCADE,
+  position integer NOT NULL,
+  start_time real CHECK (start_time >= 0),
+  artist text,
+  title text NOT NULL,
+  label text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE mix_tracks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view tracks of mixes they can view"
+  ON mix_tracks
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM music_mixes
+      WHERE music_mixes.id = mix_id AND (is_public = true OR user_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can insert tracks of their own mixes"
+  ON mix_tracks
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM music_mixes
+      WHERE music_mixes.id = mix_id AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update tracks of their own mixes"
+  ON mix_tracks
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM music_mixes
+      WHERE music_mixes.id = mix_id AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete tracks of their own mixes"
+  ON mix_tracks
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM music_mixes
+      WHERE music_mixes.id = mix_id AND user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_mix_tracks_mix_id ON mix_tracks(mix_id, position);
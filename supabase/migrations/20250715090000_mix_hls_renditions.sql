@@ -0,0 +1,65 @@
+/*
+  # Add HLS renditions of video mixes
+
+  1. Changes
+    - `music_mixes`
+      - `hls_status` (text, required) - where the mix is in the transcoding
+        pipeline: `none` (not queued), `pending`, `processing`, `ready` or
+        `failed`
+      - `hls_path` (text, optional) - folder holding `master.m3u8` and one
+        subfolder of segments per rendition, set once the mix is `ready`
+      - `hls_error` (text, optional) - why the last transcode failed
+    - New and replaced video files are queued as `pending` by a trigger; the
+      worker in `workers/transcode-hls` picks them up
+    - Video mixes uploaded before this change are queued as well
+
+  2. Storage
+    - Anyone signed in may read the renditions of a public mix. The folder
+      must sit under the owner's own folder.
+*/
+
+ALTER TABLE music_mixes
+  ADD COLUMN IF NOT EXISTS hls_status text NOT NULL DEFAULT 'none'
+    CHECK (hls_status IN ('none', 'pending', 'processing', 'ready', 'failed')),
+  ADD COLUMN IF NOT EXISTS hls_path text,
+  ADD COLUMN IF NOT EXISTS hls_error text;
+
+UPDATE music_mixes SET hls_status = 'pending' WHERE file_type = 'video' AND hls_status = 'none';
+
+-- A new video file needs new renditions
+CREATE OR REPLACE FUNCTION queue_hls_rendition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.file_path IS DISTINCT FROM OLD.file_path THEN
+    NEW.hls_status = CASE WHEN NEW.file_type = 'video' THEN 'pending' ELSE 'none' END;
+    NEW.hls_path = NULL;
+    NEW.hls_error = NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER queue_music_mixes_hls_rendition
+  BEFORE INSERT OR UPDATE OF file_path ON music_mixes
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_hls_rendition();
+
+-- The worker polls for pending jobs
+CREATE INDEX IF NOT EXISTS idx_music_mixes_hls_pending
+  ON music_mixes(created_at)
+  WHERE hls_status = 'pending';
+
+CREATE POLICY "Users can view renditions of public mixes"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'music-mixes' AND
+    EXISTS (
+      SELECT 1 FROM music_mixes
+      WHERE is_public = true AND
+        hls_status = 'ready' AND
+        starts_with(hls_path, user_id::text || '/') AND
+        starts_with(name, hls_path || '/')
+    )
+  );
@@ -0,0 +1,59 @@
+/*
+  # Save named loop regions per listener and mix
+
+  1. New Tables
+    - `loop_regions`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, required) - references auth.users
+      - `mix_id` (uuid, required) - references music_mixes
+      - `name` (text, required)
+      - `start_time` (real, required) - seconds into the mix where the loop
+        starts (A)
+      - `end_time` (real, required) - seconds into the mix where it jumps
+        back to the start (B)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Enable RLS on `loop_regions`
+    - Listeners can only read and change their own regions
+*/
+
+CREATE TABLE IF NOT EXISTS loop_regions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  mix_id uuid NOT NULL REFERENCES music_mixes(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  start_time real NOT NULL CHECK (start_time >= 0),
+  end_time real NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  CHECK (end_time > start_time)
+);
+
+ALTER TABLE loop_regions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own loop regions"
+  ON loop_regions
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert their own loop regions"
+  ON loop_regions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own loop regions"
+  ON loop_regions
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own loop regions"
+  ON loop_regions
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_loop_regions_user_mix ON loop_regions(user_id, mix_id, start_time);
@@ -0,0 +1,31 @@
+/*
+  # Replace tracklists in one transaction
+
+  1. Changes
+    - `replace_mix_tracks(target_mix_id, tracks)` deletes the tracklist of a
+      mix and inserts `tracks` in its place, so a failed save leaves the old
+      tracklist as it was. `tracks` is a JSON array of objects with
+      `start_time`, `artist`, `title` and `label`; positions follow the array
+      order.
+
+  2. Security
+    - The function runs as the caller, so the RLS policies on `mix_tracks`
+      still decide whose tracklists can be changed
+*/
+
+CREATE OR REPLACE FUNCTION replace_mix_tracks(target_mix_id uuid, tracks jsonb)
+RETURNS void AS $$
+BEGIN
+  DELETE FROM mix_tracks WHERE mix_id = target_mix_id;
+
+  INSERT INTO mix_tracks (mix_id, position, start_time, artist, title, label)
+  SELECT
+    target_mix_id,
+    track.ordinality - 1,
+    (track.value->>'start_time')::real,
+    track.value->>'artist',
+    track.value->>'title',
+    track.value->>'label'
+  FROM jsonb_array_elements(tracks) WITH ORDINALITY AS track(value, ordinality);
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
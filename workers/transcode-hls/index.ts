@@ -0,0 +1,300 @@
+/*
+  # transcode-hls
+
+  Turns video mixes into HLS renditions, so players can stream a bitrate
+  that suits their connection instead of the original file.
+
+  1. Claims the oldest `pending` mix by setting it to `processing`
+  2. Downloads the original file to a temporary folder and probes it
+  3. Runs ffmpeg once, writing segments for every rung of the ladder no
+     taller than the source, and a master playlist listing them
+  4. Uploads the result to `<owner>/hls/<mix id>/`, replacing earlier
+     renditions, and marks the mix `ready`; on failure marks it `failed`
+     with the reason in `hls_error`
+
+  Runs wherever ffmpeg and ffprobe are on the PATH, with the project's
+  service role key:
+
+    SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... \
+      deno run --allow-net --allow-env --allow-run --allow-read --allow-write \
+      workers/transcode-hls/index.ts [--once]
+
+  With --once it exits when no job is left; otherwise it keeps polling.
+*/
+
+import { createClient } from 'jsr:@supabase/supabase-js@2'
+import { extname, join, relative } from 'jsr:@std/path@1'
+import { walk } from 'jsr:@std/fs@1/walk'
+
+const STORAGE_BUCKET = 'music-mixes'
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+
+const POLL_INTERVAL_MS = 30 * 1000
+// A mix processing for this long was claimed by a worker that died
+const STALE_JOB_MS = 6 * 60 * 60 * 1000
+const SEGMENT_SECONDS = 6
+const UPLOAD_CONCURRENCY = 4
+const LIST_PAGE_SIZE = 1000
+
+interface Rung {
+  name: string
+  height: number
+  videoKbps: number
+  audioKbps: number
+}
+
+const LADDER: Rung[] = [
+  { name: '1080p', height: 1080, videoKbps: 5000, audioKbps: 192 },
+  { name: '720p', height: 720, videoKbps: 2800, audioKbps: 128 },
+  { name: '480p', height: 480, videoKbps: 1400, audioKbps: 128 },
+  { name: '360p', height: 360, videoKbps: 800, audioKbps: 96 },
+]
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.ts': 'video/mp2t',
+}
+
+interface Job {
+  id: string
+  user_id: string
+  file_path: string
+}
+
+const admin = createClient(supabaseUrl, serviceRoleKey)
+const bucket = admin.storage.from(STORAGE_BUCKET)
+
+const objectUrl = (path: string) =>
+  `${supabaseUrl}/storage/v1/object/${STORAGE_BUCKET}/${path.split('/').map(encodeURIComponent).join('/')}`
+
+const renditionFolder = (job: Job) => `${job.user_id}/hls/${job.id}`
+
+// Put jobs of workers that stopped halfway back in the queue
+const requeueStaleJobs = async () => {
+  const { error } = await admin
+    .from('music_mixes')
+    .update({ hls_status: 'pending' })
+    .eq('hls_status', 'processing')
+    .lt('updated_at', new Date(Date.now() - STALE_JOB_MS).toISOString())
+  if (error) throw new Error(`Database error: ${error.message}`)
+}
+
+const claimJob = async (): Promise<Job | null> => {
+  const { data: candidates, error } = await admin
+    .from('music_mixes')
+    .select('id')
+    .eq('hls_status', 'pending')
+    .order('created_at')
+    .limit(1)
+  if (error) throw new Error(`Database error: ${error.message}`)
+  if (candidates.length === 0) return null
+
+  // Only one worker gets to move a job out of pending
+  const { data: claimed, error: claimError } = await admin
+    .from('music_mixes')
+    .update({ hls_status: 'processing', hls_error: null })
+    .eq('id', candidates[0].id)
+    .eq('hls_status', 'pending')
+    .select('id, user_id, file_path')
+    .maybeSingle()
+  if (claimError) throw new Error(`Database error: ${claimError.message}`)
+  return claimed ?? claimJob()
+}
+
+const run = async (command: string, args: string[]) => {
+  const { code, stdout, stderr } = await new Deno.Command(command, { args, stdout: 'piped', stderr: 'piped' }).output()
+  if (code !== 0) {
+    const lastLines = new TextDecoder().decode(stderr).trim().split('\n').slice(-5).join('\n')
+    throw new Error(`${command} exited with code ${code}: ${lastLines}`)
+  }
+  return new TextDecoder().decode(stdout)
+}
+
+// Stream the original file to disk; mixes are too large to hold in memory
+const download = async (filePath: string, target: string) => {
+  const response = await fetch(objectUrl(filePath), {
+    headers: { Authorization: `Bearer ${serviceRoleKey}` },
+  })
+  if (!response.ok || !response.body) {
+    throw new Error(`Original file not found (status ${response.status})`)
+  }
+  const file = await Deno.open(target, { write: true, create: true, truncate: true })
+  await response.body.pipeTo(file.writable)
+}
+
+const probe = async (path: string) => {
+  const output = JSON.parse(await run('ffprobe', [
+    '-v', 'error',
+    '-show_entries', 'stream=codec_type,height',
+    '-of', 'json',
+    path,
+  ]))
+  const streams: { codec_type: string; height?: number }[] = output.streams ?? []
+  const video = streams.find(stream => stream.codec_type === 'video')
+  if (!video?.height) throw new Error('The file has no video stream')
+  return { height: video.height, hasAudio: streams.some(stream => stream.codec_type === 'audio') }
+}
+
+// Rungs no taller than the source. A source smaller than every rung gets
+// the lowest one at its own height; H.264 needs an even height.
+const pickRungs = (height: number): Rung[] => {
+  const rungs = LADDER.filter(rung => rung.height <= height)
+  if (rungs.length > 0) return rungs
+  const lowest = LADDER[LADDER.length - 1]
+  const evenHeight = height - (height % 2)
+  return [{ ...lowest, name: `${evenHeight}p`, height: evenHeight }]
+}
+
+// One ffmpeg pass scales the video once per rung. Keyframes are forced on
+// segment boundaries so every rendition switches at the same points.
+const transcode = async (source: string, outputDir: string, rungs: Rung[], hasAudio: boolean) => {
+  const filter = [
+    `[0:v]split=${rungs.length}${rungs.map((_, i) => `[v${i}]`).join('')}`,
+    ...rungs.map((rung, i) => `[v${i}]scale=-2:${rung.height}[v${i}out]`),
+  ].join(';')
+
+  const args = ['-y', '-i', source, '-filter_complex', filter]
+  rungs.forEach((rung, i) => {
+    args.push(
+      '-map', `[v${i}out]`,
+      `-c:v:${i}`, 'libx264',
+      `-b:v:${i}`, `${rung.videoKbps}k`,
+      `-maxrate:v:${i}`, `${Math.round(rung.videoKbps * 1.1)}k`,
+      `-bufsize:v:${i}`, `${rung.videoKbps * 2}k`,
+    )
+    if (hasAudio) {
+      args.push('-map', 'a:0', `-c:a:${i}`, 'aac', `-b:a:${i}`, `${rung.audioKbps}k`)
+    }
+  })
+  args.push(
+    '-preset', 'veryfast',
+    '-profile:v', 'main',
+    '-pix_fmt', 'yuv420p',
+    '-ac', '2',
+    '-sc_threshold', '0',
+    '-force_key_frames', `expr:gte(t,n_forced*${SEGMENT_SECONDS})`,
+    '-f', 'hls',
+    '-hls_time', String(SEGMENT_SECONDS),
+    '-hls_playlist_type', 'vod',
+    '-hls_flags', 'independent_segments',
+    '-hls_segment_filename', join(outputDir, '%v', 'segment_%05d.ts'),
+    '-master_pl_name', 'master.m3u8',
+    '-var_stream_map', rungs.map((rung, i) => `v:${i},${hasAudio ? `a:${i},` : ''}name:${rung.name}`).join(' '),
+    join(outputDir, '%v', 'index.m3u8'),
+  )
+  await run('ffmpeg', args)
+}
+
+const listAll = async (folder: string) => {
+  const entries = []
+  for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+    const { data, error } = await bucket.list(folder, { limit: LIST_PAGE_SIZE, offset })
+    if (error) throw new Error(`Storage error: ${error.message}`)
+    entries.push(...data)
+    if (data.length < LIST_PAGE_SIZE) return entries
+  }
+}
+
+// Remove earlier renditions: the master playlist and one folder per rung
+const removeRenditions = async (folder: string) => {
+  const paths: string[] = []
+  for (const entry of await listAll(folder)) {
+    // Folders are listed without an id
+    if (entry.id) {
+      paths.push(`${folder}/${entry.name}`)
+    } else {
+      const files = await listAll(`${folder}/${entry.name}`)
+      paths.push(...files.map(file => `${folder}/${entry.name}/${file.name}`))
+    }
+  }
+  for (let i = 0; i < paths.length; i += LIST_PAGE_SIZE) {
+    const { error } = await bucket.remove(paths.slice(i, i + LIST_PAGE_SIZE))
+    if (error) throw new Error(`Storage error: ${error.message}`)
+  }
+}
+
+const uploadRenditions = async (outputDir: string, folder: string) => {
+  const files: string[] = []
+  for await (const entry of walk(outputDir, { includeDirs: false })) {
+    files.push(entry.path)
+  }
+
+  // Segments before playlists, so a playlist never names a missing segment
+  files.sort((a, b) => Number(a.endsWith('.m3u8')) - Number(b.endsWith('.m3u8')))
+
+  for (let i = 0; i < files.length; i += UPLOAD_CONCURRENCY) {
+    await Promise.all(files.slice(i, i + UPLOAD_CONCURRENCY).map(async (path) => {
+      const target = `${folder}/${relative(outputDir, path).split('\\').join('/')}`
+      const { error } = await bucket.upload(target, await Deno.readFile(path), {
+        contentType: CONTENT_TYPES[extname(path)] ?? 'application/octet-stream',
+        cacheControl: '3600',
+        upsert: true,
+      })
+      if (error) throw new Error(`Failed to upload ${target}: ${error.message}`)
+    }))
+  }
+  return files.length
+}
+
+const processJob = async (job: Job) => {
+  const workDir = await Deno.makeTempDir({ prefix: 'transcode-hls-' })
+  const folder = renditionFolder(job)
+  console.log(`Transcoding mix ${job.id} (${job.file_path})`)
+
+  try {
+    const source = join(workDir, 'source')
+    const outputDir = join(workDir, 'hls')
+    await download(job.file_path, source)
+
+    const { height, hasAudio } = await probe(source)
+    const rungs = pickRungs(height)
+    await transcode(source, outputDir, rungs, hasAudio)
+
+    await removeRenditions(folder)
+    const uploaded = await uploadRenditions(outputDir, folder)
+
+    // The file may have been replaced meanwhile, which queues it again
+    const { data: updated, error } = await admin
+      .from('music_mixes')
+      .update({ hls_status: 'ready', hls_path: folder, hls_error: null })
+      .eq('id', job.id)
+      .eq('file_path', job.file_path)
+      .eq('hls_status', 'processing')
+      .select('id')
+      .maybeSingle()
+    if (error) throw new Error(`Database error: ${error.message}`)
+
+    if (updated) {
+      console.log(`Mix ${job.id} ready: ${rungs.map(rung => rung.name).join(', ')} in ${uploaded} files`)
+    } else {
+      console.warn(`Mix ${job.id} changed while transcoding; its renditions were not published`)
+    }
+  } catch (error) {
+    console.error(`Transcoding mix ${job.id} failed:`, error)
+    const { error: updateError } = await admin
+      .from('music_mixes')
+      .update({ hls_status: 'failed', hls_error: error instanceof Error ? error.message : String(error) })
+      .eq('id', job.id)
+      .eq('file_path', job.file_path)
+    if (updateError) {
+      console.error('Failed to record the failure:', updateError)
+    }
+  } finally {
+    await Deno.remove(workDir, { recursive: true })
+  }
+}
+
+const once = Deno.args.includes('--once')
+
+while (true) {
+  await requeueStaleJobs()
+  const job = await claimJob()
+  if (job) {
+    await processJob(job)
+    continue
+  }
+  if (once) break
+  await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS))
+}